@@ -0,0 +1,182 @@
+/**
+ * Reader and writer for bun's text lockfile (bun.lock).
+ *
+ * bun.lock is JSON with trailing commas. `workspaces` mirrors the
+ * package.json of every workspace package; `packages` maps each install
+ * path ("react", "a/react" for a nested copy) to a tuple of
+ * `["<name>@<version>", <registry>, <metadata>, <integrity>]`. The binary
+ * bun.lockb format is not handled here.
+ */
+
+/**
+ * Whether content looks like a text bun lockfile
+ */
+export function isBunLockfile(content: string): boolean {
+  return /^\s*\{/.test(content) && /^ {2}"lockfileVersion":/m.test(content) && /^ {2}"workspaces": \{/m.test(content)
+}
+
+/**
+ * Parse JSON that may contain comments and trailing commas. Throws on
+ * anything else JSON.parse rejects.
+ */
+export function parseJsonc(content: string): any {
+  return JSON.parse(stripTrailingCommas(stripComments(content)))
+}
+
+/**
+ * Parse a bun.lock file. Throws on invalid content or a document without a
+ * lockfileVersion.
+ */
+export function parseBunLockfile(content: string): Record<string, any> {
+  const document = parseJsonc(content)
+  if (document === null || typeof document !== "object" || Array.isArray(document)) {
+    throw new Error("Expected a JSON object")
+  }
+  if (document.lockfileVersion === undefined) {
+    throw new Error("Missing lockfileVersion")
+  }
+  return document
+}
+
+/**
+ * Serialize a lockfile the way bun writes it: two-space indentation, a
+ * trailing comma after every nested member, and each `packages` tuple on one
+ * line with a blank line between tuples.
+ */
+export function stringifyBunLockfile(lockfile: Record<string, any>): string {
+  const keys = Object.keys(lockfile).filter(key => lockfile[key] !== undefined)
+  const members = keys.map(
+    (key, i) => `  ${JSON.stringify(key)}: ${formatBlock(lockfile[key], 1, key)}${i < keys.length - 1 ? "," : ""}`
+  )
+  return `{\n${members.join("\n")}\n}\n`
+}
+
+/**
+ * Version of a `packages` tuple ("react@18.3.1" → "18.3.1")
+ */
+export function bunPackageVersion(entry: unknown): string | undefined {
+  const id = Array.isArray(entry) ? entry[0] : undefined
+  if (typeof id !== "string") {
+    return undefined
+  }
+  const at = id.lastIndexOf("@")
+  return at > 0 ? id.slice(at + 1) : undefined
+}
+
+/**
+ * Package name of a `packages` tuple ("@scope/pkg@1.0.0" → "@scope/pkg")
+ */
+export function bunPackageName(entry: unknown): string | undefined {
+  const id = Array.isArray(entry) ? entry[0] : undefined
+  if (typeof id !== "string") {
+    return undefined
+  }
+  const at = id.lastIndexOf("@")
+  return at > 0 ? id.slice(0, at) : undefined
+}
+
+function formatBlock(value: any, depth: number, key: string): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value)
+  }
+
+  const entries = Array.isArray(value) ? value.map(item => [undefined, item] as const) : Object.entries(value)
+  if (entries.length === 0) {
+    return Array.isArray(value) ? "[]" : "{}"
+  }
+
+  const indent = "  ".repeat(depth + 1)
+  const inline = depth === 1 && key === "packages"
+  const lines = entries.map(([itemKey, item]) => {
+    const prefix = itemKey === undefined ? "" : `${JSON.stringify(itemKey)}: `
+    return `${indent}${prefix}${inline ? formatInline(item) : formatBlock(item, depth + 1, itemKey ?? "")},`
+  })
+  const [open, close] = Array.isArray(value) ? ["[", "]"] : ["{", "}"]
+  return `${open}\n${lines.join(inline ? "\n\n" : "\n")}\n${"  ".repeat(depth)}${close}`
+}
+
+function formatInline(value: any): string {
+  if (value === null || typeof value !== "object") {
+    return JSON.stringify(value)
+  }
+  if (Array.isArray(value)) {
+    return `[${value.map(formatInline).join(", ")}]`
+  }
+  const entries = Object.entries(value)
+  if (entries.length === 0) {
+    return "{}"
+  }
+  return `{ ${entries.map(([key, item]) => `${JSON.stringify(key)}: ${formatInline(item)}`).join(", ")} }`
+}
+
+/**
+ * Remove `//` and `/* *\/` comments outside strings
+ */
+function stripComments(content: string): string {
+  let output = ""
+  let i = 0
+  while (i < content.length) {
+    const char = content[i]!
+    if (char === '"') {
+      const end = stringEnd(content, i)
+      output += content.slice(i, end)
+      i = end
+    } else if (content.startsWith("//", i)) {
+      const end = content.indexOf("\n", i)
+      i = end === -1 ? content.length : end
+    } else if (content.startsWith("/*", i)) {
+      const end = content.indexOf("*/", i + 2)
+      if (end === -1) {
+        throw new Error("Unterminated comment")
+      }
+      i = end + 2
+    } else {
+      output += char
+      i++
+    }
+  }
+  return output
+}
+
+/**
+ * Remove commas that directly precede a closing bracket, outside strings
+ */
+function stripTrailingCommas(content: string): string {
+  let output = ""
+  let i = 0
+  while (i < content.length) {
+    const char = content[i]!
+    if (char === '"') {
+      const end = stringEnd(content, i)
+      output += content.slice(i, end)
+      i = end
+      continue
+    }
+    if (char === ",") {
+      let next = i + 1
+      while (/\s/.test(content[next] ?? "")) next++
+      if (content[next] === "}" || content[next] === "]") {
+        i++
+        continue
+      }
+    }
+    output += char
+    i++
+  }
+  return output
+}
+
+/** Index just past the JSON string starting at `start` */
+function stringEnd(content: string, start: number): number {
+  let i = start + 1
+  while (i < content.length) {
+    if (content[i] === "\\") {
+      i += 2
+    } else if (content[i] === '"') {
+      return i + 1
+    } else {
+      i++
+    }
+  }
+  return content.length
+}
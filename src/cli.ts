@@ -6,16 +6,52 @@
 
 import {Command} from "commander"
 import {spawn} from "node:child_process"
-import {readFileSync} from "node:fs"
-import {basename, dirname, join, resolve} from "node:path"
+import {readFileSync, writeFileSync} from "node:fs"
+import {basename, dirname, join, relative, resolve, sep} from "node:path"
 import {readFile, access} from "fs/promises"
 import {ConflictParser} from "./conflict-parser.js"
 import {PackageResolver} from "./package-resolver.js"
 import {LOCKFILES, findLockfiles} from "./package-manager.js"
-import {RESOLUTION_STRATEGIES, CliOptions} from "./types.js"
+import {loadConfig} from "./config.js"
+import {reviewConflictsInteractively} from "./interactive.js"
+import {VersionResolver} from "./version-resolver.js"
+import {formatUnsatisfiedEdge} from "./lockfile-graph.js"
+import {syncLockfileRoot} from "./lockfile-sync.js"
+import {detectYarnLockfileFormat} from "./yarn-lockfile.js"
+import {isPnpmLockfile} from "./pnpm-lockfile.js"
+import {isBunLockfile} from "./bun-lockfile.js"
+import {findWorkspacePackages, PNPM_WORKSPACE_FILE, readWorkspacePatterns} from "./workspaces.js"
+import {
+  detectGitOperation,
+  findRepositoryRoot,
+  GitOperation,
+  isResolvablePath,
+  listUnmergedPaths,
+  readFileAtMergeBase,
+  readIndexStages,
+  stagePaths,
+  strategyForAlias,
+} from "./git.js"
+import {createFileReport, formatMarkdownSummary, formatReport, ResolutionReport, TOOL_NAME} from "./report.js"
+import {
+  RESOLUTION_STRATEGIES,
+  REPORT_FORMATS,
+  STRATEGY_ALIASES,
+  CliOptions,
+  PackageJson,
+  ReportFormat,
+  ResolutionResult,
+  StrategyAlias,
+} from "./types.js"
 
 const IS_WINDOWS = process.platform === "win32"
 
+/** Strategies accepted by --strategy: the resolution strategies plus the role-based aliases */
+const STRATEGY_NAMES = [...Object.keys(RESOLUTION_STRATEGIES), ...Object.keys(STRATEGY_ALIASES)]
+
+/** Files resolved in this run, written to the --report file on exit */
+const reportedFiles: {file: string; diskPath: string; result: ResolutionResult}[] = []
+
 /**
  * Read the tool version from its own package.json (single source of truth)
  */
@@ -56,19 +92,45 @@ async function main() {
     .name("package-conflicts-resolver")
     .description("Automatically resolve conflicts in package.json and package-lock.json files")
     .version(getToolVersion())
+    // Options after a subcommand name belong to the subcommand (e.g. merge-driver --strategy)
+    .enablePositionalOptions()
 
   program
     .argument("[file]", "Path to package.json file", "package.json")
-    .option(
-      "-s, --strategy <strategy>",
-      `Resolution strategy: ${Object.keys(RESOLUTION_STRATEGIES).join(", ")}`,
-      "highest"
-    )
+    .option("-s, --strategy <strategy>", `Resolution strategy: ${STRATEGY_NAMES.join(", ")}`, "highest")
     .option("-d, --dry-run", "Show what would be done without making changes", false)
     .option("-q, --quiet", "Suppress output except errors", false)
     .option("-j, --json", "Output in JSON format", false)
     .option("-v, --verbose", "Enable verbose logging", false)
     .option("--no-regenerate-lock", "Skip package-lock.json regeneration")
+    .option("-c, --config <path>", "Path to a config file with per-package strategy rules")
+    .option("-i, --interactive", "Review each resolved conflict in the terminal before writing", false)
+    .option(
+      "--fail-on-uncertain",
+      "Leave the file conflicted instead of guessing (coerced or fallback resolutions)",
+      false
+    )
+    .option("--lock-graph", "Validate merged package-lock.json dependencies and prune orphaned entries", false)
+    .option("--strict", "Leave a merged package.json that fails validation conflicted and exit non-zero", false)
+    .option(
+      "--sync-lock",
+      "Update the package-lock.json root entry from package.json offline instead of running npm",
+      false
+    )
+    .option(
+      "-w, --workspaces",
+      "Resolve the root package.json and every workspace package.json, then the root lockfile once",
+      false
+    )
+    .option("-u, --unmerged", "Resolve every package.json and lockfile Git reports as unmerged", false)
+    .option("--stage", "With --unmerged, git add the files that were resolved cleanly", false)
+    .option(
+      "--merge-base <ref>",
+      "Branch being merged: use the file at git merge-base HEAD <ref> as the base for markers without one"
+    )
+    .option("--report <path>", "Write a report of every resolved conflict to this file")
+    .option("--report-format <format>", `Report format: ${REPORT_FORMATS.join(", ")}`, "json")
+    .option("--summary-markdown <path>", "Write a Markdown summary of the resolved conflicts, e.g. for a PR comment")
     .action(async (file: string, options: any) => {
       const cliOptions: CliOptions = {
         strategy: options.strategy,
@@ -78,17 +140,66 @@ async function main() {
         verbose: options.verbose,
         regenerateLock: options.regenerateLock,
         file,
+        interactive: options.interactive,
+        failOnUncertain: options.failOnUncertain,
+        lockGraph: options.lockGraph,
+        strict: options.strict,
+        syncLock: options.syncLock,
+        workspaces: options.workspaces,
+        unmerged: options.unmerged,
+        stage: options.stage,
+        mergeBase: options.mergeBase,
+        report: options.report,
+        reportFormat: options.reportFormat,
+        summaryMarkdown: options.summaryMarkdown,
       }
 
       // Validate strategy
-      if (!Object.keys(RESOLUTION_STRATEGIES).includes(cliOptions.strategy)) {
+      if (!STRATEGY_NAMES.includes(cliOptions.strategy)) {
         console.error(`❌ Invalid strategy: ${cliOptions.strategy}`)
-        console.error(`Available strategies: ${Object.keys(RESOLUTION_STRATEGIES).join(", ")}`)
+        console.error(`Available strategies: ${STRATEGY_NAMES.join(", ")}`)
+        process.exit(1)
+      }
+
+      if (cliOptions.workspaces && cliOptions.unmerged) {
+        console.error("❌ --workspaces and --unmerged cannot be combined")
         process.exit(1)
       }
 
+      if (cliOptions.stage && !cliOptions.unmerged) {
+        console.error("❌ --stage requires --unmerged")
+        process.exit(1)
+      }
+
+      if (!REPORT_FORMATS.includes(options.reportFormat)) {
+        console.error(`❌ Invalid report format: ${options.reportFormat}`)
+        console.error(`Available formats: ${REPORT_FORMATS.join(", ")}`)
+        process.exit(1)
+      }
+
+      if (cliOptions.interactive && !process.stdin.isTTY) {
+        console.error("❌ --interactive requires a terminal (stdin is not a TTY)")
+        process.exit(1)
+      }
+
+      if (cliOptions.report) {
+        const format: ReportFormat = options.reportFormat
+        writeReportOnExit(cliOptions.report, report => formatReport(report, format), false)
+      }
+      if (cliOptions.summaryMarkdown) {
+        writeReportOnExit(cliOptions.summaryMarkdown, formatMarkdownSummary, false)
+      }
+
       try {
-        await resolvePackageConflicts(cliOptions)
+        await applyStrategyAlias(cliOptions, dirname(resolve(file)))
+        cliOptions.config = await loadConfig(dirname(resolve(file)), options.config)
+        if (cliOptions.workspaces) {
+          await resolveWorkspaceConflicts(cliOptions)
+        } else if (cliOptions.unmerged) {
+          await resolveUnmergedConflicts(cliOptions)
+        } else {
+          await resolvePackageConflicts(cliOptions)
+        }
       } catch (error) {
         console.error(`❌ Failed to resolve conflicts: ${error instanceof Error ? error.message : String(error)}`)
         process.exit(1)
@@ -103,11 +214,27 @@ async function main() {
     .argument("<base>", "Base version file path")
     .argument("<other>", "Other version file path")
     .option("-s, --strategy <strategy>", "Resolution strategy", "highest")
+    .option("-c, --config <path>", "Path to a config file with per-package strategy rules")
+    .option(
+      "--fail-on-uncertain",
+      "Leave the file conflicted instead of guessing (coerced or fallback resolutions)",
+      false
+    )
+    .option("--lock-graph", "Validate merged package-lock.json dependencies and prune orphaned entries", false)
+    .option("--strict", "Leave a merged package.json that fails validation conflicted and exit non-zero", false)
+    .option("--report <path>", "Add the resolved conflicts of this file to a report (kept across files of a merge)")
+    .option("--report-format <format>", `Report format: ${REPORT_FORMATS.join(", ")}`, "json")
+    .option("--path <path>", "Path of the merged file shown in the report (Git's %P)")
     .action(async (current: string, base: string, other: string, options: any) => {
+      if (options.report) {
+        const format: ReportFormat = REPORT_FORMATS.includes(options.reportFormat) ? options.reportFormat : "json"
+        writeReportOnExit(options.report, (report, previous) => formatReport(report, format, previous), true)
+      }
+
       try {
         // Fall back to the default strategy on invalid input: a merge driver
         // should never hard-fail because of a bad flag
-        const strategy = Object.keys(RESOLUTION_STRATEGIES).includes(options.strategy) ? options.strategy : "highest"
+        const strategy = STRATEGY_NAMES.includes(options.strategy) ? options.strategy : "highest"
 
         const [currentContent, baseContent, otherContent] = await Promise.all([
           readFile(current, "utf8"),
@@ -123,14 +250,46 @@ async function main() {
           verbose: false,
           regenerateLock: true,
           file: current,
+          // Git runs merge drivers from the repository root
+          config: await loadConfig(process.cwd(), options.config),
+          failOnUncertain: options.failOnUncertain,
+          lockGraph: options.lockGraph,
+          strict: options.strict,
         }
 
+        await applyStrategyAlias(cliOptions, process.cwd())
+
         const resolver = new PackageResolver(cliOptions)
-        const result = await resolver.mergeJsonContents(baseContent, currentContent, otherContent)
+        let result
+        if (detectYarnLockfileFormat(currentContent) !== undefined) {
+          result = await resolver.mergeYarnLockContents(baseContent, currentContent, otherContent)
+        } else if (isBunLockfile(currentContent)) {
+          result = await resolver.mergeBunLockContents(baseContent, currentContent, otherContent)
+        } else if (isPnpmLockfile(currentContent)) {
+          // package.json may still be mid-merge: specifiers are left as merged
+          result = await resolver.mergePnpmLockContents(baseContent, currentContent, otherContent)
+        } else {
+          result = await resolver.mergeJsonContents(baseContent, currentContent, otherContent)
+        }
+        recordReport(options, current, result, options.path)
 
-        if (result.resolved && result.packageJson) {
-          // Preserve the current file's indentation and line endings
-          await resolver.writeResolvedPackage(result.packageJson, current, currentContent)
+        if (result.resolved && (result.packageJson || result.content !== undefined)) {
+          if (result.content !== undefined) {
+            await resolver.writeResolvedContent(result.content, current)
+          } else {
+            // Preserve the current file's indentation and line endings
+            await resolver.writeResolvedPackage(result.packageJson!, current, currentContent)
+          }
+          // Git shows merge driver stderr: flag the resolutions that were guesses
+          for (const conflict of result.conflicts) {
+            if (VersionResolver.isUncertain(conflict.confidence)) {
+              console.error(
+                `package-conflicts-resolver: uncertain resolution for ${conflict.field} (${conflict.confidence}): ` +
+                  `kept ${conflict.resolvedValue} from ${conflict.ourValue} vs ${conflict.theirValue}` +
+                  (conflict.reason ? ` (${conflict.reason})` : "")
+              )
+            }
+          }
           process.exit(0) // Success
         } else {
           // Non-zero exit tells Git the file is still conflicted
@@ -193,6 +352,130 @@ async function main() {
   await program.parseAsync()
 }
 
+/**
+ * Replace a role-based strategy (current/incoming) with the Git side it means
+ * for the operation in progress, and point out that ours/theirs are swapped
+ * while rebasing
+ */
+async function applyStrategyAlias(options: CliOptions, cwd: string): Promise<void> {
+  const requested = options.strategy as string
+  const isAlias = requested in STRATEGY_ALIASES
+  if (!isAlias && requested !== "ours" && requested !== "theirs") {
+    return
+  }
+
+  let operation: GitOperation | undefined
+  try {
+    operation = await detectGitOperation(cwd)
+  } catch {
+    operation = undefined // git is not installed
+  }
+
+  const announce = !options.quiet && !options.json
+  if (isAlias) {
+    options.strategy = strategyForAlias(requested as StrategyAlias, operation)
+    if (announce) {
+      console.log(`ℹ --strategy ${requested} uses "${options.strategy}" (${operation ?? "no merge"} in progress)`)
+    }
+  } else if (operation === "rebase" && announce) {
+    console.log(
+      `ℹ Rebase in progress: "ours" is the upstream branch and "theirs" is your commit being replayed (--strategy current/incoming pick by role)`
+    )
+  }
+}
+
+/**
+ * Remember a resolution for the --report and --summary-markdown files. `file`
+ * is the path shown in the report, relative to the working directory by
+ * default.
+ */
+function recordReport(
+  options: {report?: string; summaryMarkdown?: string},
+  diskPath: string,
+  result: ResolutionResult,
+  file?: string
+): void {
+  if (options.report || options.summaryMarkdown) {
+    reportedFiles.push({
+      file: file ?? relative(process.cwd(), resolve(diskPath)).split(sep).join("/"),
+      diskPath,
+      result,
+    })
+  }
+}
+
+/**
+ * Write a report when the process exits, so runs that stop early still leave
+ * one. With `append` (the merge driver, which Git runs once per file), the
+ * current report content is passed to `render` so other files are kept.
+ */
+function writeReportOnExit(
+  reportPath: string,
+  render: (report: ResolutionReport, previous?: string) => string,
+  append: boolean
+): void {
+  process.once("exit", () => {
+    const files = reportedFiles.map(({file, diskPath, result}) => {
+      let content: string | undefined
+      try {
+        content = readFileSync(diskPath, "utf8")
+      } catch {
+        content = undefined
+      }
+      return createFileReport(file, result, content)
+    })
+
+    let previous: string | undefined
+    if (append) {
+      try {
+        previous = readFileSync(reportPath, "utf8")
+      } catch {
+        previous = undefined // First file of the merge
+      }
+    }
+
+    try {
+      const report = {tool: {name: TOOL_NAME, version: getToolVersion()}, files}
+      writeFileSync(reportPath, render(report, previous), "utf8")
+    } catch (error) {
+      console.error(
+        `❌ Could not write report ${reportPath}: ${error instanceof Error ? error.message : String(error)}`
+      )
+    }
+  })
+}
+
+/**
+ * Strip a UTF-8 byte order mark
+ */
+function stripBom(content: string): string {
+  return content.charCodeAt(0) === 0xfeff ? content.slice(1) : content
+}
+
+/**
+ * Common ancestor of a conflicted file, so files written with plain "merge"
+ * style markers still get a three-way merge: the file at
+ * `git merge-base HEAD <ref>` with `--merge-base <ref>`, otherwise Git's index
+ * stage 1. Empty when both branches added the file; undefined when the markers
+ * already carry diff3 base sections or no base is available.
+ */
+async function readMergeBase(filePath: string, content: string, options: CliOptions): Promise<string | undefined> {
+  if (ConflictParser.hasBaseSections(content)) {
+    return undefined
+  }
+
+  if (options.mergeBase) {
+    return readFileAtMergeBase(resolve(filePath), options.mergeBase)
+  }
+
+  try {
+    const stages = await readIndexStages(resolve(filePath))
+    return stages ? (stages.base ?? "") : undefined
+  } catch {
+    return undefined // Not a repository, or git is not installed
+  }
+}
+
 /**
  * Main conflict resolution logic
  */
@@ -211,6 +494,7 @@ async function resolvePackageConflicts(options: CliOptions): Promise<void> {
   const content = await readFile(filePath, "utf8")
   const targetHasConflicts = ConflictParser.hasConflicts(content)
   let resolvedTarget = false
+  let mergedPackageJson: PackageJson | undefined
 
   if (targetHasConflicts) {
     if (!options.quiet && !options.json) {
@@ -219,7 +503,8 @@ async function resolvePackageConflicts(options: CliOptions): Promise<void> {
 
     // Create resolver and resolve conflicts
     const resolver = new PackageResolver(options)
-    const result = await resolver.resolveConflicts(content)
+    const result = await resolver.resolveConflicts(content, await readMergeBase(filePath, content, options))
+    recordReport(options, filePath, result)
 
     if (!result.resolved) {
       console.error(`❌ Failed to resolve conflicts: ${result.errors.join(", ")}`)
@@ -227,9 +512,14 @@ async function resolvePackageConflicts(options: CliOptions): Promise<void> {
     }
 
     if (result.packageJson) {
+      if (options.interactive && result.conflicts.length > 0) {
+        await reviewConflictsInteractively(result.packageJson, result.conflicts)
+      }
+
       // Write resolved package.json (preserving original indentation/line endings)
       await resolver.writeResolvedPackage(result.packageJson, filePath, content)
       resolvedTarget = true
+      mergedPackageJson = result.packageJson
     }
   }
 
@@ -264,6 +554,15 @@ async function resolvePackageConflicts(options: CliOptions): Promise<void> {
     return
   }
 
+  // Offline alternative to regeneration for npm lockfiles
+  if (
+    options.syncLock &&
+    basename(resolve(filePath)) === "package.json" &&
+    (resolvedTarget || lockStatus.resolved > 0)
+  ) {
+    await syncCompanionLockfiles(filePath, mergedPackageJson ?? JSON.parse(stripBom(content)), options, lockStatus)
+  }
+
   // Regenerate lockfiles so they are consistent with the merged package.json
   if (
     (resolvedTarget || lockStatus.resolved > 0 || lockStatus.failed > 0) &&
@@ -276,6 +575,246 @@ async function resolvePackageConflicts(options: CliOptions): Promise<void> {
   process.exit(lockStatus.failed > 0 ? 1 : 0)
 }
 
+/** Outcome of one package.json in workspaces and unmerged modes */
+interface PackageFileResult {
+  /** Path relative to the repository root */
+  file: string
+  /** Absolute path */
+  path: string
+  resolved: boolean
+  conflicts: number
+  errors: string[]
+}
+
+/**
+ * Workspaces mode: resolve the root package.json and every conflicted
+ * workspace package.json, then the lockfiles next to the root package.json
+ * once, and print one summary for the whole repository.
+ */
+async function resolveWorkspaceConflicts(options: CliOptions): Promise<void> {
+  const rootPath = resolve(options.file || "package.json")
+  const rootDir = dirname(rootPath)
+
+  try {
+    await access(rootPath)
+  } catch {
+    console.error(`❌ File not found: ${rootPath}`)
+    process.exit(1)
+  }
+
+  const patterns = await readWorkspacePatterns(rootDir)
+  if (patterns.length === 0) {
+    console.error(`❌ No workspaces declared in ${rootPath} or ${PNPM_WORKSPACE_FILE}`)
+    process.exit(1)
+  }
+
+  const packageJsonPaths = [
+    rootPath,
+    ...(await findWorkspacePackages(rootDir, patterns)).map(directory => join(rootDir, directory, "package.json")),
+  ]
+  const results = await resolvePackageJsonFiles(packageJsonPaths, rootDir, options)
+
+  // Workspace package.json files are merged first: the pnpm lockfile merge reads them
+  const lockStatus = await resolveCompanionLockfiles(rootPath, options)
+  const failedFiles = results.filter(result => !result.resolved)
+
+  if (results.length === 0 && lockStatus.resolved === 0 && lockStatus.failed === 0) {
+    if (!options.quiet && !options.json) {
+      console.log(`✅ No Git conflict markers found in ${packageJsonPaths.length} package.json files`)
+    }
+    process.exit(0)
+    return
+  }
+
+  printRunSummary("Workspace summary", `${packageJsonPaths.length} in the workspace`, results, lockStatus, options)
+
+  const changed = results.some(result => result.resolved) || lockStatus.resolved > 0
+  if (options.syncLock && changed && failedFiles.length === 0) {
+    const rootPackageJson = JSON.parse(stripBom(await readFile(rootPath, "utf8")))
+    await syncCompanionLockfiles(rootPath, rootPackageJson, options, lockStatus)
+  }
+
+  // A package.json that is still conflicted would make the package manager fail
+  if ((changed || lockStatus.failed > 0) && failedFiles.length === 0 && options.regenerateLock && !options.dryRun) {
+    await regenerateLockfiles(rootDir, options.quiet, lockStatus.regenerated)
+  }
+
+  process.exit(failedFiles.length > 0 || lockStatus.failed > 0 ? 1 : 0)
+}
+
+/**
+ * Unmerged mode: resolve every package.json and lockfile Git reports as
+ * unmerged, package.json files first, and with `stage` run `git add` on the
+ * ones that are clean again.
+ */
+async function resolveUnmergedConflicts(options: CliOptions): Promise<void> {
+  const root = await findRepositoryRoot(process.cwd())
+  const unmerged = await listUnmergedPaths(root)
+  const targets = unmerged.filter(isResolvablePath)
+
+  if (targets.length === 0) {
+    if (!options.quiet && !options.json) {
+      console.log(`✅ Git reports no unmerged package.json or lockfiles (${unmerged.length} unmerged files)`)
+    }
+    process.exit(0)
+    return
+  }
+
+  const manifests = targets.filter(path => basename(path) === "package.json")
+  const results = await resolvePackageJsonFiles(manifests, root, options)
+
+  // Lockfiles are handled once per directory, after every package.json
+  const lockStatus: LockResolutionStatus = {resolved: 0, failed: 0, regenerated: new Set()}
+  const directoryStatus = new Map<string, LockResolutionStatus>()
+  for (const directory of new Set(targets.filter(path => !manifests.includes(path)).map(dirname))) {
+    const status = await resolveCompanionLockfiles(join(directory, "package.json"), options)
+    directoryStatus.set(directory, status)
+    lockStatus.resolved += status.resolved
+    lockStatus.failed += status.failed
+  }
+
+  printRunSummary("Unmerged files summary", `${targets.length} unmerged`, results, lockStatus, options)
+
+  const failedFiles = results.filter(result => !result.resolved)
+  if (failedFiles.length === 0 && lockStatus.failed === 0 && options.regenerateLock && !options.dryRun) {
+    const resolvedManifests = results.filter(result => result.resolved).map(result => result.path)
+    for (const directory of new Set([...resolvedManifests.map(dirname), ...directoryStatus.keys()])) {
+      await regenerateLockfiles(directory, options.quiet, directoryStatus.get(directory)?.regenerated ?? new Set())
+    }
+  }
+
+  if (options.stage && !options.dryRun) {
+    const clean: string[] = []
+    for (const target of targets) {
+      if (await isCleanlyMerged(target)) clean.push(target)
+    }
+    await stagePaths(root, clean)
+    if (!options.quiet && !options.json && clean.length > 0) {
+      console.log(`✅ Staged ${clean.length} resolved files`)
+    }
+  }
+
+  const remaining = unmerged.length - targets.length
+  if (remaining > 0 && !options.quiet && !options.json) {
+    console.log(`ℹ ${remaining} other unmerged files need to be resolved by hand`)
+  }
+
+  process.exit(failedFiles.length > 0 || lockStatus.failed > 0 ? 1 : 0)
+}
+
+/**
+ * Resolve the conflicted files among the given package.json paths. Paths in
+ * the results are relative to `rootDir`.
+ */
+async function resolvePackageJsonFiles(
+  packageJsonPaths: string[],
+  rootDir: string,
+  options: CliOptions
+): Promise<PackageFileResult[]> {
+  const results: PackageFileResult[] = []
+
+  for (const packageJsonPath of packageJsonPaths) {
+    const content = await readFile(packageJsonPath, "utf8")
+    if (!ConflictParser.hasConflicts(content)) continue
+
+    const file = relative(rootDir, packageJsonPath).split(sep).join("/")
+    if (!options.quiet && !options.json) {
+      console.log(`🔧 Found Git conflict markers in ${file}, resolving...`)
+    }
+
+    const resolver = new PackageResolver({...options, file: packageJsonPath})
+    const result = await resolver.resolveConflicts(content, await readMergeBase(packageJsonPath, content, options))
+    recordReport(options, packageJsonPath, result)
+    if (result.resolved && result.packageJson) {
+      if (options.interactive && result.conflicts.length > 0) {
+        await reviewConflictsInteractively(result.packageJson, result.conflicts)
+      }
+      await resolver.writeResolvedPackage(result.packageJson, packageJsonPath, content)
+    }
+    results.push({
+      file,
+      path: resolve(packageJsonPath),
+      resolved: result.resolved,
+      conflicts: result.conflicts.length,
+      errors: result.errors,
+    })
+  }
+
+  return results
+}
+
+/**
+ * Whether a resolved file can be staged: no conflict markers left, and JSON
+ * files parse
+ */
+async function isCleanlyMerged(filePath: string): Promise<boolean> {
+  let content: string
+  try {
+    content = await readFile(filePath, "utf8")
+  } catch {
+    return false
+  }
+  if (ConflictParser.hasConflicts(content)) {
+    return false
+  }
+
+  const name = basename(filePath)
+  if (name === "package.json" || LOCKFILES.some(lockfile => lockfile.name === name && lockfile.jsonMergeable)) {
+    try {
+      JSON.parse(stripBom(content))
+    } catch {
+      return false
+    }
+  }
+  return true
+}
+
+/**
+ * Print the aggregated result of a workspaces or unmerged run
+ */
+function printRunSummary(
+  title: string,
+  scope: string,
+  results: PackageFileResult[],
+  lockStatus: LockResolutionStatus,
+  options: CliOptions
+): void {
+  if (options.quiet) return
+
+  const conflicts = results.reduce((sum, result) => sum + (result.resolved ? result.conflicts : 0), 0)
+  const resolvedFiles = results.filter(result => result.resolved).length
+  const verb = options.dryRun ? "Would resolve" : "Resolved"
+  const message = `${verb} ${conflicts} conflicts in ${resolvedFiles}/${results.length} conflicted package.json files (${scope})`
+
+  if (options.json) {
+    console.log(
+      JSON.stringify({
+        level: "info",
+        message,
+        data: {
+          packages: results.map(({path: _path, ...result}) => result),
+          lockfiles: {resolved: lockStatus.resolved, failed: lockStatus.failed},
+          dryRun: options.dryRun,
+        },
+        timestamp: new Date().toISOString(),
+      })
+    )
+    return
+  }
+
+  console.log(`\n📊 ${title}: ${message}`)
+  for (const result of results) {
+    console.log(
+      result.resolved
+        ? `   ✅ ${result.file} (${result.conflicts} conflicts)`
+        : `   ❌ ${result.file}: ${result.errors.join(", ")}`
+    )
+  }
+  if (lockStatus.resolved > 0 || lockStatus.failed > 0) {
+    console.log(`   🔒 Lockfiles: ${lockStatus.resolved} resolved, ${lockStatus.failed} failed`)
+  }
+}
+
 interface LockResolutionStatus {
   resolved: number
   failed: number
@@ -285,9 +824,9 @@ interface LockResolutionStatus {
 
 /**
  * Resolve conflicts in lockfiles that live next to the given package.json.
- * JSON lockfiles (npm) are merged semantically; other package managers'
- * lockfiles are delegated to the manager itself, which resolves conflicted
- * lockfiles automatically.
+ * JSON lockfiles (npm) are merged semantically, yarn, pnpm and bun lockfiles
+ * entry by entry; other lockfiles are delegated to the package manager,
+ * which resolves conflicted lockfiles automatically.
  */
 async function resolveCompanionLockfiles(packageJsonPath: string, options: CliOptions): Promise<LockResolutionStatus> {
   const dir = dirname(resolve(packageJsonPath))
@@ -311,10 +850,18 @@ async function resolveCompanionLockfiles(packageJsonPath: string, options: CliOp
       console.log(`🔧 Found Git conflict markers in ${lockfile.name}, resolving...`)
     }
 
-    // npm lockfiles are JSON: merge them semantically
+    // npm lockfiles are JSON: merge them semantically. Lockfiles are not
+    // reviewed interactively, so --fail-on-uncertain applies to them as is.
     if (lockfile.jsonMergeable) {
-      const resolver = new PackageResolver({...options, file: lockPath})
-      const result = await resolver.resolveConflicts(lockContent)
+      const resolver = new PackageResolver({...options, file: lockPath, interactive: false})
+      // --sync-lock rewrites the root entry from package.json afterwards: nothing to compare yet
+      const manifest = options.lockGraph && !options.syncLock ? await readImporterManifest(dir, ".") : undefined
+      const result = await resolver.resolveConflicts(
+        lockContent,
+        await readMergeBase(lockPath, lockContent, options),
+        manifest
+      )
+      recordReport(options, lockPath, result)
 
       if (result.resolved && result.packageJson) {
         await resolver.writeResolvedPackage(result.packageJson, lockPath, lockContent)
@@ -327,7 +874,42 @@ async function resolveCompanionLockfiles(packageJsonPath: string, options: CliOp
       continue
     }
 
-    // yarn/pnpm/bun lockfiles: delegate to the package manager
+    // yarn (classic and Berry), pnpm and bun lockfiles: merge them entry by entry
+    if (
+      lockfile.nativeMerge &&
+      (lockfile.packageManager !== "yarn" || detectYarnLockfileFormat(lockContent) !== undefined)
+    ) {
+      const resolver = new PackageResolver({...options, file: lockPath, interactive: false})
+      let result
+      if (lockfile.packageManager === "pnpm") {
+        result = await resolver.resolvePnpmLockConflicts(lockContent, importerId =>
+          readImporterManifest(dir, importerId)
+        )
+      } else if (lockfile.packageManager === "bun") {
+        result = await resolver.resolveBunLockConflicts(lockContent)
+      } else {
+        result = await resolver.resolveYarnLockConflicts(lockContent)
+      }
+      recordReport(options, lockPath, result)
+
+      if (result.resolved && result.content !== undefined) {
+        await resolver.writeResolvedContent(result.content, lockPath)
+        status.resolved++
+        continue
+      }
+
+      console.error(`❌ Could not auto-resolve ${lockfile.name}: ${result.errors.join(", ")}`)
+      if (!lockfile.safeRegenCommand || !options.regenerateLock || options.dryRun) {
+        status.failed++
+        console.error(
+          `   Run "${lockfile.manualCommand}" — ${lockfile.packageManager} resolves conflicted lockfiles automatically.`
+        )
+        continue
+      }
+      // Let the package manager resolve what could not be merged
+    }
+
+    // Other lockfiles: delegate to the package manager
     if (options.dryRun) {
       if (!options.quiet && !options.json) {
         console.log(`ℹ Would resolve ${lockfile.name} by running "${lockfile.manualCommand}"`)
@@ -360,6 +942,75 @@ async function resolveCompanionLockfiles(packageJsonPath: string, options: CliOp
   return status
 }
 
+/**
+ * Read the package.json of a pnpm importer, or undefined when it is missing
+ * or still conflicted
+ */
+async function readImporterManifest(dir: string, importerId: string): Promise<PackageJson | undefined> {
+  try {
+    return JSON.parse(stripBom(await readFile(join(dir, importerId, "package.json"), "utf8")))
+  } catch {
+    return undefined
+  }
+}
+
+/**
+ * Rewrite the root entry of npm lockfiles next to package.json so it mirrors
+ * the merged package.json, without touching the network. npm regeneration is
+ * skipped afterwards; entries that no longer satisfy the new ranges are
+ * reported instead.
+ */
+async function syncCompanionLockfiles(
+  packageJsonPath: string,
+  packageJson: PackageJson,
+  options: CliOptions,
+  status: LockResolutionStatus
+): Promise<void> {
+  const dir = dirname(resolve(packageJsonPath))
+
+  for (const lockfile of LOCKFILES) {
+    if (lockfile.packageManager !== "npm") continue
+    const lockPath = join(dir, lockfile.name)
+
+    let lockContent: string
+    try {
+      lockContent = await readFile(lockPath, "utf8")
+    } catch {
+      continue // Lockfile doesn't exist
+    }
+
+    // A lockfile that could not be merged was already reported
+    if (ConflictParser.hasConflicts(lockContent)) continue
+
+    let lock: PackageJson
+    try {
+      lock = JSON.parse(stripBom(lockContent))
+    } catch (error) {
+      console.error(`❌ Could not sync ${lockfile.name}: ${error instanceof Error ? error.message : String(error)}`)
+      status.failed++
+      continue
+    }
+
+    const report = syncLockfileRoot(lock, packageJson)
+    if (report.changed.length > 0) {
+      const resolver = new PackageResolver({...options, file: lockPath})
+      await resolver.writeResolvedPackage(lock, lockPath, lockContent)
+      if (!options.quiet && !options.json) {
+        console.log(`✅ Synced the root entry of ${lockfile.name} (${report.changed.join(", ")})`)
+      }
+    }
+
+    if (report.unsatisfied.length > 0 && !options.quiet) {
+      for (const edge of report.unsatisfied) {
+        console.warn(`⚠️  ${lockfile.name}: ${formatUnsatisfiedEdge(edge)}`)
+      }
+      console.warn(`   Run "${lockfile.manualCommand}" once the registry is reachable to update these entries.`)
+    }
+
+    status.regenerated.add(lockfile.packageManager)
+  }
+}
+
 /**
  * Regenerate existing lockfiles with their own package manager so they stay
  * consistent with the merged package.json. Never creates a lockfile for a
@@ -388,6 +1039,11 @@ async function regenerateLockfiles(dir: string, quiet: boolean, alreadyRegenerat
         console.warn(`⚠️ Failed to regenerate ${lockfile.name}`)
         console.log(`ℹ You may need to run "${lockfile.manualCommand}" manually`)
       }
+    } else if (!quiet && lockfile.binary) {
+      console.log(
+        `ℹ ${lockfile.name} is binary and cannot be merged: run "${lockfile.manualCommand}" to regenerate it after this merge, ` +
+          `or switch to the text bun.lock ("bun install --save-text-lockfile") to have it merged automatically.`
+      )
     } else if (!quiet) {
       console.log(`ℹ Run "${lockfile.manualCommand}" to update ${lockfile.name} after this merge.`)
     }
@@ -406,7 +1062,7 @@ async function setupGitIntegration(global: boolean, skipGitattributes: boolean =
       "config",
       scope,
       "merge.package-conflicts-resolver.driver",
-      "npx package-conflicts-resolver merge-driver %A %O %B",
+      "npx package-conflicts-resolver merge-driver %A %O %B --path %P",
     ])
 
     await new Promise<void>((resolve, reject) => {
@@ -0,0 +1,233 @@
+/**
+ * Project configuration: per-package and per-field strategy overrides.
+ *
+ * Rules are read from a `.package-conflicts-resolver.json` file or from the
+ * `"packageConflictsResolver"` key of package.json, e.g.
+ *
+ *   {
+ *     "packages": {
+ *       "@types/*": "theirs",
+ *       "react*": {"strategy": "pin", "version": "^18.2.0"}
+ *     },
+ *     "fields": {
+ *       "scripts.*": "theirs",
+ *       "overrides.**": "ours"
+ *     }
+ *   }
+ */
+
+import {access, readFile} from "fs/promises"
+import {dirname, join, resolve} from "node:path"
+import {ConflictParser} from "./conflict-parser.js"
+import {PackageRuleStrategy, RESOLUTION_STRATEGIES, ResolverConfig, StrategyRule} from "./types.js"
+
+export const CONFIG_FILE_NAME = ".package-conflicts-resolver.json"
+export const PACKAGE_JSON_CONFIG_KEY = "packageConflictsResolver"
+
+const RULE_STRATEGIES: readonly PackageRuleStrategy[] = [
+  ...(Object.keys(RESOLUTION_STRATEGIES) as PackageRuleStrategy[]),
+  "pin",
+]
+
+/**
+ * Load the project configuration.
+ * An explicit path must exist; otherwise the directory and its parents are
+ * searched (up to the repository root) for a config file or package.json key.
+ * Returns undefined when no configuration is found.
+ */
+export async function loadConfig(dir: string, explicitPath?: string): Promise<ResolverConfig | undefined> {
+  if (explicitPath) {
+    const content = await readFile(explicitPath, "utf8")
+    return parseConfig(parseConfigJson(content, explicitPath), explicitPath)
+  }
+
+  let current = resolve(dir)
+  while (true) {
+    const configPath = join(current, CONFIG_FILE_NAME)
+    const configContent = await readOptionalFile(configPath)
+    if (configContent !== undefined) {
+      return parseConfig(parseConfigJson(configContent, configPath), configPath)
+    }
+
+    const packageJsonPath = join(current, "package.json")
+    const packageJsonContent = await readOptionalFile(packageJsonPath)
+    if (packageJsonContent !== undefined) {
+      const embedded = readEmbeddedConfig(packageJsonContent)
+      if (embedded !== undefined) {
+        return parseConfig(embedded, `${packageJsonPath} (${PACKAGE_JSON_CONFIG_KEY})`)
+      }
+    }
+
+    // Stop at the repository root or the filesystem root
+    const parent = dirname(current)
+    if (parent === current || (await pathExists(join(current, ".git")))) {
+      return undefined
+    }
+    current = parent
+  }
+}
+
+/**
+ * Validate raw configuration data and normalize it into ordered rules.
+ * Throws with a descriptive message when the configuration is invalid.
+ */
+export function parseConfig(raw: any, source: string): ResolverConfig {
+  if (raw === null || typeof raw !== "object" || Array.isArray(raw)) {
+    throw new Error(`Invalid configuration in ${source}: expected a JSON object`)
+  }
+
+  return {
+    packages: parseRuleMap(raw.packages, "packages", source),
+    fields: parseRuleMap(raw.fields, "fields", source),
+  }
+}
+
+/**
+ * Find the first package rule whose glob matches the package name
+ */
+export function findPackageRule(config: ResolverConfig | undefined, packageName: string): StrategyRule | undefined {
+  return config?.packages.find(rule => matchesGlob(rule.pattern, packageName))
+}
+
+/**
+ * Find the first field rule whose path glob matches the JSON path
+ */
+export function findFieldRule(config: ResolverConfig | undefined, path: string[]): StrategyRule | undefined {
+  return config?.fields.find(rule => matchesPathGlob(rule.pattern, path))
+}
+
+/**
+ * Match a glob against a slash-separated name: `*` matches within one
+ * segment (so `@types/*` does not match `@types/a/b`), `**` matches across
+ * segments.
+ */
+export function matchesGlob(pattern: string, value: string): boolean {
+  return globToRegExp(pattern, true).test(value)
+}
+
+/**
+ * Match a dot-separated path glob against a JSON path, segment by segment:
+ * `*` matches exactly one key (whatever characters it contains, so
+ * `dependencies.*` matches `@types/node` and `socket.io`), `**` matches any
+ * number of keys. Workspace directory globs use "/" as the separator.
+ */
+export function matchesPathGlob(pattern: string, path: string[], separator: string = "."): boolean {
+  const segments = pattern.split(separator)
+
+  const matchFrom = (segmentIndex: number, pathIndex: number): boolean => {
+    if (segmentIndex === segments.length) {
+      return pathIndex === path.length
+    }
+
+    const segment = segments[segmentIndex]!
+    if (segment === "**") {
+      for (let next = pathIndex; next <= path.length; next++) {
+        if (matchFrom(segmentIndex + 1, next)) return true
+      }
+      return false
+    }
+
+    const key = path[pathIndex]
+    return key !== undefined && globToRegExp(segment).test(key) && matchFrom(segmentIndex + 1, pathIndex + 1)
+  }
+
+  return matchFrom(0, 0)
+}
+
+/**
+ * Compile a glob: `*` stops at "/" for scoped names, `**` never does.
+ */
+function globToRegExp(pattern: string, stopAtSlash: boolean = false): RegExp {
+  const single = stopAtSlash ? "[^/]" : "."
+  let source = ""
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]!
+    if (char === "*" && pattern[i + 1] === "*") {
+      source += ".*"
+      i++
+    } else if (char === "*") {
+      source += `${single}*`
+    } else if (char === "?") {
+      source += single
+    } else {
+      source += char.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+    }
+  }
+
+  return new RegExp(`^${source}$`)
+}
+
+function parseRuleMap(rules: any, key: string, source: string): StrategyRule[] {
+  if (rules === undefined) {
+    return []
+  }
+
+  if (rules === null || typeof rules !== "object" || Array.isArray(rules)) {
+    throw new Error(`Invalid configuration in ${source}: "${key}" must be an object of glob → strategy`)
+  }
+
+  return Object.entries(rules).map(([pattern, value]) => parseRule(pattern, value, source))
+}
+
+function parseRule(pattern: string, value: any, source: string): StrategyRule {
+  const spec = typeof value === "string" ? {strategy: value} : value
+  if (spec === null || typeof spec !== "object" || Array.isArray(spec)) {
+    throw new Error(`Invalid rule "${pattern}" in ${source}: expected a strategy name or {"strategy": ...}`)
+  }
+
+  if (!RULE_STRATEGIES.includes(spec.strategy)) {
+    throw new Error(
+      `Invalid strategy "${spec.strategy}" for rule "${pattern}" in ${source}. Available: ${RULE_STRATEGIES.join(", ")}`
+    )
+  }
+
+  const rule: StrategyRule = {pattern, strategy: spec.strategy}
+  if (spec.strategy === "pin") {
+    if (typeof spec.version !== "string" || spec.version.trim() === "") {
+      throw new Error(`Rule "${pattern}" in ${source} uses "pin" but has no "version"`)
+    }
+    rule.version = spec.version
+  }
+
+  return rule
+}
+
+function parseConfigJson(content: string, source: string): any {
+  try {
+    return JSON.parse(content.charCodeAt(0) === 0xfeff ? content.slice(1) : content)
+  } catch (error) {
+    throw new Error(`Failed to parse ${source}: ${error instanceof Error ? error.message : String(error)}`)
+  }
+}
+
+/**
+ * Read the config key from package.json. A conflicted package.json is read
+ * from our side so the rules in effect on the current branch apply.
+ */
+function readEmbeddedConfig(content: string): any {
+  const text = ConflictParser.hasConflicts(content) ? ConflictParser.extractConflictSide(content, "ours") : content
+  try {
+    const packageJson = JSON.parse(text.charCodeAt(0) === 0xfeff ? text.slice(1) : text)
+    return packageJson?.[PACKAGE_JSON_CONFIG_KEY]
+  } catch {
+    return undefined
+  }
+}
+
+async function readOptionalFile(path: string): Promise<string | undefined> {
+  try {
+    return await readFile(path, "utf8")
+  } catch {
+    return undefined
+  }
+}
+
+async function pathExists(path: string): Promise<boolean> {
+  try {
+    await access(path)
+    return true
+  } catch {
+    return false
+  }
+}
@@ -20,10 +20,17 @@ export class ConflictParser {
     return line.endsWith("\r") ? line.slice(0, -1) : line
   }
 
+  /**
+   * Label written after a marker (`<<<<<<< HEAD` → "HEAD"), if any
+   */
+  private static markerLabel(marker: string): string | undefined {
+    return marker.slice(7).trim() || undefined
+  }
+
   /**
    * Parse Git conflict markers in a file content.
    * Supports both the default "merge" style and the "diff3"/"zdiff3" styles
-   * (which include a `|||||||` base section).
+   * (which include a `|||||||` base section). Marker labels are kept.
    */
   static parseConflicts(content: string): ConflictMarker[] {
     const lines = content.split("\n")
@@ -51,15 +58,21 @@ export class ConflictParser {
         // Start of conflict (a stray/nested start marker restarts parsing)
         reset()
         currentConflict = {start: i}
+        const label = this.markerLabel(marker)
+        if (label !== undefined) currentConflict.oursLabel = label
       } else if (this.CONFLICT_BASE.test(marker) && currentConflict && currentConflict.middle === undefined) {
         // Start of diff3-style base section
         baseMarkerSeen = true
+        const label = this.markerLabel(marker)
+        if (label !== undefined) currentConflict.baseLabel = label
       } else if (this.CONFLICT_MIDDLE.test(marker) && currentConflict) {
         // Middle of conflict
         currentConflict.middle = i
       } else if (this.CONFLICT_END.test(marker) && currentConflict && currentConflict.middle !== undefined) {
         // End of conflict
         currentConflict.end = i
+        const label = this.markerLabel(marker)
+        if (label !== undefined) currentConflict.theirsLabel = label
         currentConflict.ours = oursLines.join("\n")
         currentConflict.theirs = theirsLines.join("\n")
         if (baseMarkerSeen) {
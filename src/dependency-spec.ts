@@ -0,0 +1,165 @@
+/**
+ * Parsing of protocol dependency specs (npm aliases, workspaces, patches,
+ * git URLs and hosted git shorthands, tarballs, local paths), so the version
+ * embedded in them can be compared like a plain range when both sides point
+ * at the same target.
+ */
+
+import * as semver from "semver"
+
+export interface DependencySpec {
+  /** Protocol without the trailing colon, e.g. "npm", "workspace", "github" */
+  protocol: string
+  /** What the spec points at: the aliased package, the repository or the path ("" for workspaces) */
+  target: string
+  /** Embedded version range or git ref, when the spec carries one */
+  version?: string
+  /** Spec text before and after the version, to rebuild the spec with another version */
+  prefix: string
+  suffix: string
+}
+
+const HOSTED_GIT_PROTOCOLS = ["github", "gitlab", "bitbucket"]
+const GIT_PROTOCOLS = ["git", ...HOSTED_GIT_PROTOCOLS]
+const PATH_PROTOCOLS = ["portal", "link", "file"]
+
+/** Tarball file name carrying a version: <name>-<version>.tgz */
+const TARBALL_FILE_PATTERN = /^(.*-)(\d+\.\d+\.\d+(?:-[0-9A-Za-z.-]+)?)(\.tgz|\.tar\.gz)$/
+
+/**
+ * Parse a protocol spec. Returns undefined for plain ranges, dist-tags and
+ * anything else without a recognized protocol.
+ */
+export function parseDependencySpec(spec: string): DependencySpec | undefined {
+  const text = spec.trim()
+
+  // git+https://..., git+ssh://..., git://..., git@host:path, https://host/repo.git
+  if (/^(?:git\+|git:\/\/|git@)/.test(text) || /^https?:\/\/[^#]+\.git(?:#|$)/.test(text)) {
+    const hash = text.indexOf("#")
+    return hash === -1
+      ? {protocol: "git", target: text, prefix: text, suffix: ""}
+      : gitRefSpec("git", text.slice(0, hash), text.slice(0, hash), text.slice(hash + 1))
+  }
+
+  // https://registry/.../pkg-1.4.0.tgz and file:../pkg-1.4.0.tgz
+  const tarball = parseTarballSpec(text)
+  if (tarball) {
+    return tarball
+  }
+
+  const colon = text.indexOf(":")
+  if (colon <= 0) {
+    return undefined
+  }
+
+  const protocol = text.slice(0, colon)
+  const rest = text.slice(colon + 1)
+
+  if (protocol === "npm") {
+    // npm:<name>[@<range>], the name may be scoped
+    const match = rest.match(/^((?:@[^/@]+\/)?[^@]+)(?:@(.*))?$/)
+    if (!match) return undefined
+    const target = match[1]!
+    return match[2] === undefined
+      ? {protocol, target, prefix: text, suffix: ""}
+      : {protocol, target, version: match[2], prefix: `npm:${target}@`, suffix: ""}
+  }
+
+  if (protocol === "workspace") {
+    // workspace:^1.0.0 and workspace:* carry a range; workspace:^ and
+    // workspace:~ are publish-time shorthands with nothing to compare
+    if (rest === "^" || rest === "~") {
+      return {protocol, target: "", prefix: text, suffix: ""}
+    }
+    if (semver.validRange(rest) !== null) {
+      return {protocol, target: "", version: rest, prefix: "workspace:", suffix: ""}
+    }
+    return {protocol, target: rest, prefix: text, suffix: ""}
+  }
+
+  if (protocol === "patch") {
+    // patch:<name>@<descriptor>#<patch file>, with the descriptor URL-encoded (npm%3A1.2.3)
+    const match = rest.match(/^(.+?)@((?:npm(?::|%3A))?)([^#]+)(#.*)?$/)
+    if (!match) return undefined
+    const target = match[1]!
+    return {
+      protocol,
+      target,
+      version: decodeURIComponent(match[3]!),
+      prefix: `patch:${target}@${match[2]}`,
+      suffix: match[4] ?? "",
+    }
+  }
+
+  if (HOSTED_GIT_PROTOCOLS.includes(protocol)) {
+    // github:<owner>/<repo>[#<ref>]
+    const hash = rest.indexOf("#")
+    if (hash === -1) {
+      return {protocol, target: rest, prefix: text, suffix: ""}
+    }
+    const target = rest.slice(0, hash)
+    return gitRefSpec(protocol, target, `${protocol}:${target}`, rest.slice(hash + 1))
+  }
+
+  if (PATH_PROTOCOLS.includes(protocol)) {
+    return {protocol, target: rest, prefix: text, suffix: ""}
+  }
+
+  return undefined
+}
+
+/**
+ * Whether the spec is a git dependency pinned to a commit hash, which has no
+ * order relative to other refs
+ */
+export function isCommitRef(spec: DependencySpec): boolean {
+  return GIT_PROTOCOLS.includes(spec.protocol) && spec.version !== undefined && /^[0-9a-f]{7,40}$/i.test(spec.version)
+}
+
+/**
+ * Whether two specs point at the same thing, so their versions can be compared
+ */
+export function isSameTarget(a: DependencySpec, b: DependencySpec): boolean {
+  return a.protocol === b.protocol && a.target === b.target
+}
+
+/**
+ * Rebuild a spec around another version, e.g. for an intersected range
+ */
+export function formatDependencySpec(spec: DependencySpec, version: string): string {
+  return `${spec.prefix}${version}${spec.suffix}`
+}
+
+/**
+ * A git spec with a ref: `#semver:<range>` carries a range, any other ref
+ * (tag, branch, commit) is kept as the version as-is.
+ */
+function gitRefSpec(protocol: string, target: string, base: string, ref: string): DependencySpec {
+  if (ref.startsWith("semver:")) {
+    return {protocol, target, version: ref.slice("semver:".length), prefix: `${base}#semver:`, suffix: ""}
+  }
+  return {protocol, target, version: ref, prefix: `${base}#`, suffix: ""}
+}
+
+/**
+ * A tarball URL or path whose file name carries the version. The target is
+ * the location with the version left out, so two versions of the same
+ * tarball compare while different packages or hosts do not.
+ */
+function parseTarballSpec(text: string): DependencySpec | undefined {
+  if (!/^(?:https?|file):/.test(text)) {
+    return undefined
+  }
+
+  const query = text.search(/[?#]/)
+  const location = query === -1 ? text : text.slice(0, query)
+  const slash = location.lastIndexOf("/")
+  const match = location.slice(slash + 1).match(TARBALL_FILE_PATTERN)
+  if (!match) {
+    return undefined
+  }
+
+  const prefix = location.slice(0, slash + 1) + match[1]
+  const suffix = match[3]! + (query === -1 ? "" : text.slice(query))
+  return {protocol: "tarball", target: `${prefix}*${suffix}`, version: match[2]!, prefix, suffix}
+}
@@ -0,0 +1,212 @@
+/**
+ * Git queries used to find, read and stage conflicted files.
+ */
+
+import {access} from "fs/promises"
+import {spawn} from "node:child_process"
+import {basename, dirname, join} from "node:path"
+import {LOCKFILES} from "./package-manager.js"
+import {StrategyAlias} from "./types.js"
+
+/** Git operation that stopped with conflicts */
+export type GitOperation = "merge" | "rebase" | "cherry-pick"
+
+/**
+ * Files and directories Git keeps in its directory while each operation is
+ * in progress. REBASE_HEAD, CHERRY_PICK_HEAD and MERGE_HEAD are only written
+ * once the operation stops on a conflict, so a merge driver (which runs
+ * before that) only sees the rebase-merge/, rebase-apply/ and sequencer/
+ * state directories.
+ */
+const OPERATION_MARKERS: readonly (readonly [string, GitOperation])[] = [
+  ["REBASE_HEAD", "rebase"],
+  ["rebase-merge", "rebase"],
+  ["rebase-apply", "rebase"],
+  ["CHERRY_PICK_HEAD", "cherry-pick"],
+  ["sequencer", "cherry-pick"],
+  ["MERGE_HEAD", "merge"],
+]
+
+export interface GitResult {
+  code: number | null
+  stdout: string
+  stderr: string
+}
+
+/**
+ * Run a git command and collect its output. Rejects when git cannot be
+ * started; a non-zero exit code is returned, not thrown.
+ */
+export function runGit(args: string[], cwd: string): Promise<GitResult> {
+  return new Promise((resolvePromise, reject) => {
+    const child = spawn("git", args, {cwd, stdio: ["ignore", "pipe", "pipe"]})
+    let stdout = ""
+    let stderr = ""
+    child.stdout.setEncoding("utf8")
+    child.stderr.setEncoding("utf8")
+    child.stdout.on("data", chunk => (stdout += chunk))
+    child.stderr.on("data", chunk => (stderr += chunk))
+    child.on("error", reject)
+    child.on("close", code => resolvePromise({code, stdout, stderr}))
+  })
+}
+
+/**
+ * Absolute path of the working tree root. Throws outside a Git repository.
+ */
+export async function findRepositoryRoot(cwd: string): Promise<string> {
+  const result = await runGit(["rev-parse", "--show-toplevel"], cwd)
+  if (result.code !== 0) {
+    throw new Error(`Not inside a Git repository: ${result.stderr.trim() || cwd}`)
+  }
+  return result.stdout.trim()
+}
+
+/**
+ * The merge, rebase or cherry-pick in progress, from the state files of the
+ * Git directory. `git am` also uses rebase-apply/ but is not a rebase.
+ */
+export async function detectGitOperation(cwd: string): Promise<GitOperation | undefined> {
+  const result = await runGit(["rev-parse", "--absolute-git-dir"], cwd)
+  if (result.code !== 0) {
+    return undefined
+  }
+
+  const gitDir = result.stdout.trim()
+  const exists = async (path: string): Promise<boolean> => {
+    try {
+      await access(join(gitDir, path))
+      return true
+    } catch {
+      return false
+    }
+  }
+
+  for (const [marker, operation] of OPERATION_MARKERS) {
+    if (marker === "rebase-apply" && (await exists(join(marker, "applying")))) {
+      continue // git am
+    }
+    if (await exists(marker)) {
+      return operation
+    }
+  }
+  return undefined
+}
+
+/**
+ * Git side picked by a role-based strategy. While rebasing, "ours" is the
+ * upstream being rebuilt on and "theirs" the commit being replayed, so
+ * "current" (your work) is "theirs".
+ */
+export function strategyForAlias(alias: StrategyAlias, operation: GitOperation | undefined): "ours" | "theirs" {
+  const current = operation === "rebase" ? "theirs" : "ours"
+  const incoming = operation === "rebase" ? "ours" : "theirs"
+  return alias === "current" ? current : incoming
+}
+
+/**
+ * Absolute paths of the files Git reports as unmerged, sorted
+ */
+export async function listUnmergedPaths(cwd: string): Promise<string[]> {
+  const root = await findRepositoryRoot(cwd)
+  const result = await runGit(["diff", "--name-only", "--diff-filter=U", "-z"], root)
+  if (result.code !== 0) {
+    throw new Error(`git diff failed: ${result.stderr.trim()}`)
+  }
+
+  const paths = result.stdout.split("\0").filter(path => path !== "")
+  return [...new Set(paths)].sort().map(path => join(root, path))
+}
+
+export interface IndexStages {
+  /** Stage 1, the common ancestor; missing when both branches added the file */
+  base?: string
+  /** Stage 2, HEAD (the upstream while rebasing) */
+  ours: string
+  /** Stage 3, the branch being merged (the commit being replayed while rebasing) */
+  theirs: string
+}
+
+/**
+ * The versions Git recorded in the index for a conflicted file, or undefined
+ * when the file is not unmerged (or one side deleted it)
+ */
+export async function readIndexStages(filePath: string): Promise<IndexStages | undefined> {
+  const cwd = dirname(filePath)
+  const listing = await runGit(["ls-files", "--unmerged", "-z", "--", basename(filePath)], cwd)
+  if (listing.code !== 0) {
+    return undefined
+  }
+
+  // "<mode> <object> <stage>\t<path>" for every stage
+  const objects = new Map<string, string>()
+  for (const line of listing.stdout.split("\0")) {
+    const match = /^\d+ ([0-9a-f]+) ([123])\t/.exec(line)
+    if (match) objects.set(match[2]!, match[1]!)
+  }
+  if (!objects.has("2") || !objects.has("3")) {
+    return undefined
+  }
+
+  const readBlob = async (object: string): Promise<string> => {
+    const result = await runGit(["cat-file", "blob", object], cwd)
+    if (result.code !== 0) {
+      throw new Error(`git cat-file failed: ${result.stderr.trim()}`)
+    }
+    return result.stdout
+  }
+
+  const base = objects.has("1") ? await readBlob(objects.get("1")!) : undefined
+  return {base, ours: await readBlob(objects.get("2")!), theirs: await readBlob(objects.get("3")!)}
+}
+
+/**
+ * Content of a file at the merge base of HEAD and `ref`, or "" when the file
+ * did not exist there. Throws when the merge base cannot be computed.
+ */
+export async function readFileAtMergeBase(filePath: string, ref: string): Promise<string> {
+  const cwd = dirname(filePath)
+  const mergeBase = await runGit(["merge-base", "HEAD", ref], cwd)
+  if (mergeBase.code !== 0) {
+    throw new Error(`git merge-base HEAD ${ref} failed: ${mergeBase.stderr.trim() || "no common ancestor"}`)
+  }
+
+  const prefix = await runGit(["rev-parse", "--show-prefix"], cwd)
+  if (prefix.code !== 0) {
+    throw new Error(`git rev-parse failed: ${prefix.stderr.trim()}`)
+  }
+
+  const object = `${mergeBase.stdout.trim()}:${prefix.stdout.trim()}${basename(filePath)}`
+  if ((await runGit(["cat-file", "-e", object], cwd)).code !== 0) {
+    return "" // Added on both sides since the merge base
+  }
+
+  const result = await runGit(["cat-file", "blob", object], cwd)
+  if (result.code !== 0) {
+    throw new Error(`git cat-file failed: ${result.stderr.trim()}`)
+  }
+  return result.stdout
+}
+
+/**
+ * Whether this tool can resolve a file: a package.json or a lockfile it
+ * knows that is not binary
+ */
+export function isResolvablePath(filePath: string): boolean {
+  const name = basename(filePath)
+  return name === "package.json" || LOCKFILES.some(lockfile => lockfile.name === name && !lockfile.binary)
+}
+
+/**
+ * Mark files as resolved (`git add`)
+ */
+export async function stagePaths(cwd: string, paths: string[]): Promise<void> {
+  if (paths.length === 0) {
+    return
+  }
+
+  const result = await runGit(["add", "--", ...paths], cwd)
+  if (result.code !== 0) {
+    throw new Error(`git add failed: ${result.stderr.trim()}`)
+  }
+}
@@ -9,8 +9,74 @@ export {VersionResolver} from "./version-resolver.js"
 export {Logger} from "./logger.js"
 export {LOCKFILES, findLockfiles, detectPackageManager} from "./package-manager.js"
 export type {PackageManagerName, LockfileInfo} from "./package-manager.js"
+export {parseDependencySpec, formatDependencySpec, isSameTarget, isCommitRef} from "./dependency-spec.js"
+export type {DependencySpec} from "./dependency-spec.js"
+export {
+  reconcileLockfileGraph,
+  resolveDependency,
+  isGraphLockfile,
+  formatUnsatisfiedEdge,
+  formatRootMismatch,
+} from "./lockfile-graph.js"
+export type {LockGraphReport, UnsatisfiedEdge, RootMismatch} from "./lockfile-graph.js"
+export {validateManifest, formatManifestIssue, isManifest, findPeerMismatches} from "./manifest-validation.js"
+export type {PeerMismatch} from "./manifest-validation.js"
+export {syncLockfileRoot, SYNCED_ROOT_FIELDS} from "./lockfile-sync.js"
+export type {LockSyncReport} from "./lockfile-sync.js"
+export {
+  parseYarnLockfile,
+  stringifyYarnLockfile,
+  parseYarnBerryLockfile,
+  stringifyYarnBerryLockfile,
+  isYarnClassicLockfile,
+  isYarnBerryLockfile,
+  detectYarnLockfileFormat,
+  yarnSpecPackageName,
+} from "./yarn-lockfile.js"
+export type {YarnLockfile, YarnLockfileFormat} from "./yarn-lockfile.js"
+export {
+  parsePnpmLockfile,
+  stringifyPnpmLockfile,
+  isPnpmLockfile,
+  pnpmImporters,
+  pnpmDependencyKey,
+  reachablePnpmEntries,
+  PNPM_LOCKFILE_VERSIONS,
+} from "./pnpm-lockfile.js"
+export type {PnpmManifestLoader} from "./pnpm-lockfile.js"
+export {
+  parseBunLockfile,
+  stringifyBunLockfile,
+  isBunLockfile,
+  parseJsonc,
+  bunPackageName,
+  bunPackageVersion,
+} from "./bun-lockfile.js"
+export {readWorkspacePatterns, findWorkspacePackages, PNPM_WORKSPACE_FILE} from "./workspaces.js"
+export {
+  listUnmergedPaths,
+  findRepositoryRoot,
+  isResolvablePath,
+  stagePaths,
+  readIndexStages,
+  readFileAtMergeBase,
+  detectGitOperation,
+  strategyForAlias,
+} from "./git.js"
+export type {IndexStages, GitOperation} from "./git.js"
+export {
+  loadConfig,
+  parseConfig,
+  findPackageRule,
+  findFieldRule,
+  matchesGlob,
+  matchesPathGlob,
+  CONFIG_FILE_NAME,
+} from "./config.js"
 
 export * from "./types.js"
 
 // Re-export for convenience
-export {RESOLUTION_STRATEGIES, STABLE_PACKAGE_JSON_FIELDS} from "./types.js"
+export {RESOLUTION_STRATEGIES, STRATEGY_ALIASES, REPORT_FORMATS, STABLE_PACKAGE_JSON_FIELDS} from "./types.js"
+export {createFileReport, formatMarkdownSummary, formatReport, toSarif} from "./report.js"
+export type {FileReport, ReportedConflict, ResolutionReport, SarifLog} from "./report.js"
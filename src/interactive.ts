@@ -0,0 +1,166 @@
+/**
+ * Interactive review of resolved conflicts in the terminal
+ */
+
+import {createInterface} from "readline"
+import {PackageJson, ResolvedConflict} from "./types.js"
+import {VersionResolver} from "./version-resolver.js"
+
+export interface PromptStreams {
+  input: NodeJS.ReadableStream
+  output: NodeJS.WritableStream
+}
+
+type Choice = "ours" | "theirs" | "base" | "suggested" | "custom" | "delete"
+
+/** How conflict records show a key one side does not have */
+const DELETED = "<deleted>"
+
+/**
+ * Walk through each resolved conflict and let the user pick ours, theirs,
+ * base, the suggested (strategy) value or a custom value, or delete the key.
+ * Picking a side that does not have the key deletes it too. The document and
+ * the conflict records are updated in place. Conflicts without a JSON path
+ * (block-based fallback) cannot be re-applied and are only listed.
+ * A choice on a peer-alignment conflict replaces the peer range and the
+ * installed spec alike, as the resolver did.
+ * An empty answer, or the end of input, accepts the suggestion.
+ */
+export async function reviewConflictsInteractively(
+  packageJson: PackageJson,
+  conflicts: ResolvedConflict[],
+  streams: PromptStreams = {input: process.stdin, output: process.stdout}
+): Promise<void> {
+  const reviewable = conflicts.filter(conflict => conflict.path !== undefined)
+  const skipped = conflicts.length - reviewable.length
+  const rl = createInterface({input: streams.input, output: streams.output, terminal: false})
+  const lines = rl[Symbol.asyncIterator]()
+
+  const ask = async (question: string): Promise<string | undefined> => {
+    streams.output.write(question)
+    const next = await lines.next()
+    return next.done ? undefined : String(next.value).trim()
+  }
+
+  try {
+    if (skipped > 0) {
+      streams.output.write(`ℹ ${skipped} conflict(s) were resolved by the block-based parser and cannot be reviewed\n`)
+    }
+
+    for (let i = 0; i < reviewable.length; i++) {
+      const conflict = reviewable[i]!
+      const choices: Choice[] = ["ours", "theirs", ...(conflict.baseValue !== undefined ? ["base" as const] : [])]
+      choices.push("suggested", "custom", "delete")
+
+      streams.output.write(`\n[${i + 1}/${reviewable.length}] ${conflict.field}\n`)
+      streams.output.write(`  ours:      ${conflict.ourValue}\n`)
+      streams.output.write(`  theirs:    ${conflict.theirValue}\n`)
+      if (conflict.baseValue !== undefined) {
+        streams.output.write(`  base:      ${conflict.baseValue}\n`)
+      }
+      const confidence = conflict.confidence
+        ? `, ${conflict.confidence}${VersionResolver.isUncertain(conflict.confidence) ? " - uncertain" : ""}`
+        : ""
+      streams.output.write(`  suggested: ${conflict.resolvedValue} (${conflict.strategy}${confidence})\n`)
+      if (conflict.reason) {
+        streams.output.write(`  reason:    ${conflict.reason}\n`)
+      }
+      const paths = choicePaths(packageJson, conflict)
+      if (paths.length > 1) {
+        streams.output.write(`  sets:      ${paths.map(path => path.join(".")).join(", ")}\n`)
+      }
+
+      let choice: Choice | undefined
+      while (choice === undefined) {
+        const answer = await ask(
+          `Choose ${choices.map(c => `[${c[0]}]${c.slice(1)}`).join(", ")} (default: suggested): `
+        )
+        if (answer === undefined || answer === "") {
+          choice = "suggested"
+        } else {
+          choice = choices.find(c => c === answer.toLowerCase() || c[0] === answer.toLowerCase())
+          if (choice === undefined) {
+            streams.output.write(`  Unknown choice "${answer}"\n`)
+          }
+        }
+      }
+
+      // undefined deletes the key
+      let text: string | undefined
+      if (choice === "custom") {
+        const answer = await ask("  Custom value: ")
+        if (answer === undefined || answer === "") continue
+        text = answer
+      } else if (choice === "suggested") {
+        continue
+      } else if (choice === "delete") {
+        text = undefined
+      } else {
+        const side =
+          choice === "ours" ? conflict.ourValue : choice === "theirs" ? conflict.theirValue : conflict.baseValue!
+        text = side === DELETED ? undefined : side
+      }
+
+      for (const path of paths) {
+        applyChoice(packageJson, path, text)
+      }
+      conflict.resolvedValue = text ?? DELETED
+      conflict.strategy = `interactive (${choice})`
+    }
+  } finally {
+    rl.close()
+  }
+}
+
+/**
+ * Paths a choice is written to: the conflict's own, plus for a
+ * peer-alignment conflict the dependencies (or else devDependencies) entry
+ * of the same package
+ */
+function choicePaths(packageJson: PackageJson, conflict: ResolvedConflict): string[][] {
+  const path = conflict.path!
+  const name = path[path.length - 1]
+  if (conflict.kind !== "peer-alignment" || name === undefined) {
+    return [path]
+  }
+  const field = ["dependencies", "devDependencies"].find(field => packageJson[field]?.[name] !== undefined)
+  return field ? [path, [field, name]] : [path]
+}
+
+/**
+ * Write a chosen conflict value back into the document. Conflict values are
+ * stringified: strings keep their raw form, everything else is JSON, so the
+ * current value's type decides how the text is read back. Without text the
+ * key is deleted.
+ */
+function applyChoice(packageJson: PackageJson, path: string[], text: string | undefined): void {
+  const key = path[path.length - 1]
+  if (key === undefined) {
+    throw new Error("Cannot replace the whole document interactively")
+  }
+
+  let parent: any = packageJson
+  for (const segment of path.slice(0, -1)) {
+    if (parent[segment] === null || typeof parent[segment] !== "object") {
+      parent[segment] = {}
+    }
+    parent = parent[segment]
+  }
+
+  if (text === undefined) {
+    delete parent[key]
+    return
+  }
+
+  const current = parent[key]
+  if (typeof current === "string") {
+    parent[key] = text
+    return
+  }
+
+  try {
+    parent[key] = JSON.parse(text)
+  } catch {
+    parent[key] = text
+  }
+}
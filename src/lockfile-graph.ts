@@ -0,0 +1,304 @@
+/**
+ * Dependency graph checks for npm lockfiles (lockfileVersion 2 and 3).
+ *
+ * The `packages` map of a lockfile is a graph: every entry's dependencies are
+ * resolved the way Node resolves `require()`, from the nearest
+ * `node_modules` folder up to the root. Merging entries one by one can leave
+ * an edge pointing at a version that no longer satisfies it, entries that
+ * nothing depends on anymore, or a root entry that no longer matches
+ * package.json.
+ */
+
+import * as semver from "semver"
+import {parseDependencySpec} from "./dependency-spec.js"
+import {PackageJson} from "./types.js"
+
+export interface UnsatisfiedEdge {
+  /** Lockfile key of the dependent entry ("" for the root) */
+  from: string
+  /** Name of the dependency */
+  name: string
+  /** Spec the dependent declares */
+  spec: string
+  /** Lockfile key the dependency resolves to, if any */
+  resolvedTo?: string
+  /** Version found at that key */
+  version?: string
+}
+
+/** A dependency of the root entry (`packages[""]`) that package.json declares differently */
+export interface RootMismatch {
+  /** Dependency field ("dependencies", "devDependencies", ...) */
+  field: string
+  name: string
+  /** Spec in the root entry, if any */
+  locked?: string
+  /** Spec in package.json, if any */
+  declared?: string
+}
+
+export interface LockGraphReport {
+  /** Keys of entries that were removed because nothing depends on them */
+  pruned: string[]
+  /** Dependency edges that no entry satisfies */
+  unsatisfied: UnsatisfiedEdge[]
+  /** Root dependencies that disagree with package.json (only checked when it is given) */
+  rootMismatches: RootMismatch[]
+}
+
+/** Dependency fields every entry may declare; devDependencies only count for roots */
+const EDGE_FIELDS = ["dependencies", "optionalDependencies", "peerDependencies"] as const
+
+/** Dependency fields npm copies from package.json into the root entry */
+const ROOT_FIELDS = ["dependencies", "devDependencies", "optionalDependencies", "peerDependencies"] as const
+
+/**
+ * Whether the document is an npm lockfile with a `packages` map
+ */
+export function isGraphLockfile(document: PackageJson): boolean {
+  return (
+    typeof document.lockfileVersion === "number" &&
+    document.lockfileVersion >= 2 &&
+    document.packages !== null &&
+    typeof document.packages === "object" &&
+    !Array.isArray(document.packages)
+  )
+}
+
+/**
+ * Check every dependency edge of the lockfile and remove entries that are
+ * not reachable from the root or a workspace. Orphans are only pruned when
+ * the lockfile has a root entry (`packages[""]`), and are removed from the
+ * legacy `dependencies` tree of lockfileVersion 2 as well. With `manifest`
+ * (the package.json next to the lockfile), the dependencies of the root entry
+ * are compared with it. The lockfile is modified in place.
+ */
+export function reconcileLockfileGraph(lockfile: PackageJson, manifest?: PackageJson): LockGraphReport {
+  const packages: Record<string, any> = lockfile.packages
+  const report: LockGraphReport = {pruned: [], unsatisfied: [], rootMismatches: []}
+
+  if (manifest !== undefined && packages[""] !== null && typeof packages[""] === "object") {
+    report.rootMismatches.push(...findRootMismatches(packages[""], manifest))
+  }
+
+  // The root and workspace folders are the starting points of the graph
+  const roots = Object.keys(packages).filter(key => key === "" || !isNodeModulesKey(key))
+  const reachable = new Set<string>(roots)
+  const queue = [...roots]
+
+  while (queue.length > 0) {
+    const key = queue.shift()!
+    const entry = packages[key]
+    if (entry === null || typeof entry !== "object") continue
+
+    // A link points at the folder holding the real entry
+    if (entry.link === true && typeof entry.resolved === "string") {
+      if (!reachable.has(entry.resolved)) {
+        reachable.add(entry.resolved)
+        queue.push(entry.resolved)
+      }
+      continue
+    }
+
+    report.unsatisfied.push(...findUnsatisfiedEdges(packages, key))
+
+    for (const edge of edgesOf(key, entry)) {
+      const resolvedTo = resolveDependency(packages, key, edge.name)
+      if (resolvedTo !== undefined && !reachable.has(resolvedTo)) {
+        reachable.add(resolvedTo)
+        queue.push(resolvedTo)
+      }
+    }
+  }
+
+  if (packages[""] !== undefined) {
+    for (const key of Object.keys(packages)) {
+      // Bundled entries ship inside their parent's tarball and are not declared as edges
+      if (!reachable.has(key) && packages[key]?.inBundle !== true) {
+        delete packages[key]
+        removeLegacyDependency(lockfile, key)
+        report.pruned.push(key)
+      }
+    }
+  }
+
+  return report
+}
+
+/**
+ * Check the dependencies of one entry against the entries they resolve to
+ */
+export function findUnsatisfiedEdges(packages: Record<string, any>, key: string): UnsatisfiedEdge[] {
+  const entry = packages[key]
+  if (entry === null || typeof entry !== "object" || entry.link === true) {
+    return []
+  }
+
+  const unsatisfied: UnsatisfiedEdge[] = []
+  for (const edge of edgesOf(key, entry)) {
+    const resolvedTo = resolveDependency(packages, key, edge.name)
+
+    if (resolvedTo === undefined) {
+      // Optional and peer dependencies may legitimately be missing
+      if (edge.field === "dependencies" || edge.field === "devDependencies") {
+        unsatisfied.push({from: key, name: edge.name, spec: edge.spec})
+      }
+      continue
+    }
+
+    // Peer dependencies are resolved by the consumer; npm reports mismatches itself
+    if (edge.field === "peerDependencies") continue
+
+    const version = installedVersion(packages, resolvedTo)
+    if (version !== undefined && !satisfiesSpec(edge.name, edge.spec, packages[resolvedTo], version)) {
+      unsatisfied.push({from: key, name: edge.name, spec: edge.spec, resolvedTo, version})
+    }
+  }
+  return unsatisfied
+}
+
+/**
+ * Describe an unsatisfied edge for error output
+ */
+export function formatUnsatisfiedEdge(edge: UnsatisfiedEdge): string {
+  const from = edge.from === "" ? "the root package" : edge.from
+  return edge.resolvedTo === undefined
+    ? `${from} requires ${edge.name}@${edge.spec} but no lockfile entry provides it`
+    : `${from} requires ${edge.name}@${edge.spec} but ${edge.resolvedTo} is ${edge.version}`
+}
+
+/**
+ * Describe a root mismatch for error output
+ */
+export function formatRootMismatch(mismatch: RootMismatch): string {
+  const dependency = `${mismatch.field}.${mismatch.name}`
+  if (mismatch.declared === undefined) {
+    return `packages[""].${dependency} is ${mismatch.locked} but package.json does not declare it`
+  }
+  if (mismatch.locked === undefined) {
+    return `package.json declares ${dependency} ${mismatch.declared} but packages[""] does not`
+  }
+  return `packages[""].${dependency} is ${mismatch.locked} but package.json has ${mismatch.declared}`
+}
+
+/**
+ * Find the entry a dependency resolves to from a given entry: its own
+ * node_modules first, then each enclosing node_modules up to the top level.
+ */
+export function resolveDependency(packages: Record<string, any>, from: string, name: string): string | undefined {
+  let base = from
+  while (true) {
+    const candidate = base === "" ? `node_modules/${name}` : `${base}/node_modules/${name}`
+    if (packages[candidate] !== undefined) {
+      return candidate
+    }
+    if (base === "") {
+      return undefined
+    }
+
+    const nested = base.lastIndexOf("/node_modules/")
+    base = nested !== -1 ? base.slice(0, nested) : ""
+  }
+}
+
+function findRootMismatches(root: Record<string, any>, manifest: PackageJson): RootMismatch[] {
+  const mismatches: RootMismatch[] = []
+  for (const field of ROOT_FIELDS) {
+    const locked = dependencyMap(root[field])
+    const declared = dependencyMap(manifest[field])
+    for (const name of new Set([...Object.keys(declared), ...Object.keys(locked)])) {
+      if (locked[name] !== declared[name]) {
+        mismatches.push({
+          field,
+          name,
+          ...(locked[name] !== undefined ? {locked: locked[name]} : {}),
+          ...(declared[name] !== undefined ? {declared: declared[name]} : {}),
+        })
+      }
+    }
+  }
+  return mismatches
+}
+
+function dependencyMap(value: unknown): Record<string, string> {
+  return value !== null && typeof value === "object" && !Array.isArray(value) ? (value as Record<string, string>) : {}
+}
+
+/**
+ * Remove a pruned entry from the legacy `dependencies` tree lockfileVersion 2
+ * keeps for npm 6, where `node_modules/a/node_modules/b` is
+ * `dependencies.a.dependencies.b`
+ */
+function removeLegacyDependency(lockfile: PackageJson, key: string): void {
+  if (!key.startsWith("node_modules/")) return
+
+  const names = key.slice("node_modules/".length).split("/node_modules/")
+  let dependencies: any = lockfile.dependencies
+  for (const name of names.slice(0, -1)) {
+    dependencies = dependencies?.[name]?.dependencies
+  }
+  if (dependencies !== null && typeof dependencies === "object") {
+    delete dependencies[names[names.length - 1]!]
+  }
+}
+
+function edgesOf(key: string, entry: any): {field: string; name: string; spec: string}[] {
+  const fields: string[] = [...EDGE_FIELDS]
+  if (!isNodeModulesKey(key)) {
+    fields.push("devDependencies")
+  }
+
+  const edges: {field: string; name: string; spec: string}[] = []
+  for (const field of fields) {
+    const deps = entry[field]
+    if (deps === null || typeof deps !== "object") continue
+    for (const [name, spec] of Object.entries(deps)) {
+      if (typeof spec === "string") {
+        edges.push({field, name, spec})
+      }
+    }
+  }
+  return edges
+}
+
+/**
+ * Version installed at a key, following links to their target folder
+ */
+function installedVersion(packages: Record<string, any>, key: string): string | undefined {
+  const entry = packages[key]
+  const target = entry?.link === true && typeof entry.resolved === "string" ? packages[entry.resolved] : entry
+  return typeof target?.version === "string" ? target.version : undefined
+}
+
+/**
+ * Whether an installed version satisfies a spec. Only ranges (plain or behind
+ * an npm: alias) can be checked; tags, paths and git specs are trusted.
+ */
+function satisfiesSpec(name: string, spec: string, entry: any, version: string): boolean {
+  const protocolSpec = parseDependencySpec(spec)
+  if (protocolSpec?.protocol === "npm") {
+    if (typeof entry?.name === "string" && entry.name !== protocolSpec.target) {
+      return false
+    }
+    return protocolSpec.version === undefined || satisfiesRange(version, protocolSpec.version)
+  }
+
+  if (protocolSpec !== undefined || semver.validRange(spec, {loose: true}) === null) {
+    return true
+  }
+
+  // An aliased entry under this name is a different package
+  if (typeof entry?.name === "string" && entry.name !== name) {
+    return false
+  }
+
+  return satisfiesRange(version, spec)
+}
+
+function satisfiesRange(version: string, range: string): boolean {
+  return semver.validRange(range, {loose: true}) === null || semver.satisfies(version, range, {loose: true})
+}
+
+function isNodeModulesKey(key: string): boolean {
+  return key.startsWith("node_modules/") || key.includes("/node_modules/")
+}
@@ -0,0 +1,85 @@
+/**
+ * Offline sync of an npm lockfile's root entry with package.json.
+ *
+ * `npm install --package-lock-only` needs the registry. When it cannot run,
+ * the root entry (`packages[""]`) can still be made to mirror the merged
+ * package.json; entries that no longer satisfy the new ranges are reported so
+ * they can be updated once the registry is reachable.
+ */
+
+import {isDeepStrictEqual} from "node:util"
+import {findUnsatisfiedEdges, isGraphLockfile, UnsatisfiedEdge} from "./lockfile-graph.js"
+import {PackageJson} from "./types.js"
+
+/** package.json fields npm copies into the lockfile root entry */
+export const SYNCED_ROOT_FIELDS = [
+  "name",
+  "version",
+  "dependencies",
+  "devDependencies",
+  "peerDependencies",
+  "optionalDependencies",
+  "engines",
+  "bin",
+] as const
+
+export interface LockSyncReport {
+  /** Root entry fields that were added, changed or removed */
+  changed: string[]
+  /** Root dependencies the lockfile entries no longer satisfy */
+  unsatisfied: UnsatisfiedEdge[]
+}
+
+/**
+ * Rewrite the lockfile root entry (and the top-level name/version) to mirror
+ * package.json. Existing keys keep their position, new ones are appended.
+ * The lockfile is modified in place. Lockfiles without a `packages` map
+ * (lockfileVersion 1) are left untouched.
+ */
+export function syncLockfileRoot(lockfile: PackageJson, packageJson: PackageJson): LockSyncReport {
+  const report: LockSyncReport = {changed: [], unsatisfied: []}
+  if (!isGraphLockfile(lockfile)) {
+    return report
+  }
+
+  const packages: Record<string, any> = lockfile.packages
+  const root: Record<string, any> = packages[""] ?? {}
+
+  for (const field of SYNCED_ROOT_FIELDS) {
+    const value = field === "bin" ? normalizeBin(packageJson) : packageJson[field]
+    if (isDeepStrictEqual(root[field], value)) continue
+
+    if (value === undefined) {
+      delete root[field]
+    } else {
+      root[field] = value
+    }
+    report.changed.push(field)
+  }
+
+  if (packages[""] === undefined && report.changed.length > 0) {
+    // The root entry comes first in npm lockfiles
+    lockfile.packages = {"": root, ...packages}
+  }
+
+  for (const field of ["name", "version"] as const) {
+    if (packageJson[field] !== undefined) {
+      lockfile[field] = packageJson[field]
+    }
+  }
+
+  report.unsatisfied = findUnsatisfiedEdges(lockfile.packages, "")
+  return report
+}
+
+/**
+ * npm stores a string `bin` as an object keyed by the unscoped package name
+ */
+function normalizeBin(packageJson: PackageJson): Record<string, string> | undefined {
+  const bin = packageJson.bin
+  if (typeof bin === "string") {
+    const name = typeof packageJson.name === "string" ? packageJson.name.replace(/^@[^/]+\//, "") : undefined
+    return name ? {[name]: bin} : undefined
+  }
+  return bin !== null && typeof bin === "object" ? bin : undefined
+}
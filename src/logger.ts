@@ -125,9 +125,23 @@ export class Logger {
 
       for (const conflict of conflicts) {
         console.log(`Field: ${conflict.field}`)
-        console.log(`  Our value:      ${conflict.ourValue}`)
-        console.log(`  Their value:    ${conflict.theirValue}`)
+        console.log(`  Our value:      ${conflict.ourValue}${conflict.oursLabel ? ` (${conflict.oursLabel})` : ""}`)
+        console.log(
+          `  Their value:    ${conflict.theirValue}${conflict.theirsLabel ? ` (${conflict.theirsLabel})` : ""}`
+        )
+        if (conflict.baseValue !== undefined) {
+          console.log(`  Base value:     ${conflict.baseValue}${conflict.baseLabel ? ` (${conflict.baseLabel})` : ""}`)
+        }
         console.log(`  Resolved value: ${conflict.resolvedValue} (${conflict.strategy})`)
+        if (conflict.reason) {
+          console.log(`  Reason:         ${conflict.reason}`)
+        }
+        if (conflict.rule) {
+          console.log(`  Rule:           ${conflict.rule}`)
+        }
+        if (conflict.confidence) {
+          console.log(`  Confidence:     ${conflict.confidence}`)
+        }
         console.log("")
       }
     }
@@ -0,0 +1,248 @@
+/**
+ * Checks of a merged package.json.
+ *
+ * Each side of a merge can be a valid manifest while the combination is not:
+ * a package moved to devDependencies on one branch and bumped in
+ * dependencies on the other ends up in both, a peer dependency dropped on one
+ * side leaves its peerDependenciesMeta entry behind, a script keeps calling a
+ * tool whose package the other branch removed, a dependency bumped past the
+ * peer range the other side still declares.
+ */
+
+import * as semver from "semver"
+import {parseDependencySpec} from "./dependency-spec.js"
+import {ManifestIssue, PackageJson} from "./types.js"
+
+/** Dependency maps whose values must be version ranges or protocol specs */
+const DEPENDENCY_FIELDS = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies"] as const
+
+/** A peer range the installed spec of the same package does not satisfy */
+export interface PeerMismatch {
+  name: string
+  /** Range in peerDependencies */
+  peer: string
+  /** Field holding the installed spec */
+  field: "dependencies" | "devDependencies"
+  spec: string
+}
+
+/** Words that run the command after them, skipped when looking for a script's binary */
+const COMMAND_RUNNERS = ["npx", "pnpx", "bunx", "exec", "env", "cross-env", "dotenv"]
+
+/**
+ * Whether the document is a package.json rather than an npm lockfile
+ */
+export function isManifest(document: PackageJson): boolean {
+  return document.lockfileVersion === undefined
+}
+
+/**
+ * Check a merged manifest. `sides` are the documents that were merged
+ * (ours and theirs): a dependency one of them declares that the result no
+ * longer has was removed, and scripts calling its binary are reported.
+ */
+export function validateManifest(manifest: PackageJson, sides: PackageJson[] = []): ManifestIssue[] {
+  return [
+    ...findInvalidRanges(manifest),
+    ...findDuplicateDependencies(manifest),
+    ...findOrphanedPeerMeta(manifest),
+    ...findScriptsUsingRemovedBinaries(manifest, sides),
+    ...findInvalidToolVersions(manifest),
+    ...findPeerMismatches(manifest, sides).map(mismatch => ({
+      field: `peerDependencies.${mismatch.name}`,
+      message: `${JSON.stringify(mismatch.peer)} is not satisfied by ${mismatch.field}.${mismatch.name} ${JSON.stringify(mismatch.spec)}`,
+    })),
+  ]
+}
+
+/**
+ * Peer dependencies whose range does not cover every version the
+ * dependencies (or else devDependencies) spec of the same package allows.
+ * Only plain ranges are compared: protocol specs and dist-tags are skipped.
+ * A peer range and spec one of `sides` already had is not the merge's doing
+ * (a package may test against a newer version than it promises) and is left out.
+ */
+export function findPeerMismatches(manifest: PackageJson, sides: PackageJson[] = []): PeerMismatch[] {
+  const existing = sides.flatMap(side => findPeerMismatches(side))
+  const mismatches: PeerMismatch[] = []
+  for (const [name, peer] of Object.entries(dependencyMap(manifest, "peerDependencies"))) {
+    const field = (["dependencies", "devDependencies"] as const).find(
+      field => dependencyMap(manifest, field)[name] !== undefined
+    )
+    const spec = field ? dependencyMap(manifest, field)[name] : undefined
+    if (
+      field &&
+      isPlainRange(peer) &&
+      isPlainRange(spec) &&
+      !semver.subset(spec, peer, {loose: true}) &&
+      !existing.some(other => other.name === name && other.peer === peer && other.spec === spec)
+    ) {
+      mismatches.push({name, peer, field, spec})
+    }
+  }
+  return mismatches
+}
+
+/**
+ * Describe an issue for log and error output
+ */
+export function formatManifestIssue(issue: ManifestIssue): string {
+  return `${issue.field}: ${issue.message}`
+}
+
+function findInvalidRanges(manifest: PackageJson): ManifestIssue[] {
+  const issues: ManifestIssue[] = []
+  for (const field of DEPENDENCY_FIELDS) {
+    for (const [name, spec] of Object.entries(dependencyMap(manifest, field))) {
+      if (typeof spec !== "string") {
+        issues.push({field: `${field}.${name}`, message: `expected a version range, got ${JSON.stringify(spec)}`})
+      } else if (!isValidDependencySpec(spec)) {
+        issues.push({field: `${field}.${name}`, message: `invalid version range "${spec}"`})
+      }
+    }
+  }
+  return issues
+}
+
+/**
+ * A range, a dist-tag, or a protocol spec (npm aliases are checked like
+ * ranges). Paths, URLs and `owner/repo` shorthands are accepted as they are.
+ */
+function isValidDependencySpec(spec: string): boolean {
+  const parsed = parseDependencySpec(spec)
+  if (parsed) {
+    return parsed.protocol !== "npm" || parsed.version === undefined || isRangeOrTag(parsed.version)
+  }
+  if (/^[a-z][a-z0-9+.-]*:/i.test(spec) || /^[.~/]/.test(spec) || /^[^@\s/]+\/[^\s]+$/.test(spec)) {
+    return true
+  }
+  return isRangeOrTag(spec)
+}
+
+function isPlainRange(spec: unknown): spec is string {
+  return typeof spec === "string" && !parseDependencySpec(spec) && semver.validRange(spec, {loose: true}) !== null
+}
+
+function isRangeOrTag(spec: string): boolean {
+  return semver.validRange(spec, {loose: true}) !== null || /^[a-z][\w.-]*$/i.test(spec.trim())
+}
+
+function findDuplicateDependencies(manifest: PackageJson): ManifestIssue[] {
+  const dependencies = dependencyMap(manifest, "dependencies")
+  return Object.entries(dependencyMap(manifest, "devDependencies"))
+    .filter(([name, spec]) => name in dependencies && dependencies[name] !== spec)
+    .map(([name, spec]) => ({
+      field: `devDependencies.${name}`,
+      message: `${JSON.stringify(spec)} differs from ${JSON.stringify(dependencies[name])} in dependencies`,
+    }))
+}
+
+function findOrphanedPeerMeta(manifest: PackageJson): ManifestIssue[] {
+  const peers = dependencyMap(manifest, "peerDependencies")
+  return Object.keys(dependencyMap(manifest, "peerDependenciesMeta"))
+    .filter(name => !(name in peers))
+    .map(name => ({field: `peerDependenciesMeta.${name}`, message: "has no matching entry in peerDependencies"}))
+}
+
+/**
+ * Scripts whose commands call a binary of a dependency the merge removed.
+ * Binaries are matched by the package name without its scope, which is the
+ * binary name of most CLI packages (`jest`, `@biomejs/biome`). A name a
+ * kept dependency still provides is not reported (removing `@types/jest`
+ * leaves `jest`), nor are `@types/*` packages, which have no binaries.
+ */
+function findScriptsUsingRemovedBinaries(manifest: PackageJson, sides: PackageJson[]): ManifestIssue[] {
+  const kept = new Set(DEPENDENCY_FIELDS.flatMap(field => Object.keys(dependencyMap(manifest, field))))
+  const keptBinaries = new Set([...kept].map(binaryName))
+  const removed = new Map<string, string>()
+  for (const side of sides) {
+    for (const field of DEPENDENCY_FIELDS) {
+      for (const name of Object.keys(dependencyMap(side, field))) {
+        if (!kept.has(name) && !name.startsWith("@types/") && !keptBinaries.has(binaryName(name))) {
+          removed.set(binaryName(name), name)
+        }
+      }
+    }
+  }
+  if (removed.size === 0) {
+    return []
+  }
+
+  const issues: ManifestIssue[] = []
+  for (const [script, command] of Object.entries(dependencyMap(manifest, "scripts"))) {
+    if (typeof command !== "string") continue
+    for (const binary of new Set(scriptBinaries(command))) {
+      const name = removed.get(binary)
+      if (name !== undefined) {
+        issues.push({field: `scripts.${script}`, message: `runs "${binary}", but ${name} is no longer a dependency`})
+      }
+    }
+  }
+  return issues
+}
+
+/** Binary name assumed for a package: its name without the scope */
+function binaryName(name: string): string {
+  return name.split("/").pop()!
+}
+
+/**
+ * First word of every command in a script, skipping environment
+ * assignments and runners such as `npx`
+ */
+function scriptBinaries(command: string): string[] {
+  const binaries: string[] = []
+  for (const part of command.split(/&&|\|\||[;|&()]/)) {
+    const words = part.trim().split(/\s+/)
+    let i = 0
+    while (i < words.length && (/^\w+=/.test(words[i]!) || COMMAND_RUNNERS.includes(words[i]!))) i++
+    const binary = words[i]
+    if (binary && !binary.startsWith("-")) {
+      binaries.push(binary)
+    }
+  }
+  return binaries
+}
+
+function findInvalidToolVersions(manifest: PackageJson): ManifestIssue[] {
+  const issues: ManifestIssue[] = []
+
+  if (manifest.packageManager !== undefined) {
+    // Corepack format: <name>@<exact version>[+<hash>]
+    const match =
+      typeof manifest.packageManager === "string" ? /^([a-z][\w.-]*)@(.+)$/.exec(manifest.packageManager) : null
+    if (!match || semver.valid(match[2]!) === null) {
+      issues.push({
+        field: "packageManager",
+        message: `expected "<name>@<version>" such as "pnpm@9.1.0", got ${JSON.stringify(manifest.packageManager)}`,
+      })
+    }
+  }
+
+  if (manifest.engines !== undefined) {
+    if (!isPlainObject(manifest.engines)) {
+      issues.push({
+        field: "engines",
+        message: `expected an object of version ranges, got ${JSON.stringify(manifest.engines)}`,
+      })
+    } else {
+      for (const [engine, range] of Object.entries(manifest.engines)) {
+        if (typeof range !== "string" || semver.validRange(range, {loose: true}) === null) {
+          issues.push({field: `engines.${engine}`, message: `invalid version range ${JSON.stringify(range)}`})
+        }
+      }
+    }
+  }
+
+  return issues
+}
+
+/** A field as a map, or an empty one when it is missing or not an object */
+function dependencyMap(document: PackageJson, field: string): Record<string, any> {
+  const value = document[field]
+  return isPlainObject(value) ? value : {}
+}
+
+function isPlainObject(value: unknown): value is Record<string, any> {
+  return value !== null && typeof value === "object" && !Array.isArray(value)
+}
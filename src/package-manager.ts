@@ -1,10 +1,9 @@
 /**
  * Package manager detection and lockfile registry.
  *
- * The tool merges JSON lockfiles (npm) itself. For other package managers it
- * delegates to the manager's own tooling: yarn, pnpm and bun all resolve
- * conflicted lockfiles automatically during install, so reimplementing their
- * formats here would only risk producing incorrect dependency graphs.
+ * The tool merges JSON lockfiles (npm), yarn, pnpm and text bun lockfiles
+ * itself. The binary bun.lockb cannot be merged: bun regenerates it during
+ * install.
  */
 
 import {access, readFile} from "fs/promises"
@@ -19,6 +18,10 @@ export interface LockfileInfo {
   packageManager: PackageManagerName
   /** Whether the file is JSON and can be merged semantically by this tool */
   jsonMergeable: boolean
+  /** Whether the tool merges this non-JSON format itself */
+  nativeMerge?: boolean
+  /** Whether the lockfile is binary, so Git never leaves conflict markers in it */
+  binary?: boolean
   /** Command that safely updates the lockfile without installing node_modules */
   safeRegenCommand?: {command: string; args: string[]}
   /** Command to suggest when the tool cannot fix the lockfile itself */
@@ -44,7 +47,9 @@ export const LOCKFILES: readonly LockfileInfo[] = [
     name: "pnpm-lock.yaml",
     packageManager: "pnpm",
     jsonMergeable: false,
-    // pnpm resolves conflicted pnpm-lock.yaml files automatically
+    // lockfileVersion 6 and 9 are merged entry by entry; pnpm also resolves
+    // conflicted pnpm-lock.yaml files automatically
+    nativeMerge: true,
     safeRegenCommand: {command: "pnpm", args: ["install", "--lockfile-only"]},
     manualCommand: "pnpm install --lockfile-only",
   },
@@ -52,20 +57,25 @@ export const LOCKFILES: readonly LockfileInfo[] = [
     name: "yarn.lock",
     packageManager: "yarn",
     jsonMergeable: false,
-    // No lockfile-only mode that works across yarn classic and Berry, but
-    // both resolve conflicted yarn.lock files automatically during install.
+    // yarn classic and Berry lockfiles are merged spec by spec. There is no
+    // lockfile-only mode that works across both, but both resolve conflicted
+    // yarn.lock files automatically during install.
+    nativeMerge: true,
     manualCommand: "yarn install",
   },
   {
     name: "bun.lock",
     packageManager: "bun",
     jsonMergeable: false,
+    // JSON with trailing commas: merged package tuple by package tuple
+    nativeMerge: true,
     manualCommand: "bun install",
   },
   {
     name: "bun.lockb",
     packageManager: "bun",
     jsonMergeable: false,
+    binary: true,
     manualCommand: "bun install",
   },
 ]
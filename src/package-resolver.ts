@@ -3,19 +3,62 @@
  */
 
 import {isDeepStrictEqual} from "node:util"
+import * as semver from "semver"
 import {ConflictParser} from "./conflict-parser.js"
 import {VersionResolver} from "./version-resolver.js"
 import {Logger} from "./logger.js"
-import {PackageJson, ConflictMarker, ResolutionResult, ResolvedConflict, CliOptions} from "./types.js"
+import {findFieldRule, findPackageRule} from "./config.js"
+import {formatRootMismatch, formatUnsatisfiedEdge, isGraphLockfile, reconcileLockfileGraph} from "./lockfile-graph.js"
+import {findPeerMismatches, formatManifestIssue, isManifest, validateManifest} from "./manifest-validation.js"
+import {
+  detectYarnLockfileFormat,
+  parseYarnBerryLockfile,
+  parseYarnLockfile,
+  stringifyYarnBerryLockfile,
+  stringifyYarnLockfile,
+  yarnSpecPackageName,
+  YarnLockfile,
+} from "./yarn-lockfile.js"
+import {bunPackageName, bunPackageVersion, parseBunLockfile, stringifyBunLockfile} from "./bun-lockfile.js"
+import {
+  parsePnpmLockfile,
+  PNPM_IMPORTER_FIELDS,
+  PNPM_LOCKFILE_VERSIONS,
+  pnpmImporters,
+  pnpmKeyPackageName,
+  pnpmLockfileMajor,
+  PnpmManifestLoader,
+  reachablePnpmEntries,
+  stringifyPnpmLockfile,
+} from "./pnpm-lockfile.js"
+import {
+  PackageJson,
+  ConflictMarker,
+  ResolutionResult,
+  ResolvedConflict,
+  CliOptions,
+  PackageRuleStrategy,
+  ResolutionConfidence,
+  StrategyRule,
+  VersionResolution,
+} from "./types.js"
 
 interface MergeOutcome {
   value: any
   conflicts: ResolvedConflict[]
 }
 
+/** Strategy in effect for one path, and the config rule that selected it */
+interface StrategyChoice {
+  strategy: PackageRuleStrategy
+  rule?: StrategyRule
+}
+
 export class PackageResolver {
   private logger: Logger
   private options: CliOptions
+  /** Set while merging documents that have no common ancestor */
+  private twoWayMerge = false
 
   constructor(options: CliOptions) {
     this.options = options
@@ -27,9 +70,12 @@ export class PackageResolver {
   }
 
   /**
-   * Resolve conflicts in package.json content
+   * Resolve conflicts in package.json content. `mergeBase` is the common
+   * ancestor of the whole file (Git's index stage 1), used when the markers
+   * carry no diff3 base sections. `manifest` is the package.json next to a
+   * lockfile: with `lockGraph`, the lockfile root entry is checked against it.
    */
-  async resolveConflicts(content: string): Promise<ResolutionResult> {
+  async resolveConflicts(content: string, mergeBase?: string, manifest?: PackageJson): Promise<ResolutionResult> {
     const result: ResolutionResult = {
       resolved: false,
       conflicts: [],
@@ -49,11 +95,31 @@ export class PackageResolver {
 
       this.logger.info("Found conflicts, resolving...")
 
-      const semanticResult = this.resolveConflictVariants(content)
+      // Blending two lockfile formats would produce a file npm cannot read
+      const formatError = this.lockfileVersionMismatch(
+        this.extractLockfileVersion(ConflictParser.extractConflictSide(content, "ours")),
+        this.extractLockfileVersion(ConflictParser.extractConflictSide(content, "theirs"))
+      )
+      if (formatError) {
+        this.logger.error(formatError)
+        result.errors.push(formatError)
+        return result
+      }
+
+      const semanticResult = this.resolveConflictVariants(content, mergeBase)
       if (semanticResult) {
-        result.conflicts = semanticResult.conflicts
+        result.conflicts = this.labelConflicts(semanticResult.conflicts, ConflictParser.parseConflicts(content)[0])
         result.packageJson = semanticResult.packageJson
         result.resolved = true
+        this.alignPeerDependencies(result, this.conflictSides(content))
+
+        if (
+          this.rejectUnsafeResolutions(result) ||
+          this.rejectInconsistentLockGraph(result, manifest) ||
+          this.rejectInvalidManifest(result, this.conflictSides(content))
+        ) {
+          return result
+        }
 
         this.logger.success(`Resolved ${result.conflicts.length} conflicts`)
         this.logger.logConflicts(result.conflicts)
@@ -71,7 +137,7 @@ export class PackageResolver {
         try {
           const resolved = await this.resolveConflict(conflict, content)
           if (resolved) {
-            result.conflicts.push(resolved)
+            result.conflicts.push(...this.labelConflicts([resolved], conflict))
             resolvedSections.set(conflict.start, this.formatResolvedContent(resolved))
           }
         } catch (error) {
@@ -89,9 +155,16 @@ export class PackageResolver {
           const parsedJson = JSON.parse(resolvedContent)
           result.packageJson = parsedJson
           result.resolved = true
-
-          this.logger.success(`Resolved ${result.conflicts.length} conflicts`)
-          this.logger.logConflicts(result.conflicts)
+          this.alignPeerDependencies(result, this.conflictSides(content))
+
+          if (
+            !this.rejectUnsafeResolutions(result) &&
+            !this.rejectInconsistentLockGraph(result, manifest) &&
+            !this.rejectInvalidManifest(result, this.conflictSides(content))
+          ) {
+            this.logger.success(`Resolved ${result.conflicts.length} conflicts`)
+            this.logger.logConflicts(result.conflicts)
+          }
         } catch (error) {
           const errorMsg = `Failed to parse resolved JSON: ${error instanceof Error ? error.message : String(error)}`
           this.logger.error(errorMsg)
@@ -112,14 +185,14 @@ export class PackageResolver {
    * This is used for real Git conflict markers, where the surrounding JSON
    * structure may be shared outside the conflict block.
    */
-  private resolveConflictVariants(content: string): ResolutionResult | null {
+  private resolveConflictVariants(content: string, mergeBase?: string): ResolutionResult | null {
     try {
       const ourContent = ConflictParser.extractConflictSide(content, "ours")
       const theirContent = ConflictParser.extractConflictSide(content, "theirs")
       // diff3/zdiff3 conflict styles carry the common ancestor: use it for a true 3-way merge
       const baseContent = ConflictParser.hasBaseSections(content)
         ? ConflictParser.extractConflictSide(content, "base")
-        : undefined
+        : mergeBase
       const result = this.mergeJsonContentsInternal(ourContent, theirContent, baseContent)
       return result.resolved ? result : null
     } catch (error) {
@@ -138,7 +211,744 @@ export class PackageResolver {
     currentContent: string,
     otherContent: string
   ): Promise<ResolutionResult> {
-    return this.mergeJsonContentsInternal(currentContent, otherContent, baseContent)
+    const result = this.mergeJsonContentsInternal(currentContent, otherContent, baseContent)
+    this.alignPeerDependencies(result, [currentContent, otherContent])
+    if (!this.rejectUnsafeResolutions(result) && !this.rejectInconsistentLockGraph(result)) {
+      this.rejectInvalidManifest(result, [currentContent, otherContent])
+    }
+    return result
+  }
+
+  /**
+   * Resolve conflicts in a yarn lockfile (classic or Berry). Both sides are
+   * parsed and merged spec by spec; the merged lockfile is returned as `content`.
+   */
+  async resolveYarnLockConflicts(content: string): Promise<ResolutionResult> {
+    if (!ConflictParser.hasConflicts(content)) {
+      this.logger.info("No conflicts found")
+      return {resolved: true, conflicts: [], errors: [], content}
+    }
+
+    this.logger.info("Found conflicts, resolving...")
+    const baseContent = ConflictParser.hasBaseSections(content)
+      ? ConflictParser.extractConflictSide(content, "base")
+      : undefined
+    const result = this.mergeYarnLockContentsInternal(
+      ConflictParser.extractConflictSide(content, "ours"),
+      ConflictParser.extractConflictSide(content, "theirs"),
+      baseContent,
+      content
+    )
+
+    this.labelConflicts(result.conflicts, ConflictParser.parseConflicts(content)[0])
+    if (result.resolved && !this.rejectUnsafeResolutions(result)) {
+      this.logger.success(`Resolved ${result.conflicts.length} conflicts`)
+      this.logger.logConflicts(result.conflicts)
+    } else {
+      result.errors.forEach(errorMsg => this.logger.error(errorMsg))
+    }
+    return result
+  }
+
+  /**
+   * Merge base/current/other yarn lockfiles for Git merge-driver usage.
+   */
+  async mergeYarnLockContents(
+    baseContent: string,
+    currentContent: string,
+    otherContent: string
+  ): Promise<ResolutionResult> {
+    const result = this.mergeYarnLockContentsInternal(currentContent, otherContent, baseContent, currentContent)
+    this.rejectUnsafeResolutions(result)
+    return result
+  }
+
+  /**
+   * Resolve conflicts in a pnpm lockfile (lockfileVersion 6 or 9). Importers,
+   * packages and snapshots are merged entry by entry; with `loadManifest`,
+   * importer specifiers are recomputed from the merged package.json files.
+   */
+  async resolvePnpmLockConflicts(content: string, loadManifest?: PnpmManifestLoader): Promise<ResolutionResult> {
+    if (!ConflictParser.hasConflicts(content)) {
+      this.logger.info("No conflicts found")
+      return {resolved: true, conflicts: [], errors: [], content}
+    }
+
+    this.logger.info("Found conflicts, resolving...")
+    const baseContent = ConflictParser.hasBaseSections(content)
+      ? ConflictParser.extractConflictSide(content, "base")
+      : undefined
+    const result = await this.mergePnpmLockContentsInternal(
+      ConflictParser.extractConflictSide(content, "ours"),
+      ConflictParser.extractConflictSide(content, "theirs"),
+      baseContent,
+      content,
+      loadManifest
+    )
+
+    this.labelConflicts(result.conflicts, ConflictParser.parseConflicts(content)[0])
+    if (result.resolved && !this.rejectUnsafeResolutions(result)) {
+      this.logger.success(`Resolved ${result.conflicts.length} conflicts`)
+      this.logger.logConflicts(result.conflicts)
+    } else {
+      result.errors.forEach(errorMsg => this.logger.error(errorMsg))
+    }
+    return result
+  }
+
+  /**
+   * Merge base/current/other pnpm lockfiles for Git merge-driver usage.
+   */
+  async mergePnpmLockContents(
+    baseContent: string,
+    currentContent: string,
+    otherContent: string,
+    loadManifest?: PnpmManifestLoader
+  ): Promise<ResolutionResult> {
+    const result = await this.mergePnpmLockContentsInternal(
+      currentContent,
+      otherContent,
+      baseContent,
+      currentContent,
+      loadManifest
+    )
+    this.rejectUnsafeResolutions(result)
+    return result
+  }
+
+  /**
+   * Resolve conflicts in a text bun lockfile (bun.lock). Workspaces are merged
+   * like package.json files, packages tuple by tuple.
+   */
+  async resolveBunLockConflicts(content: string): Promise<ResolutionResult> {
+    if (!ConflictParser.hasConflicts(content)) {
+      this.logger.info("No conflicts found")
+      return {resolved: true, conflicts: [], errors: [], content}
+    }
+
+    this.logger.info("Found conflicts, resolving...")
+    const baseContent = ConflictParser.hasBaseSections(content)
+      ? ConflictParser.extractConflictSide(content, "base")
+      : undefined
+    const result = this.mergeBunLockContentsInternal(
+      ConflictParser.extractConflictSide(content, "ours"),
+      ConflictParser.extractConflictSide(content, "theirs"),
+      baseContent,
+      content
+    )
+
+    this.labelConflicts(result.conflicts, ConflictParser.parseConflicts(content)[0])
+    if (result.resolved && !this.rejectUnsafeResolutions(result)) {
+      this.logger.success(`Resolved ${result.conflicts.length} conflicts`)
+      this.logger.logConflicts(result.conflicts)
+    } else {
+      result.errors.forEach(errorMsg => this.logger.error(errorMsg))
+    }
+    return result
+  }
+
+  /**
+   * Merge base/current/other bun lockfiles for Git merge-driver usage.
+   */
+  async mergeBunLockContents(
+    baseContent: string,
+    currentContent: string,
+    otherContent: string
+  ): Promise<ResolutionResult> {
+    const result = this.mergeBunLockContentsInternal(currentContent, otherContent, baseContent, currentContent)
+    this.rejectUnsafeResolutions(result)
+    return result
+  }
+
+  /**
+   * With `lockGraph`, check a merged npm lockfile as a dependency graph:
+   * orphaned entries are pruned, and unsatisfied dependency edges or a root
+   * entry that disagrees with `manifest` turn the result into an unresolved
+   * one. Returns true when the result was rejected.
+   */
+  private rejectInconsistentLockGraph(result: ResolutionResult, manifest?: PackageJson): boolean {
+    if (!this.options.lockGraph || !result.resolved || !result.packageJson || !isGraphLockfile(result.packageJson)) {
+      return false
+    }
+
+    const report = reconcileLockfileGraph(result.packageJson, manifest)
+    if (report.pruned.length > 0) {
+      this.logger.info(`Removed ${report.pruned.length} orphaned lockfile entries`, {pruned: report.pruned})
+    }
+
+    const errors = [
+      ...report.unsatisfied.map(edge => `Unsatisfied lockfile dependency: ${formatUnsatisfiedEdge(edge)}`),
+      ...report.rootMismatches.map(
+        mismatch => `Lockfile root disagrees with package.json: ${formatRootMismatch(mismatch)}`
+      ),
+    ]
+    if (errors.length === 0) {
+      return false
+    }
+
+    for (const errorMsg of errors) {
+      this.logger.error(errorMsg)
+      result.errors.push(errorMsg)
+    }
+    result.resolved = false
+    delete result.packageJson
+    return true
+  }
+
+  /**
+   * Validate a merged package.json. Issues are recorded on the result and
+   * logged as warnings; with `strict` they turn the result into an
+   * unresolved one. `sides` are the contents that were merged, so scripts
+   * calling a binary of a removed dependency can be found. Returns true when
+   * the result was rejected.
+   */
+  private rejectInvalidManifest(result: ResolutionResult, sides: string[]): boolean {
+    if (!result.resolved || !result.packageJson || !isManifest(result.packageJson)) {
+      return false
+    }
+
+    const issues = validateManifest(result.packageJson, this.parseSides(sides))
+    if (issues.length === 0) {
+      return false
+    }
+
+    result.manifestIssues = issues
+    if (!this.options.strict) {
+      for (const issue of issues) {
+        this.logger.warn(`Merged package.json: ${formatManifestIssue(issue)}`)
+      }
+      return false
+    }
+
+    for (const issue of issues) {
+      const errorMsg = `Invalid merged package.json: ${formatManifestIssue(issue)}`
+      this.logger.error(errorMsg)
+      result.errors.push(errorMsg)
+    }
+    result.resolved = false
+    delete result.packageJson
+    return true
+  }
+
+  /**
+   * A merge can bump a package in dependencies or devDependencies on one
+   * side while the other side's peerDependencies still require the old
+   * major. Each such mismatch the merge introduced is resolved like a
+   * conflict between the peer range and the installed spec, and both fields
+   * get the result. A mismatch one side already had is intentional and left
+   * alone. `ours` and `theirs` cannot tell which field to keep: the
+   * mismatch is left for the manifest validation to report. Ranges with
+   * nothing in common under `intersect` are hard conflicts.
+   */
+  private alignPeerDependencies(result: ResolutionResult, sides: string[]): void {
+    if (!result.resolved || !result.packageJson || !isManifest(result.packageJson)) {
+      return
+    }
+
+    const manifest = result.packageJson
+    for (const mismatch of findPeerMismatches(manifest, this.parseSides(sides))) {
+      const path = ["peerDependencies", mismatch.name]
+      const choice = this.strategyFor(path)
+      if (choice.strategy === "ours" || choice.strategy === "theirs") {
+        continue
+      }
+
+      const resolution = this.resolveVersionWith(choice, mismatch.peer, mismatch.spec)
+      const installed = `${mismatch.field}.${mismatch.name}`
+      const conflict: ResolvedConflict = {
+        field: this.formatPath(path),
+        path,
+        ourValue: mismatch.peer,
+        theirValue: mismatch.spec,
+        resolvedValue: resolution.resolved,
+        strategy: choice.strategy,
+        confidence: resolution.confidence,
+        reason: `${installed} ${mismatch.spec} is outside the peer range ${mismatch.peer}: both set to ${resolution.resolved}`,
+        kind: "peer-alignment",
+        ...(choice.rule ? {rule: choice.rule.pattern} : {}),
+      }
+      if (resolution.disjoint) {
+        conflict.hardConflict = `peer range ${mismatch.peer} and ${installed} ${mismatch.spec} have no version in common`
+      } else {
+        manifest.peerDependencies![mismatch.name] = resolution.resolved
+        manifest[mismatch.field]![mismatch.name] = resolution.resolved
+      }
+      result.conflicts.push(conflict)
+    }
+  }
+
+  /**
+   * The sides of a merge that parse as JSON objects
+   */
+  private parseSides(sides: string[]): PackageJson[] {
+    return sides.flatMap(side => {
+      try {
+        const document = JSON.parse(side)
+        return this.isPlainObject(document) ? [document as PackageJson] : []
+      } catch {
+        return [] // Block-based sides are not always valid JSON on their own
+      }
+    })
+  }
+
+  /**
+   * Our and their version of a conflicted file
+   */
+  private conflictSides(content: string): string[] {
+    return [ConflictParser.extractConflictSide(content, "ours"), ConflictParser.extractConflictSide(content, "theirs")]
+  }
+
+  /**
+   * Record the marker labels on resolved conflicts. Semantic merges cannot
+   * tie a JSON path to one conflict block, so they take the labels of the
+   * first block: Git writes the same labels on every block of a file.
+   */
+  private labelConflicts(conflicts: ResolvedConflict[], marker: ConflictMarker | undefined): ResolvedConflict[] {
+    for (const conflict of conflicts) {
+      if (marker?.oursLabel !== undefined) conflict.oursLabel = marker.oursLabel
+      if (marker?.baseLabel !== undefined) conflict.baseLabel = marker.baseLabel
+      if (marker?.theirsLabel !== undefined) conflict.theirsLabel = marker.theirsLabel
+    }
+    return conflicts
+  }
+
+  /**
+   * Turn a result into an unresolved one, so the file stays conflicted, when
+   * it contains a hard conflict or (with `failOnUncertain`) a coerced or
+   * fallback resolution. With `interactive`, uncertain resolutions are kept:
+   * the caller reviews the result and prompts for each of them before
+   * anything is written (callers that do not review pass `interactive: false`).
+   * Returns true when the result was rejected.
+   */
+  private rejectUnsafeResolutions(result: ResolutionResult): boolean {
+    if (!result.resolved) {
+      return false
+    }
+
+    const errors: string[] = []
+    for (const conflict of result.conflicts) {
+      if (conflict.hardConflict !== undefined) {
+        errors.push(`Cannot resolve ${conflict.field}: ${conflict.hardConflict}`)
+      } else if (
+        this.options.failOnUncertain &&
+        !this.options.interactive &&
+        VersionResolver.isUncertain(conflict.confidence)
+      ) {
+        errors.push(
+          `Uncertain resolution for ${conflict.field} (${conflict.confidence}): ${conflict.ourValue} vs ${conflict.theirValue}`
+        )
+      }
+    }
+
+    if (errors.length === 0) {
+      return false
+    }
+
+    for (const errorMsg of errors) {
+      this.logger.error(errorMsg)
+      result.errors.push(errorMsg)
+    }
+    result.resolved = false
+    delete result.packageJson
+    delete result.content
+    return true
+  }
+
+  /**
+   * Merge yarn lockfile contents spec by spec. Both sides must have the same
+   * format, and for Berry the same `__metadata` (lockfile version and cache
+   * key, which decides the checksum format). The header and line endings of
+   * `originalContent` are kept.
+   */
+  private mergeYarnLockContentsInternal(
+    ourContent: string,
+    theirContent: string,
+    baseContent: string | undefined,
+    originalContent: string
+  ): ResolutionResult {
+    const result: ResolutionResult = {resolved: false, conflicts: [], errors: []}
+
+    try {
+      const format = detectYarnLockfileFormat(ourContent) ?? "classic"
+      const theirFormat = detectYarnLockfileFormat(theirContent) ?? "classic"
+      if (format !== theirFormat) {
+        throw new Error(
+          `Cannot merge a yarn ${format} lockfile with a yarn ${theirFormat} lockfile: run "yarn install" with the same yarn version on both branches first`
+        )
+      }
+
+      const parse = format === "berry" ? parseYarnBerryLockfile : parseYarnLockfile
+      const ours = parse(ourContent)
+      const theirs = parse(theirContent)
+      const base = baseContent !== undefined && baseContent.trim() !== "" ? parse(baseContent) : undefined
+
+      if (format === "berry") {
+        this.assertSameYarnMetadata(ours, theirs)
+      }
+
+      const entries: Record<string, Record<string, any>> = {}
+      const specs = this.orderedUnion(
+        Object.keys(ours.entries),
+        Object.keys(theirs.entries),
+        Object.keys(base?.entries || {})
+      )
+      for (const spec of specs) {
+        const merged = this.mergeLockEntryAtomically(
+          [spec],
+          yarnSpecPackageName(spec),
+          base?.entries[spec],
+          ours.entries[spec],
+          theirs.entries[spec]
+        )
+        if (merged.value !== undefined) {
+          entries[spec] = merged.value
+        }
+        result.conflicts.push(...merged.conflicts)
+      }
+
+      const merged: YarnLockfile = {...ours, entries}
+      const content = format === "berry" ? stringifyYarnBerryLockfile(merged) : stringifyYarnLockfile(merged)
+      result.content = originalContent.includes("\r\n") ? content.replace(/\n/g, "\r\n") : content
+      result.resolved = true
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : String(error))
+    }
+
+    return result
+  }
+
+  /**
+   * Entries of Berry lockfiles with a different lockfile version or cache key
+   * cannot be mixed: Berry would reject the other side's checksums.
+   */
+  private assertSameYarnMetadata(ours: YarnLockfile, theirs: YarnLockfile): void {
+    for (const field of ["version", "cacheKey"]) {
+      const ourValue = ours.metadata?.[field]
+      const theirValue = theirs.metadata?.[field]
+      if (ourValue !== theirValue) {
+        throw new Error(
+          `Cannot merge yarn.lock __metadata.${field} ${ourValue} with ${theirValue}: run "yarn install" with the same yarn version on both branches first`
+        )
+      }
+    }
+  }
+
+  /**
+   * Merge pnpm lockfile contents. Both sides must have the same
+   * lockfileVersion. Entries of `packages` and `snapshots` that the merge left
+   * unreachable are dropped, unless both sides still have them.
+   */
+  private async mergePnpmLockContentsInternal(
+    ourContent: string,
+    theirContent: string,
+    baseContent: string | undefined,
+    originalContent: string,
+    loadManifest?: PnpmManifestLoader
+  ): Promise<ResolutionResult> {
+    const result: ResolutionResult = {resolved: false, conflicts: [], errors: []}
+
+    try {
+      const ours = parsePnpmLockfile(ourContent)
+      const theirs = parsePnpmLockfile(theirContent)
+      const base = baseContent !== undefined && baseContent.trim() !== "" ? parsePnpmLockfile(baseContent) : undefined
+
+      if (String(ours.lockfileVersion) !== String(theirs.lockfileVersion)) {
+        throw new Error(
+          `Cannot merge pnpm lockfileVersion ${ours.lockfileVersion} with lockfileVersion ${theirs.lockfileVersion}: run "pnpm install" with the same pnpm version on both branches first`
+        )
+      }
+      if (!PNPM_LOCKFILE_VERSIONS.includes(pnpmLockfileMajor(ours))) {
+        throw new Error(
+          `Unsupported pnpm lockfileVersion ${ours.lockfileVersion}: only lockfileVersion ${PNPM_LOCKFILE_VERSIONS.join(" and ")} can be merged`
+        )
+      }
+
+      const merged: Record<string, any> = {}
+      for (const key of this.orderedUnion(Object.keys(ours), Object.keys(theirs), Object.keys(base || {}))) {
+        const outcome = this.mergePnpmSection(key, base?.[key], ours[key], theirs[key])
+        if (outcome.value !== undefined) {
+          merged[key] = outcome.value
+        }
+        result.conflicts.push(...outcome.conflicts)
+      }
+
+      if (loadManifest) {
+        await this.syncPnpmImporters(merged, [ours, theirs], loadManifest)
+      }
+      this.prunePnpmEntries(merged, ours, theirs)
+
+      const content = stringifyPnpmLockfile(merged)
+      result.content = originalContent.includes("\r\n") ? content.replace(/\n/g, "\r\n") : content
+      result.resolved = true
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : String(error))
+    }
+
+    return result
+  }
+
+  /**
+   * Merge one top-level section of a pnpm lockfile. Importers are merged per
+   * dependency, packages and snapshots per entry.
+   */
+  private mergePnpmSection(key: string, baseValue: any, ourValue: any, theirValue: any): MergeOutcome {
+    if (key === "importers") {
+      return this.mergeSortedLockEntries([key], baseValue, ourValue, theirValue, (path, b, o, t) =>
+        this.mergePnpmImporter(path, b, o, t)
+      )
+    }
+    if (key === "packages" || key === "snapshots") {
+      return this.mergeSortedLockEntries([key], baseValue, ourValue, theirValue, (path, b, o, t) =>
+        this.mergeLockEntryAtomically(path, pnpmKeyPackageName(path[1]!), b, o, t)
+      )
+    }
+    // lockfileVersion 6 keeps the dependencies of a single project at the top level
+    if ((PNPM_IMPORTER_FIELDS as readonly string[]).includes(key)) {
+      return this.mergeSortedLockEntries([key], baseValue, ourValue, theirValue, (path, b, o, t) =>
+        this.mergeLockEntryAtomically(path, path[path.length - 1], b, o, t)
+      )
+    }
+    return this.mergeValue([key], baseValue, ourValue, theirValue)
+  }
+
+  /**
+   * Merge an importer: its dependency maps entry by entry ({specifier,
+   * version} pairs stay atomic), anything else as plain values.
+   */
+  private mergePnpmImporter(path: string[], baseValue: any, ourValue: any, theirValue: any): MergeOutcome {
+    if (!this.isPlainObject(ourValue) || !this.isPlainObject(theirValue)) {
+      return this.mergeLockEntryAtomically(path, undefined, baseValue, ourValue, theirValue)
+    }
+
+    const importer: Record<string, any> = {}
+    const conflicts: ResolvedConflict[] = []
+    for (const key of this.orderedUnion(Object.keys(ourValue), Object.keys(theirValue), Object.keys(baseValue || {}))) {
+      const outcome = (PNPM_IMPORTER_FIELDS as readonly string[]).includes(key)
+        ? this.mergeSortedLockEntries(
+            [...path, key],
+            baseValue?.[key],
+            ourValue[key],
+            theirValue[key],
+            (entryPath, b, o, t) => this.mergeLockEntryAtomically(entryPath, entryPath[entryPath.length - 1], b, o, t)
+          )
+        : this.mergeValue([...path, key], baseValue?.[key], ourValue[key], theirValue[key])
+      if (outcome.value !== undefined) {
+        importer[key] = outcome.value
+      }
+      conflicts.push(...outcome.conflicts)
+    }
+    return {value: importer, conflicts}
+  }
+
+  /**
+   * Merge a map of lockfile entries key by key. pnpm and bun sort these maps,
+   * so the merged one is sorted too.
+   */
+  private mergeSortedLockEntries(
+    path: string[],
+    baseValue: any,
+    ourValue: any,
+    theirValue: any,
+    mergeEntry: (path: string[], baseValue: any, ourValue: any, theirValue: any) => MergeOutcome
+  ): MergeOutcome {
+    if (ourValue === undefined && theirValue === undefined) {
+      return {value: undefined, conflicts: []}
+    }
+
+    const entries: Record<string, any> = {}
+    const conflicts: ResolvedConflict[] = []
+    const keys = this.orderedUnion(
+      Object.keys(ourValue || {}),
+      Object.keys(theirValue || {}),
+      Object.keys(baseValue || {})
+    )
+    for (const key of keys.sort()) {
+      const outcome = mergeEntry([...path, key], baseValue?.[key], ourValue?.[key], theirValue?.[key])
+      if (outcome.value !== undefined) {
+        entries[key] = outcome.value
+      }
+      conflicts.push(...outcome.conflicts)
+    }
+    return {value: entries, conflicts}
+  }
+
+  /**
+   * Recompute importer specifiers from the merged package.json files. A
+   * dependency keeps the entry of the side whose specifier matches; entries
+   * package.json no longer declares are dropped. Dependencies neither side
+   * locked for the merged specifier are reported: pnpm has to resolve them.
+   */
+  private async syncPnpmImporters(
+    merged: Record<string, any>,
+    sides: Record<string, any>[],
+    loadManifest: PnpmManifestLoader
+  ): Promise<void> {
+    for (const [importerId, importer] of Object.entries(pnpmImporters(merged))) {
+      const manifest = await loadManifest(importerId)
+      if (!manifest) continue
+
+      for (const field of PNPM_IMPORTER_FIELDS) {
+        const declared: Record<string, string> = this.isPlainObject(manifest[field]) ? manifest[field] : {}
+        const locked: Record<string, any> = importer[field] || {}
+        const synced: Record<string, any> = {}
+
+        for (const name of Object.keys(declared).sort()) {
+          const specifier = declared[name]!
+          const candidates = [locked[name], ...sides.map(side => pnpmImporters(side)[importerId]?.[field]?.[name])]
+          const match = candidates.find(entry => entry?.specifier === specifier)
+          if (match) {
+            synced[name] = match
+            continue
+          }
+
+          const version = this.lockEntryVersion(locked[name])
+          if (version === undefined) {
+            this.logger.warn(`${importerId}: ${name}@${specifier} is not in pnpm-lock.yaml, run "pnpm install"`)
+            continue
+          }
+          synced[name] = {...locked[name], specifier}
+          if (semver.valid(version) === null || !semver.satisfies(version, specifier, {loose: true})) {
+            this.logger.warn(
+              `${importerId}: ${name}@${specifier} is locked at ${version}, run "pnpm install" to update it`
+            )
+          }
+        }
+
+        if (Object.keys(synced).length > 0) {
+          importer[field] = synced
+        } else {
+          delete importer[field]
+        }
+      }
+    }
+  }
+
+  /**
+   * Drop `packages` and `snapshots` entries no importer reaches any more.
+   * Entries both sides have are kept whatever the graph says.
+   */
+  private prunePnpmEntries(merged: Record<string, any>, ours: Record<string, any>, theirs: Record<string, any>): void {
+    const reachable = reachablePnpmEntries(merged)
+    const pruned: string[] = []
+
+    for (const section of ["packages", "snapshots"]) {
+      const entries: Record<string, any> | undefined = merged[section]
+      if (!this.isPlainObject(entries)) continue
+
+      for (const key of Object.keys(entries)) {
+        if (reachable.has(key) || (ours[section]?.[key] !== undefined && theirs[section]?.[key] !== undefined)) {
+          continue
+        }
+        delete entries[key]
+        pruned.push(`${section}/${key}`)
+      }
+    }
+
+    if (pruned.length > 0) {
+      this.logger.info(`Removed ${pruned.length} unreferenced pnpm-lock.yaml entries`, {pruned})
+    }
+  }
+
+  /**
+   * Merge bun.lock contents. Both sides must have the same lockfileVersion.
+   * A `packages` tuple (version, registry, metadata, integrity) is resolved
+   * atomically; everything else merges like JSON.
+   */
+  private mergeBunLockContentsInternal(
+    ourContent: string,
+    theirContent: string,
+    baseContent: string | undefined,
+    originalContent: string
+  ): ResolutionResult {
+    const result: ResolutionResult = {resolved: false, conflicts: [], errors: []}
+
+    try {
+      const ours = parseBunLockfile(ourContent)
+      const theirs = parseBunLockfile(theirContent)
+      const base = baseContent !== undefined && baseContent.trim() !== "" ? parseBunLockfile(baseContent) : undefined
+
+      if (ours.lockfileVersion !== theirs.lockfileVersion) {
+        throw new Error(
+          `Cannot merge bun.lock lockfileVersion ${ours.lockfileVersion} with lockfileVersion ${theirs.lockfileVersion}: run "bun install" with the same bun version on both branches first`
+        )
+      }
+
+      const merged: Record<string, any> = {}
+      for (const key of this.orderedUnion(Object.keys(ours), Object.keys(theirs), Object.keys(base || {}))) {
+        const outcome =
+          key === "packages"
+            ? this.mergeSortedLockEntries([key], base?.[key], ours[key], theirs[key], (path, b, o, t) =>
+                this.mergeLockEntryAtomically(path, bunPackageName(o ?? t), b, o, t, bunPackageVersion)
+              )
+            : this.mergeValue([key], base?.[key], ours[key], theirs[key])
+        if (outcome.value !== undefined) {
+          merged[key] = outcome.value
+        }
+        result.conflicts.push(...outcome.conflicts)
+      }
+
+      const content = stringifyBunLockfile(merged)
+      result.content = originalContent.includes("\r\n") ? content.replace(/\n/g, "\r\n") : content
+      result.resolved = true
+    } catch (error) {
+      result.errors.push(error instanceof Error ? error.message : String(error))
+    }
+
+    return result
+  }
+
+  /**
+   * Merge one lockfile entry (a yarn.lock spec, a pnpm importer dependency or
+   * package). An entry is resolved atomically: version, resolution, integrity
+   * and dependencies always come from one side.
+   */
+  private mergeLockEntryAtomically(
+    path: string[],
+    packageName: string | undefined,
+    baseValue: any,
+    ourValue: any,
+    theirValue: any,
+    versionOf: (entry: any) => string | undefined = entry => this.lockEntryVersion(entry)
+  ): MergeOutcome {
+    if (this.isUnchangedFromBase(ourValue, baseValue)) {
+      return {value: theirValue, conflicts: []}
+    }
+    if (this.isUnchangedFromBase(theirValue, baseValue)) {
+      return {value: ourValue, conflicts: []}
+    }
+    if (ourValue === undefined || theirValue === undefined || isDeepStrictEqual(ourValue, theirValue)) {
+      return {value: ourValue ?? theirValue, conflicts: []}
+    }
+
+    const choice = this.strategyFor(path, packageName)
+    const ourVersion = versionOf(ourValue)
+    const theirVersion = versionOf(theirValue)
+    let winner: any
+    let decision: {reason: string; confidence: ResolutionConfidence}
+    if (ourVersion !== undefined && theirVersion !== undefined && ourVersion !== theirVersion) {
+      const versionDecision = this.resolveLockEntryVersion(choice, ourVersion, theirVersion)
+      winner = versionDecision.theirs ? theirValue : ourValue
+      decision = versionDecision
+    } else {
+      // Same version with different metadata (e.g. another registry): nothing to compare
+      const strategy = choice.strategy === "pin" ? this.options.strategy : choice.strategy
+      const resolution = VersionResolver.resolveNonVersion(ourValue, theirValue, strategy)
+      winner = resolution.resolved
+      decision = resolution
+    }
+
+    return {
+      value: winner,
+      conflicts: [this.createConflictRecord(path, baseValue, ourValue, theirValue, winner, decision, choice)],
+    }
+  }
+
+  /**
+   * Version of a lockfile entry, without the peer suffix pnpm appends
+   * ("18.2.0(react@18.2.0)")
+   */
+  private lockEntryVersion(entry: any): string | undefined {
+    return typeof entry?.version === "string" ? entry.version.replace(/\(.*$/, "") : undefined
   }
 
   /**
@@ -188,7 +998,18 @@ export class PackageResolver {
         throw new Error("Expected base document to be a JSON object")
       }
 
-      const merged = this.mergeValue([], baseDocument, ourDocument, theirDocument)
+      const formatError = this.lockfileVersionMismatch(ourDocument.lockfileVersion, theirDocument.lockfileVersion)
+      if (formatError) {
+        throw new Error(formatError)
+      }
+
+      this.twoWayMerge = baseDocument === undefined
+      let merged: MergeOutcome
+      try {
+        merged = this.mergeValue([], baseDocument, ourDocument, theirDocument)
+      } finally {
+        this.twoWayMerge = false
+      }
       result.conflicts = merged.conflicts
       result.packageJson = this.finalizeMergedDocument(merged.value)
       result.resolved = true
@@ -255,8 +1076,8 @@ export class PackageResolver {
     // For dependency conflicts, ourData and theirData should be the parsed dependency objects
     // But they might be individual dependency lines, so we need to handle both cases
 
-    let ourDeps: Record<string, string> = {}
-    let theirDeps: Record<string, string> = {}
+    let ourDeps: Record<string, any> = {}
+    let theirDeps: Record<string, any> = {}
 
     // If the data is already an object with the field name, extract it
     if (this.isPlainObject(ourData) && ourData[fieldName]) {
@@ -278,7 +1099,12 @@ export class PackageResolver {
     }
 
     // Merge dependencies, resolving version conflicts while preserving order
-    const merged: Record<string, string> = {}
+    const merged: Record<string, any> = {}
+    const strategies = new Set<string>()
+    const matchedRules = new Set<string>()
+    const reasons: string[] = []
+    const confidences: ResolutionConfidence[] = []
+    const hardConflicts: string[] = []
 
     // First add all our dependencies in their original order
     for (const packageName of Object.keys(ourDeps)) {
@@ -299,15 +1125,36 @@ export class PackageResolver {
         const ourVersion = merged[packageName]
         // At this point we know theirVersion is defined (checked above)
         // and ourVersion must be defined since it's in merged
-        if (ourVersion !== theirVersion) {
-          // Version conflict - resolve using strategy
+        if (
+          this.isLockPackageEntry(ourVersion, [fieldName, packageName]) &&
+          this.isLockPackageEntry(theirVersion, [fieldName, packageName])
+        ) {
+          // Lockfile v1 tree entries are kept whole, like node_modules entries
+          if (isDeepStrictEqual(ourVersion, theirVersion)) continue
+          const choice = this.strategyFor([fieldName, packageName])
+          const decision = this.resolveLockEntryVersion(choice, ourVersion.version, theirVersion.version)
+          merged[packageName] = decision.theirs ? theirVersion : ourVersion
+          strategies.add(choice.strategy)
+          confidences.push(decision.confidence)
+          reasons.push(`${packageName}: ${decision.reason}`)
+          if (choice.rule) {
+            matchedRules.add(choice.rule.pattern)
+          }
+        } else if (ourVersion !== theirVersion) {
+          // Version conflict - resolve using the strategy for this package
           // We know both versions are defined at this point
-          const resolution = VersionResolver.resolveVersion(
-            ourVersion as string,
-            theirVersion as string,
-            this.options.strategy
-          )
+          const choice = this.strategyFor([fieldName, packageName])
+          const resolution = this.resolveVersionWith(choice, ourVersion as string, theirVersion as string)
           merged[packageName] = resolution.resolved
+          strategies.add(choice.strategy)
+          confidences.push(resolution.confidence)
+          reasons.push(`${packageName}: ${resolution.reason}`)
+          if (resolution.disjoint) {
+            hardConflicts.push(`${packageName}: ${resolution.reason}`)
+          }
+          if (choice.rule) {
+            matchedRules.add(choice.rule.pattern)
+          }
         }
       }
     }
@@ -317,7 +1164,11 @@ export class PackageResolver {
       ourValue: JSON.stringify(ourDeps, null, 2),
       theirValue: JSON.stringify(theirDeps, null, 2),
       resolvedValue: JSON.stringify(merged, null, 2),
-      strategy: this.options.strategy,
+      strategy: this.combinedStrategy(strategies),
+      confidence: VersionResolver.leastConfident(confidences),
+      ...(reasons.length > 0 ? {reason: reasons.join("; ")} : {}),
+      ...(matchedRules.size > 0 ? {rule: [...matchedRules].join(", ")} : {}),
+      ...(hardConflicts.length > 0 ? {hardConflict: hardConflicts.join("; ")} : {}),
     }
   }
 
@@ -339,20 +1190,27 @@ export class PackageResolver {
       this.isLockPackageEntry(theirData) &&
       ourData.version !== theirData.version
     ) {
-      const resolution = VersionResolver.resolveVersion(ourData.version, theirData.version, this.options.strategy)
-      const winner = resolution.resolved === theirData.version ? theirData : ourData
-
+      const choice = this.strategyFor(["packages", fieldName])
+      const decision = this.resolveLockEntryVersion(choice, ourData.version, theirData.version)
+      const winner = decision.theirs ? theirData : ourData
       return {
         field: fieldName,
         ourValue: JSON.stringify(ourData, null, 2),
         theirValue: JSON.stringify(theirData, null, 2),
         resolvedValue: JSON.stringify(winner, null, 2),
-        strategy: this.options.strategy,
+        strategy: choice.strategy,
+        confidence: decision.confidence,
+        reason: decision.reason,
+        ...(choice.rule ? {rule: choice.rule.pattern} : {}),
       }
     }
 
     // Merge node_modules entry, resolving field conflicts
     const merged: Record<string, any> = {}
+    const strategies = new Set<string>()
+    const matchedRules = new Set<string>()
+    const confidences: ResolutionConfidence[] = []
+    const reasons: string[] = []
     const allKeys = new Set([...Object.keys(ourData), ...Object.keys(theirData)])
 
     for (const key of allKeys) {
@@ -361,15 +1219,19 @@ export class PackageResolver {
 
       if (ourValue !== undefined && theirValue !== undefined && ourValue !== theirValue) {
         // Field conflict - resolve based on field type
-        if (key === "version") {
-          // Version conflict - use version resolution strategy
-          const resolution = VersionResolver.resolveVersion(ourValue, theirValue, this.options.strategy)
-          merged[key] = resolution.resolved
-        } else {
-          // Other fields - use strategy-based resolution
-          const resolution = VersionResolver.resolveNonVersion(ourValue, theirValue, this.options.strategy)
-          merged[key] = resolution.resolved
+        const choice = this.strategyFor(["packages", fieldName, key])
+        // Version conflicts use version resolution, other fields strategy-based resolution
+        const resolution =
+          key === "version"
+            ? this.resolveVersionWith(this.concreteVersionChoice(choice), ourValue, theirValue)
+            : this.resolveNonVersionWith(choice, ourValue, theirValue)
+        merged[key] = resolution.resolved
+        strategies.add(choice.strategy)
+        if (choice.rule) {
+          matchedRules.add(choice.rule.pattern)
         }
+        confidences.push(resolution.confidence)
+        reasons.push(`${key}: ${resolution.reason}`)
       } else {
         // No conflict - use whichever exists
         merged[key] = ourValue !== undefined ? ourValue : theirValue
@@ -381,7 +1243,10 @@ export class PackageResolver {
       ourValue: JSON.stringify(ourData, null, 2),
       theirValue: JSON.stringify(theirData, null, 2),
       resolvedValue: JSON.stringify(merged, null, 2),
-      strategy: this.options.strategy,
+      strategy: this.combinedStrategy(strategies),
+      confidence: VersionResolver.leastConfident(confidences),
+      ...(reasons.length > 0 ? {reason: reasons.join("; ")} : {}),
+      ...(matchedRules.size > 0 ? {rule: [...matchedRules].join(", ")} : {}),
     }
   }
 
@@ -433,21 +1298,35 @@ export class PackageResolver {
     const ourComparable = this.unquoteJsonToken(ourValue)
     const theirComparable = this.unquoteJsonToken(theirValue)
 
-    let winnerIsTheirs: boolean
-    if (fieldName === "version") {
-      const resolution = VersionResolver.resolveVersion(ourComparable, theirComparable, this.options.strategy)
-      winnerIsTheirs = resolution.resolved === theirComparable && ourComparable !== theirComparable
-    } else {
-      const resolution = VersionResolver.resolveNonVersion(ourComparable, theirComparable, this.options.strategy)
-      winnerIsTheirs = String(resolution.resolved) === theirComparable && ourComparable !== theirComparable
+    const choice = this.strategyFor([fieldName])
+    if (choice.strategy === "pin" && choice.rule?.version !== undefined) {
+      return {
+        field: fieldName,
+        ourValue,
+        theirValue,
+        resolvedValue: JSON.stringify(choice.rule.version),
+        strategy: choice.strategy,
+        confidence: "exact",
+        reason: `pinned to ${choice.rule.version} by rule "${choice.rule.pattern}"`,
+        rule: choice.rule.pattern,
+      }
     }
 
+    const resolution =
+      fieldName === "version"
+        ? this.resolveVersionWith(this.concreteVersionChoice(choice), ourComparable, theirComparable)
+        : this.resolveNonVersionWith(choice, ourComparable, theirComparable)
+    const winnerIsTheirs = String(resolution.resolved) === theirComparable && ourComparable !== theirComparable
+
     return {
       field: fieldName,
       ourValue,
       theirValue,
       resolvedValue: winnerIsTheirs ? theirValue : ourValue,
-      strategy: this.options.strategy,
+      strategy: choice.strategy,
+      confidence: resolution.confidence,
+      reason: resolution.reason,
+      ...(choice.rule ? {rule: choice.rule.pattern} : {}),
     }
   }
 
@@ -478,7 +1357,7 @@ export class PackageResolver {
             const [key, value] = entry
             const isLast = i === entries.length - 1
             const comma = isLast ? "" : ","
-            lines.push(`    "${key}": "${value}"${comma}`)
+            lines.push(`    "${key}": ${JSON.stringify(value)}${comma}`)
           }
         }
 
@@ -559,8 +1438,13 @@ export class PackageResolver {
    * Write resolved package.json to file
    */
   async writeResolvedPackage(packageJson: PackageJson, filePath: string, originalContent?: string): Promise<void> {
-    const content = this.serializeDocument(packageJson, originalContent)
+    await this.writeResolvedContent(this.serializeDocument(packageJson, originalContent), filePath)
+  }
 
+  /**
+   * Write an already serialized resolved file (non-JSON lockfiles)
+   */
+  async writeResolvedContent(content: string, filePath: string): Promise<void> {
     if (this.options.dryRun) {
       this.logger.info(`Would write resolved file to ${filePath}`)
     } else {
@@ -604,6 +1488,17 @@ export class PackageResolver {
       return {value: undefined, conflicts: []}
     }
 
+    // Without a base, a dependency only one side declares was either added on
+    // that side or deleted on the other: keep it, but report it
+    if (this.twoWayMerge && (ourValue === undefined || theirValue === undefined) && this.isRangePath(path)) {
+      const value = ourValue ?? theirValue
+      const conflict = this.createConflictRecord(path, undefined, ourValue, theirValue, value, {
+        reason: "only one side has it: added there, or deleted on the other",
+        confidence: "fallback",
+      })
+      return {value, conflicts: [{...conflict, kind: "added-or-deleted"}]}
+    }
+
     const preferStrategyResolution = this.shouldResolveAsVersion(path, ourValue, theirValue)
 
     if (!preferStrategyResolution && this.isUnchangedFromBase(ourValue, baseValue)) {
@@ -629,11 +1524,11 @@ export class PackageResolver {
     // Lockfile package entries must stay internally consistent: version, resolved
     // and integrity belong together, so never merge them field-by-field.
     if (
-      this.isLockPackageEntry(ourValue) &&
-      this.isLockPackageEntry(theirValue) &&
+      this.isLockPackageEntry(ourValue, path) &&
+      this.isLockPackageEntry(theirValue, path) &&
       ourValue.version !== theirValue.version
     ) {
-      return this.mergeLockPackageEntry(path, ourValue, theirValue)
+      return this.mergeLockPackageEntry(path, baseValue, ourValue, theirValue)
     }
 
     if (this.isPlainObject(ourValue) && this.isPlainObject(theirValue)) {
@@ -644,7 +1539,7 @@ export class PackageResolver {
       return this.mergeArrayValues(path, baseValue, ourValue, theirValue)
     }
 
-    return this.resolveLeafConflict(path, ourValue, theirValue)
+    return this.resolveLeafConflict(path, baseValue, ourValue, theirValue)
   }
 
   private mergeObjectValues(
@@ -678,7 +1573,9 @@ export class PackageResolver {
       }
     }
 
-    if (ourValue.every(this.isPrimitiveValue) && theirValue.every(this.isPrimitiveValue)) {
+    // Primitive arrays merge as a union unless a field rule picks a side
+    const choice = this.strategyFor(path)
+    if (!choice.rule && ourValue.every(this.isPrimitiveValue) && theirValue.every(this.isPrimitiveValue)) {
       const mergedArray = [...ourValue]
       for (const item of theirValue) {
         if (!mergedArray.some(existing => isDeepStrictEqual(existing, item))) {
@@ -688,60 +1585,270 @@ export class PackageResolver {
 
       return {
         value: mergedArray,
-        conflicts: [this.createConflictRecord(path, ourValue, theirValue, mergedArray)],
+        conflicts: [
+          this.createConflictRecord(path, baseValue, ourValue, theirValue, mergedArray, {
+            reason: "union of both arrays",
+            confidence: "exact",
+          }),
+        ],
       }
     }
 
-    return this.resolveLeafConflict(path, ourValue, theirValue)
+    return this.resolveLeafConflict(path, baseValue, ourValue, theirValue)
   }
 
   /**
    * A package-lock entry: has a string version plus resolved/integrity metadata.
+   * Entries of a lockfile v1 `dependencies` tree only need the version (bundled
+   * and linked entries have no tarball), since their nested `dependencies` and
+   * `requires` must move with it.
    */
-  private isLockPackageEntry(value: any): value is Record<string, any> {
+  private isLockPackageEntry(value: any, path?: string[]): value is Record<string, any> {
     return (
       this.isPlainObject(value) &&
       typeof value.version === "string" &&
-      (typeof value.resolved === "string" || typeof value.integrity === "string")
+      (typeof value.resolved === "string" ||
+        typeof value.integrity === "string" ||
+        (path !== undefined && this.isLockTreeEntryPath(path)))
     )
   }
 
+  /**
+   * Whether a path addresses an entry of a lockfile v1 `dependencies` tree:
+   * `dependencies.<name>`, nested as `dependencies.<name>.dependencies.<name>`.
+   * In package.json the same paths hold range strings, never entry objects.
+   */
+  private isLockTreeEntryPath(path: string[]): boolean {
+    return path.length >= 2 && path.length % 2 === 0 && path.every((key, i) => i % 2 === 1 || key === "dependencies")
+  }
+
+  /**
+   * Whether a path addresses a dependency range: an entry of a dependency
+   * map, or of the `requires` map of a lockfile v1 entry
+   */
+  private isRangePath(path: string[]): boolean {
+    const parentKey = path[path.length - 2]
+    if (parentKey === "requires") {
+      return this.isLockTreeEntryPath(path.slice(0, -2))
+    }
+    return this.isDependencyField(parentKey || "")
+  }
+
+  /**
+   * Lockfiles of different formats (lockfileVersion 1, 2, 3) cannot be merged
+   * entry by entry. Returns the error to report when both sides declare a
+   * different lockfileVersion.
+   */
+  private lockfileVersionMismatch(ourVersion: unknown, theirVersion: unknown): string | undefined {
+    if (ourVersion === undefined || theirVersion === undefined || ourVersion === theirVersion) {
+      return undefined
+    }
+    return `Cannot merge lockfileVersion ${ourVersion} with lockfileVersion ${theirVersion}: regenerate the lockfile with the same npm version on both branches first`
+  }
+
+  /**
+   * Top-level lockfileVersion of a conflict side, read from the text since
+   * the side may not be valid JSON
+   */
+  private extractLockfileVersion(content: string): number | undefined {
+    const match = content.match(/^\s*"lockfileVersion"\s*:\s*(\d+)/m)
+    return match ? Number(match[1]) : undefined
+  }
+
   /**
    * Resolve a lockfile entry conflict atomically: pick the side whose version
    * wins under the strategy and keep all of its correlated fields together.
    */
   private mergeLockPackageEntry(
     path: string[],
+    baseValue: any,
     ourValue: Record<string, any>,
     theirValue: Record<string, any>
   ): MergeOutcome {
-    const resolution = VersionResolver.resolveVersion(ourValue.version, theirValue.version, this.options.strategy)
-    const winner = resolution.resolved === theirValue.version ? theirValue : ourValue
+    const choice = this.strategyFor(path)
+    const decision = this.resolveLockEntryVersion(choice, ourValue.version, theirValue.version)
+    const winner = decision.theirs ? theirValue : ourValue
 
     return {
       value: winner,
-      conflicts: [this.createConflictRecord(path, ourValue, theirValue, winner)],
+      conflicts: [this.createConflictRecord(path, baseValue, ourValue, theirValue, winner, decision, choice)],
+    }
+  }
+
+  private resolveLeafConflict(path: string[], baseValue: any, ourValue: any, theirValue: any): MergeOutcome {
+    const choice = this.strategyFor(path)
+    const isRange = this.isRangePath(path)
+    const resolution: {resolved: any; reason: string; confidence: ResolutionConfidence; disjoint?: boolean} =
+      this.shouldResolveAsVersion(path, ourValue, theirValue)
+        ? this.resolveVersionWith(
+            isRange ? choice : this.concreteVersionChoice(choice),
+            String(ourValue),
+            String(theirValue)
+          )
+        : this.resolveNonVersionWith(choice, ourValue, theirValue)
+
+    const conflict = this.createConflictRecord(
+      path,
+      baseValue,
+      ourValue,
+      theirValue,
+      resolution.resolved,
+      resolution,
+      choice
+    )
+    if (resolution.disjoint) {
+      conflict.hardConflict = resolution.reason
+    }
+
+    return {value: resolution.resolved, conflicts: [conflict]}
+  }
+
+  /**
+   * Strategy to record for a block that merged several entries: the one they
+   * all used, "mixed" when config rules picked different ones, or the global
+   * strategy when nothing had to be decided
+   */
+  private combinedStrategy(strategies: Set<string>): string {
+    if (strategies.size > 1) {
+      return "mixed"
+    }
+    return [...strategies][0] ?? this.options.strategy
+  }
+
+  /**
+   * Pick the strategy for a path. A config rule matching the package name
+   * (dependency entries and lockfile `node_modules/...` entries, or the one
+   * passed for yarn.lock specs) is the most specific, then a rule matching
+   * the JSON path, then the global strategy.
+   */
+  private strategyFor(path: string[], packageName = this.packageNameFromPath(path)): StrategyChoice {
+    const rule =
+      (packageName !== undefined ? findPackageRule(this.options.config, packageName) : undefined) ||
+      findFieldRule(this.options.config, path)
+    return rule ? {strategy: rule.strategy, rule} : {strategy: this.options.strategy}
+  }
+
+  /**
+   * Resolve a version spec conflict under a strategy choice. Pinned packages
+   * always get the rule's version, whatever either side declared.
+   */
+  private resolveVersionWith(choice: StrategyChoice, ourVersion: string, theirVersion: string): VersionResolution {
+    if (choice.strategy === "pin" && choice.rule?.version !== undefined) {
+      return {
+        resolved: choice.rule.version,
+        reason: `pinned to ${choice.rule.version} by rule "${choice.rule.pattern}"`,
+        confidence: "exact",
+      }
+    }
+
+    const strategy = choice.strategy === "pin" ? this.options.strategy : choice.strategy
+    return VersionResolver.resolveVersion(ourVersion, theirVersion, strategy)
+  }
+
+  /**
+   * Resolve a non-version conflict under a strategy choice
+   */
+  private resolveNonVersionWith(
+    choice: StrategyChoice,
+    ourValue: any,
+    theirValue: any
+  ): {resolved: any; reason: string; confidence: ResolutionConfidence} {
+    if (choice.strategy === "pin" && choice.rule?.version !== undefined) {
+      return {
+        resolved: choice.rule.version,
+        reason: `pinned to ${choice.rule.version} by rule "${choice.rule.pattern}"`,
+        confidence: "exact",
+      }
     }
+
+    const strategy = choice.strategy === "pin" ? this.options.strategy : choice.strategy
+    return VersionResolver.resolveNonVersion(ourValue, theirValue, strategy)
   }
 
-  private resolveLeafConflict(path: string[], ourValue: any, theirValue: any): MergeOutcome {
-    const resolution = this.shouldResolveAsVersion(path, ourValue, theirValue)
-      ? VersionResolver.resolveVersion(String(ourValue), String(theirValue), this.options.strategy)
-      : VersionResolver.resolveNonVersion(ourValue, theirValue, this.options.strategy)
+  /**
+   * Decide which side of a lockfile entry wins (`theirs` is true for theirs).
+   * A lock entry holds a concrete version, so a pin rule keeps the side that
+   * satisfies the pinned range (falling back to the global strategy).
+   */
+  private resolveLockEntryVersion(
+    choice: StrategyChoice,
+    ourVersion: string,
+    theirVersion: string
+  ): {theirs: boolean; reason: string; confidence: ResolutionConfidence} {
+    if (choice.strategy === "pin" && choice.rule?.version !== undefined) {
+      const pinned = choice.rule.version
+      const ourSatisfies = semver.valid(ourVersion) !== null && semver.satisfies(ourVersion, pinned, {loose: true})
+      const theirSatisfies =
+        semver.valid(theirVersion) !== null && semver.satisfies(theirVersion, pinned, {loose: true})
+      if (ourSatisfies !== theirSatisfies) {
+        const [side, version] = theirSatisfies ? ["their", theirVersion] : ["our", ourVersion]
+        return {
+          theirs: theirSatisfies,
+          reason: `${side} version ${version} satisfies ${pinned} pinned by rule "${choice.rule.pattern}"`,
+          confidence: "exact",
+        }
+      }
+    }
 
+    const resolution = this.resolveVersionWith(
+      this.concreteVersionChoice(choice.strategy === "pin" ? {strategy: this.options.strategy} : choice),
+      ourVersion,
+      theirVersion
+    )
     return {
-      value: resolution.resolved,
-      conflicts: [this.createConflictRecord(path, ourValue, theirValue, resolution.resolved)],
+      theirs: resolution.resolved === theirVersion && ourVersion !== theirVersion,
+      reason: resolution.reason,
+      confidence: resolution.confidence,
+    }
+  }
+
+  /**
+   * Concrete versions (a package's own version, lockfile entries) have no
+   * range to intersect: the intersect strategy resolves them as highest.
+   */
+  private concreteVersionChoice(choice: StrategyChoice): StrategyChoice {
+    return choice.strategy === "intersect" ? {...choice, strategy: "highest"} : choice
+  }
+
+  /**
+   * Package name addressed by a path: the key of a dependency map entry
+   * (including the lockfile v1 tree and its `requires` maps), or the
+   * innermost package of a lockfile `node_modules/...` entry.
+   */
+  private packageNameFromPath(path: string[]): string | undefined {
+    const currentKey = path[path.length - 1]
+    if (currentKey === undefined) {
+      return undefined
+    }
+
+    const nodeModulesIndex = currentKey.lastIndexOf("node_modules/")
+    if (nodeModulesIndex !== -1) {
+      return currentKey.slice(nodeModulesIndex + "node_modules/".length)
     }
+
+    return this.isRangePath(path) ? currentKey : undefined
   }
 
-  private createConflictRecord(path: string[], ourValue: any, theirValue: any, resolvedValue: any): ResolvedConflict {
+  private createConflictRecord(
+    path: string[],
+    baseValue: any,
+    ourValue: any,
+    theirValue: any,
+    resolvedValue: any,
+    resolution: {reason: string; confidence: ResolutionConfidence},
+    choice?: StrategyChoice
+  ): ResolvedConflict {
     return {
       field: this.formatPath(path),
+      path,
       ourValue: this.stringifyConflictValue(ourValue),
       theirValue: this.stringifyConflictValue(theirValue),
       resolvedValue: this.stringifyConflictValue(resolvedValue),
-      strategy: this.options.strategy,
+      ...(baseValue !== undefined ? {baseValue: this.stringifyConflictValue(baseValue)} : {}),
+      strategy: choice ? choice.strategy : this.options.strategy,
+      confidence: resolution.confidence,
+      reason: resolution.reason,
+      ...(choice?.rule ? {rule: choice.rule.pattern} : {}),
     }
   }
 
@@ -770,10 +1877,7 @@ export class PackageResolver {
       return false
     }
 
-    const currentKey = path[path.length - 1]
-    const parentKey = path[path.length - 2]
-
-    return currentKey === "version" || this.isDependencyField(parentKey || "")
+    return path[path.length - 1] === "version" || this.isRangePath(path)
   }
 
   private stringifyConflictValue(value: any): string {
@@ -0,0 +1,218 @@
+/**
+ * Parser, serializer and dependency graph helpers for pnpm-lock.yaml
+ * (lockfileVersion 6 and 9).
+ *
+ * A pnpm lockfile lists, per workspace package ("importer"), the specifier
+ * from its package.json and the version it resolved to. `packages` holds
+ * the resolution (integrity, tarball) of every package; in lockfileVersion 9
+ * the dependencies of each package instance live in `snapshots`, in
+ * lockfileVersion 6 they are part of the `packages` entry.
+ */
+
+import {parse} from "yaml"
+import {PackageJson} from "./types.js"
+
+/** Reads the merged package.json of an importer ("." for the root), if any */
+export type PnpmManifestLoader = (importerId: string) => Promise<PackageJson | undefined>
+
+/** Lockfile versions whose layout is understood */
+export const PNPM_LOCKFILE_VERSIONS = [6, 9]
+
+/** Dependency fields of an importer */
+export const PNPM_IMPORTER_FIELDS = ["dependencies", "devDependencies", "optionalDependencies"] as const
+
+/** Sections keyed by importer or package, written with a blank line between entries */
+const SPACED_SECTIONS = ["importers", "packages", "snapshots"]
+
+/** Fields pnpm writes in flow style (`resolution: {integrity: ...}`, `cpu: [x64]`) */
+const FLOW_KEYS = ["resolution", "engines", "cpu", "os", "libc"]
+
+/**
+ * Whether content looks like a pnpm lockfile (a YAML `lockfileVersion` key)
+ */
+export function isPnpmLockfile(content: string): boolean {
+  return /^lockfileVersion: /m.test(content)
+}
+
+/**
+ * Parse a pnpm lockfile. Throws on invalid YAML or a document without a
+ * lockfileVersion.
+ */
+export function parsePnpmLockfile(content: string): Record<string, any> {
+  const document = parse(content)
+  if (document === null || typeof document !== "object" || Array.isArray(document)) {
+    throw new Error("Expected a YAML mapping")
+  }
+  if (document.lockfileVersion === undefined) {
+    throw new Error("Missing lockfileVersion")
+  }
+  return document
+}
+
+/**
+ * Major lockfile version ("9.0" → 9)
+ */
+export function pnpmLockfileMajor(lockfile: Record<string, any>): number {
+  return Number.parseInt(String(lockfile.lockfileVersion), 10)
+}
+
+/**
+ * Importers of the lockfile by id ("." for the root). A lockfileVersion 6
+ * lockfile of a single project keeps the root's dependencies at the top level.
+ */
+export function pnpmImporters(lockfile: Record<string, any>): Record<string, Record<string, any>> {
+  if (lockfile.importers !== null && typeof lockfile.importers === "object") {
+    return lockfile.importers
+  }
+  return {".": lockfile}
+}
+
+/**
+ * Key of the `packages`/`snapshots` entry a dependency reference points at,
+ * or undefined for links to workspace folders
+ */
+export function pnpmDependencyKey(major: number, name: string, reference: string): string | undefined {
+  if (reference.startsWith("link:")) {
+    return undefined
+  }
+
+  if (major < 9) {
+    if (reference.startsWith("file:") || reference.startsWith("/")) {
+      return reference
+    }
+    const peers = reference.indexOf("(")
+    return reference.slice(0, peers === -1 ? undefined : peers).includes("/") ? reference : `/${name}@${reference}`
+  }
+
+  // An alias resolves to "<name>@<version>" instead of a bare version
+  if (reference.startsWith("@")) {
+    return reference
+  }
+  const at = reference.indexOf("@")
+  const colon = reference.indexOf(":")
+  const peers = reference.indexOf("(")
+  if (at !== -1 && (colon === -1 || at < colon) && (peers === -1 || at < peers)) {
+    return reference
+  }
+  return `${name}@${reference}`
+}
+
+/**
+ * Keys of all `packages` and `snapshots` entries reachable from the importers
+ */
+export function reachablePnpmEntries(lockfile: Record<string, any>): Set<string> {
+  const major = pnpmLockfileMajor(lockfile)
+  // Dependencies of a package instance: snapshots in v9, packages before
+  const graph: Record<string, any> = (major >= 9 ? lockfile.snapshots : lockfile.packages) ?? {}
+  const reachable = new Set<string>()
+  const queue: string[] = []
+
+  const visit = (name: string, reference: unknown) => {
+    if (typeof reference !== "string") return
+    const key = pnpmDependencyKey(major, name, reference)
+    if (key !== undefined && !reachable.has(key)) {
+      reachable.add(key)
+      queue.push(key)
+    }
+  }
+
+  for (const importer of Object.values(pnpmImporters(lockfile))) {
+    for (const field of PNPM_IMPORTER_FIELDS) {
+      for (const [name, entry] of Object.entries<any>(importer?.[field] ?? {})) {
+        visit(name, entry?.version)
+      }
+    }
+  }
+
+  while (queue.length > 0) {
+    const entry = graph[queue.shift()!]
+    for (const field of ["dependencies", "optionalDependencies"]) {
+      for (const [name, reference] of Object.entries(entry?.[field] ?? {})) {
+        visit(name, reference)
+      }
+    }
+  }
+
+  if (major >= 9) {
+    // A snapshot "react-dom@18.2.0(react@18.2.0)" uses the package "react-dom@18.2.0"
+    for (const key of [...reachable]) {
+      const peers = key.indexOf("(")
+      if (peers !== -1) reachable.add(key.slice(0, peers))
+    }
+  }
+  return reachable
+}
+
+/**
+ * Serialize a lockfile in pnpm's layout: blank lines between sections and
+ * between the entries of `importers`, `packages` and `snapshots`, flow style
+ * for resolutions and platform fields, single-quoted strings where YAML
+ * needs quotes.
+ */
+export function stringifyPnpmLockfile(lockfile: Record<string, any>): string {
+  const sections = Object.keys(lockfile)
+    .filter(key => lockfile[key] !== undefined)
+    .map(key => `${formatScalar(key, false)}:${formatValue(lockfile[key], 1, key, SPACED_SECTIONS.includes(key))}`)
+  return sections.join("\n\n") + "\n"
+}
+
+function formatValue(value: any, depth: number, key: string, spaced: boolean): string {
+  if (value === null || typeof value !== "object") {
+    return ` ${formatScalar(value, false)}`
+  }
+
+  const entries = Array.isArray(value) ? value.map((item, i) => [String(i), item] as const) : Object.entries(value)
+  const flat = entries.every(([, item]) => item === null || typeof item !== "object")
+  if (entries.length === 0 || (flat && FLOW_KEYS.includes(key))) {
+    const items = entries.map(([itemKey, item]) =>
+      Array.isArray(value) ? formatScalar(item, true) : `${formatScalar(itemKey, true)}: ${formatScalar(item, true)}`
+    )
+    return Array.isArray(value) ? ` [${items.join(", ")}]` : ` {${items.join(", ")}}`
+  }
+
+  const indent = "  ".repeat(depth)
+  const lines = entries.map(([itemKey, item]) =>
+    Array.isArray(value)
+      ? `${indent}-${formatValue(item, depth + 1, key, false)}`
+      : `${indent}${formatScalar(itemKey, false)}:${formatValue(item, depth + 1, itemKey, false)}`
+  )
+  return spaced ? `\n\n${lines.join("\n\n")}` : `\n${lines.join("\n")}`
+}
+
+/**
+ * Write a scalar plain when YAML reads it back as the same string, quoted
+ * otherwise
+ */
+function formatScalar(value: any, inFlow: boolean): string {
+  if (typeof value !== "string") {
+    return value === null || value === undefined ? "null" : String(value)
+  }
+  if (/[\x00-\x1f\x7f]/.test(value)) {
+    return JSON.stringify(value)
+  }
+  return isPlainSafe(value, inFlow) ? value : `'${value.replace(/'/g, "''")}'`
+}
+
+function isPlainSafe(value: string, inFlow: boolean): boolean {
+  if (value === "" || /^\s|\s$/.test(value) || /^[-?:,[\]{}#&*!|>'"%@`]/.test(value)) {
+    return false
+  }
+  if (/: |:$| #/.test(value) || (inFlow && /[,[\]{}]/.test(value))) {
+    return false
+  }
+  // Strings YAML would read as another type
+  return !/^(?:true|True|TRUE|false|False|FALSE|null|Null|NULL|~|[-+]?(?:\.\d+|\d+(?:\.\d*)?)(?:[eE][-+]?\d+)?|0o[0-7]+|0x[0-9a-fA-F]+|[-+]?\.(?:inf|Inf|INF)|\.(?:nan|NaN|NAN))$/.test(
+    value
+  )
+}
+
+/**
+ * Package name of a `packages`/`snapshots` key ("/@scope/pkg@1.0.0(peer@2.0.0)"
+ * → "@scope/pkg")
+ */
+export function pnpmKeyPackageName(key: string): string | undefined {
+  const peers = key.indexOf("(")
+  const id = key.slice(key.startsWith("/") ? 1 : 0, peers === -1 ? undefined : peers)
+  const at = id.lastIndexOf("@")
+  return at > 0 ? id.slice(0, at) : undefined
+}
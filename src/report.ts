@@ -0,0 +1,333 @@
+/**
+ * Resolution reports written with `--report` and `--summary-markdown`.
+ *
+ * The JSON format lists every file with its resolved conflicts. The SARIF
+ * 2.1.0 format turns each conflict into a result (a note, a warning for a
+ * guess, an error when the file stayed conflicted) so CI can upload it as
+ * code-scanning annotations. The Markdown summary is a table per section,
+ * meant for a pull request comment.
+ */
+
+import {basename} from "node:path"
+import * as semver from "semver"
+import {parseDependencySpec} from "./dependency-spec.js"
+import {VersionResolver} from "./version-resolver.js"
+import {ReportFormat, ResolutionConfidence, ResolutionResult} from "./types.js"
+
+export const TOOL_NAME = "package-conflicts-resolver"
+
+export interface ReportedConflict {
+  /** Dotted JSON path, as shown in the conflict list */
+  field: string
+  /** JSON path keys (semantic merges only; keys may contain dots) */
+  path?: string[]
+  /** Line of the value in the file as written, when it can be found */
+  line?: number
+  ours: string
+  theirs: string
+  base?: string
+  resolved: string
+  strategy: string
+  rule?: string
+  reason?: string
+  confidence?: ResolutionConfidence
+  oursLabel?: string
+  baseLabel?: string
+  theirsLabel?: string
+  /** The sides cannot be reconciled (see `reason`): the file was left conflicted */
+  unresolved?: boolean
+}
+
+export interface FileReport {
+  /** Path relative to the working directory (the repository root for the merge driver) */
+  file: string
+  resolved: boolean
+  errors: string[]
+  conflicts: ReportedConflict[]
+}
+
+export interface ResolutionReport {
+  tool: {name: string; version: string}
+  files: FileReport[]
+}
+
+/** The parts of a SARIF 2.1.0 log this tool writes */
+export interface SarifLog {
+  version: "2.1.0"
+  $schema: string
+  runs: {tool: {driver: Record<string, any>}; results: Record<string, any>[]}[]
+}
+
+/**
+ * Describe the result of resolving one file. `content` is the file as
+ * written, used to find the line of each resolved value.
+ */
+export function createFileReport(file: string, result: ResolutionResult, content?: string): FileReport {
+  return {
+    file,
+    resolved: result.resolved,
+    errors: [...result.errors],
+    conflicts: result.conflicts.map(conflict => {
+      const line = content !== undefined ? findPathLine(content, conflict.path ?? [conflict.field]) : undefined
+      const reason = conflict.hardConflict ?? conflict.reason
+      return {
+        field: conflict.field,
+        ...(conflict.path ? {path: conflict.path} : {}),
+        ...(line !== undefined ? {line} : {}),
+        ours: conflict.ourValue,
+        theirs: conflict.theirValue,
+        ...(conflict.baseValue !== undefined ? {base: conflict.baseValue} : {}),
+        resolved: conflict.resolvedValue,
+        strategy: conflict.strategy,
+        ...(conflict.rule !== undefined ? {rule: conflict.rule} : {}),
+        ...(reason !== undefined ? {reason} : {}),
+        ...(conflict.confidence !== undefined ? {confidence: conflict.confidence} : {}),
+        ...(conflict.oursLabel !== undefined ? {oursLabel: conflict.oursLabel} : {}),
+        ...(conflict.baseLabel !== undefined ? {baseLabel: conflict.baseLabel} : {}),
+        ...(conflict.theirsLabel !== undefined ? {theirsLabel: conflict.theirsLabel} : {}),
+        ...(conflict.hardConflict !== undefined ? {unresolved: true} : {}),
+      }
+    }),
+  }
+}
+
+/**
+ * Serialize a report. With `previous` (the current content of the report
+ * file), entries of other files are kept, so the merge driver, which Git runs
+ * once per file, builds up one report for the whole merge.
+ */
+export function formatReport(report: ResolutionReport, format: ReportFormat, previous?: string): string {
+  const files = new Set(report.files.map(file => file.file))
+
+  if (format === "sarif") {
+    const log = toSarif(report)
+    const previousResults = parsePrevious(previous)?.runs?.[0]?.results
+    if (Array.isArray(previousResults)) {
+      const kept = previousResults.filter(
+        (result: any) => !files.has(result?.locations?.[0]?.physicalLocation?.artifactLocation?.uri)
+      )
+      log.runs[0]!.results = [...kept, ...log.runs[0]!.results]
+    }
+    return JSON.stringify(log, null, 2) + "\n"
+  }
+
+  const previousFiles = parsePrevious(previous)?.files
+  const kept = Array.isArray(previousFiles) ? previousFiles.filter((file: any) => !files.has(file?.file)) : []
+  return JSON.stringify({...report, files: [...kept, ...report.files]}, null, 2) + "\n"
+}
+
+/**
+ * Convert a report to a SARIF 2.1.0 log
+ */
+export function toSarif(report: ResolutionReport): SarifLog {
+  const results: Record<string, any>[] = []
+
+  for (const file of report.files) {
+    for (const conflict of file.conflicts) {
+      const uncertain = VersionResolver.isUncertain(conflict.confidence)
+      results.push({
+        ruleId: conflict.unresolved ? "unresolved-conflict" : uncertain ? "uncertain-resolution" : "resolved-conflict",
+        level: conflict.unresolved ? "error" : uncertain ? "warning" : "note",
+        message: {text: describeConflict(conflict)},
+        locations: [location(file.file, conflict.line)],
+        properties: conflict,
+      })
+    }
+
+    for (const error of file.errors) {
+      results.push({
+        ruleId: "unresolved-conflict",
+        level: "error",
+        message: {text: error},
+        locations: [location(file.file)],
+      })
+    }
+  }
+
+  return {
+    version: "2.1.0",
+    $schema: "https://json.schemastore.org/sarif-2.1.0.json",
+    runs: [
+      {
+        tool: {
+          driver: {
+            name: report.tool.name,
+            version: report.tool.version,
+            rules: [
+              {id: "resolved-conflict", shortDescription: {text: "Merge conflict resolved automatically"}},
+              {
+                id: "uncertain-resolution",
+                shortDescription: {text: "Merge conflict resolved by a guess (coerced or fallback comparison)"},
+              },
+              {id: "unresolved-conflict", shortDescription: {text: "Merge conflict left for manual resolution"}},
+            ],
+          },
+        },
+        results,
+      },
+    ],
+  }
+}
+
+/** package.json sections of the Markdown summary, in display order */
+const SUMMARY_SECTIONS = ["dependencies", "devDependencies", "peerDependencies", "optionalDependencies", "scripts"]
+
+const LOCKFILE_SECTION = "lockfile entries"
+const OTHER_SECTION = "other fields"
+
+/**
+ * Render a Markdown summary: one table per file and section (dependency
+ * maps, scripts, lockfile entries, other fields) with ours → theirs →
+ * resolved and the reason, flagging major-version jumps, then the files that
+ * stayed conflicted.
+ */
+export function formatMarkdownSummary(report: ResolutionReport): string {
+  const conflicts = report.files.flatMap(file => file.conflicts)
+  const majorJumps = conflicts.filter(isMajorJump).length
+  const lines = ["## Resolved dependency conflicts", ""]
+
+  if (conflicts.length === 0) {
+    lines.push("No conflicts were resolved.", "")
+  } else {
+    const files = report.files.filter(file => file.conflicts.length > 0).length
+    lines.push(
+      `Resolved ${conflicts.length} ${plural(conflicts.length, "conflict")} in ${files} ${plural(files, "file")}.` +
+        (majorJumps > 0 ? ` ⚠️ ${majorJumps} major-version ${plural(majorJumps, "jump")}.` : ""),
+      ""
+    )
+  }
+
+  for (const file of report.files) {
+    if (file.conflicts.length === 0) continue
+    lines.push(`### ${file.file}`, "")
+
+    const sections = new Map<string, ReportedConflict[]>()
+    for (const conflict of file.conflicts) {
+      const section = summarySection(file.file, conflict)
+      sections.set(section, [...(sections.get(section) ?? []), conflict])
+    }
+
+    const order = [...SUMMARY_SECTIONS, LOCKFILE_SECTION, OTHER_SECTION]
+    for (const section of order.filter(name => sections.has(name))) {
+      const entries = sections.get(section)!
+      const nameColumn = section === "scripts" ? "Script" : SUMMARY_SECTIONS.includes(section) ? "Package" : "Field"
+      lines.push(
+        `**${section}**`,
+        "",
+        `| ${nameColumn} | Ours | Theirs | Resolved | Reason |`,
+        "| --- | --- | --- | --- | --- |"
+      )
+      for (const conflict of entries) {
+        const name = SUMMARY_SECTIONS.includes(section)
+          ? (conflict.path?.[conflict.path.length - 1] ?? conflict.field)
+          : conflict.field
+        const cells = [
+          (isMajorJump(conflict) ? "⚠️ " : "") + escapeCell(name),
+          code(conflict.ours),
+          code(conflict.theirs),
+          isMajorJump(conflict) ? `**${code(conflict.resolved)}**` : code(conflict.resolved),
+          escapeCell(conflict.reason ?? ""),
+        ]
+        lines.push(`| ${cells.join(" | ")} |`)
+      }
+      lines.push("")
+    }
+  }
+
+  const unresolved = report.files.filter(file => !file.resolved)
+  if (unresolved.length > 0) {
+    lines.push("### Left conflicted", "")
+    for (const file of unresolved) {
+      lines.push(`- \`${file.file}\`: ${escapeCell(file.errors.join("; ") || "not resolved")}`)
+    }
+    lines.push("")
+  }
+
+  return lines.join("\n")
+}
+
+function summarySection(file: string, conflict: ReportedConflict): string {
+  if (basename(file) !== "package.json") {
+    return LOCKFILE_SECTION
+  }
+  const top = conflict.path?.[0] ?? conflict.field.split(".")[0]!
+  return SUMMARY_SECTIONS.includes(top) && (conflict.path?.length ?? 2) > 1 ? top : OTHER_SECTION
+}
+
+/**
+ * Whether the two sides of a version conflict start at different major
+ * versions (`^18.2.0` vs `^19.0.0`)
+ */
+function isMajorJump(conflict: ReportedConflict): boolean {
+  const ours = majorVersion(conflict.ours)
+  const theirs = majorVersion(conflict.theirs)
+  return ours !== undefined && theirs !== undefined && ours !== theirs
+}
+
+function majorVersion(spec: string): number | undefined {
+  const range = parseDependencySpec(spec)?.version ?? spec
+  try {
+    const valid = semver.validRange(range, {loose: true})
+    return valid ? semver.minVersion(valid)?.major : undefined
+  } catch {
+    return undefined
+  }
+}
+
+function code(value: string): string {
+  return `\`${escapeCell(value)}\``
+}
+
+function escapeCell(value: string): string {
+  return value.replace(/\|/g, "\\|").replace(/\r?\n/g, " ")
+}
+
+function plural(count: number, word: string): string {
+  return count === 1 ? word : `${word}s`
+}
+
+function describeConflict(conflict: ReportedConflict): string {
+  const how = conflict.reason !== undefined ? `${conflict.strategy}: ${conflict.reason}` : conflict.strategy
+  return `${conflict.field}: resolved to ${conflict.resolved} (ours ${conflict.ours}, theirs ${conflict.theirs}; ${how})`
+}
+
+function location(file: string, line?: number): Record<string, any> {
+  return {
+    physicalLocation: {
+      artifactLocation: {uri: file},
+      ...(line !== undefined ? {region: {startLine: line}} : {}),
+    },
+  }
+}
+
+/**
+ * 1-based line of a JSON path in a formatted document: each key is looked up
+ * after the previous one. Undefined when a key cannot be found.
+ */
+function findPathLine(content: string, path: string[]): number | undefined {
+  let offset = 0
+  for (const key of path) {
+    const pattern = new RegExp(`^[ \\t]*${escapeRegExp(JSON.stringify(key))}[ \\t]*:`, "m")
+    const match = pattern.exec(content.slice(offset))
+    if (!match) {
+      return undefined
+    }
+    offset += match.index + match[0].length
+  }
+  return path.length > 0 ? content.slice(0, offset).split("\n").length : undefined
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")
+}
+
+function parsePrevious(previous: string | undefined): any {
+  if (previous === undefined) {
+    return undefined
+  }
+  try {
+    return JSON.parse(previous)
+  } catch {
+    return undefined // Not a report: overwrite it
+  }
+}
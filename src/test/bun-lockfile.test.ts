@@ -0,0 +1,149 @@
+/**
+ * Tests for the bun.lock reader, writer and merge
+ */
+
+import {strict as assert} from "assert"
+import {test, describe} from "node:test"
+import {
+  bunPackageName,
+  bunPackageVersion,
+  isBunLockfile,
+  parseBunLockfile,
+  parseJsonc,
+  stringifyBunLockfile,
+} from "../bun-lockfile.js"
+import {PackageResolver} from "../package-resolver.js"
+import {CliOptions} from "../types.js"
+
+const LOCKFILE = [
+  "{",
+  '  "lockfileVersion": 1,',
+  '  "workspaces": {',
+  '    "": {',
+  '      "name": "app",',
+  '      "dependencies": {',
+  '        "react": "^18.3.1",',
+  "      },",
+  "    },",
+  "  },",
+  '  "trustedDependencies": [',
+  '    "esbuild",',
+  "  ],",
+  '  "packages": {',
+  '    "js-tokens": ["js-tokens@4.0.0", "", {}, "sha512-js=="],',
+  "",
+  '    "loose-envify": ["loose-envify@1.4.0", "", { "dependencies": { "js-tokens": "^3.0.0 || ^4.0.0" }, "bin": { "loose-envify": "cli.js" } }, "sha512-le=="],',
+  "",
+  '    "react": ["react@18.3.1", "", { "dependencies": { "loose-envify": "^1.1.0" } }, "sha512-re=="],',
+  "  }",
+  "}",
+  "",
+].join("\n")
+
+/** A bun.lock of a single project with the given dependency ranges and locked versions */
+const lockWith = (dependencies: Record<string, string>, packages: Record<string, string>) =>
+  stringifyBunLockfile({
+    lockfileVersion: 1,
+    workspaces: {"": {name: "app", dependencies}},
+    packages: Object.fromEntries(
+      Object.entries(packages).map(([name, version]) => [name, [`${name}@${version}`, "", {}, `sha512-${version}==`]])
+    ),
+  })
+
+function makeResolver(strategy: CliOptions["strategy"] = "highest"): PackageResolver {
+  return new PackageResolver({
+    strategy,
+    dryRun: true,
+    quiet: true,
+    json: false,
+    verbose: false,
+    regenerateLock: false,
+  })
+}
+
+describe("bun.lock", () => {
+  test("reads JSON with comments and trailing commas", () => {
+    assert.deepEqual(parseJsonc('{\n  // comment\n  "a": [1, 2,],\n  "b": "x // y", /* c */\n}'), {
+      a: [1, 2],
+      b: "x // y",
+    })
+    assert.throws(() => parseJsonc('{"a": }'))
+  })
+
+  test("detects the lockfile format", () => {
+    assert.equal(isBunLockfile(LOCKFILE), true)
+    assert.equal(isBunLockfile('{\n  "lockfileVersion": 3,\n  "packages": {}\n}\n'), false)
+  })
+
+  test("round-trips a lockfile byte for byte", () => {
+    assert.equal(stringifyBunLockfile(parseBunLockfile(LOCKFILE)), LOCKFILE)
+  })
+
+  test("reads name and version from package tuples", () => {
+    const tuple = ["@scope/pkg@1.2.0", "", {}, "sha512-x=="]
+    assert.equal(bunPackageName(tuple), "@scope/pkg")
+    assert.equal(bunPackageVersion(tuple), "1.2.0")
+    assert.equal(bunPackageVersion("1.2.0"), undefined)
+  })
+
+  test("rejects documents without a lockfileVersion", () => {
+    assert.throws(() => parseBunLockfile('{"packages": {}}'), /Missing lockfileVersion/)
+  })
+})
+
+describe("PackageResolver bun.lock merge", () => {
+  test("keeps each package tuple whole and merges workspace ranges", async () => {
+    const base = lockWith({react: "^18.2.0"}, {react: "18.2.0"})
+    const ours = lockWith({react: "^18.3.0"}, {react: "18.3.0"})
+    const theirs = lockWith({react: "^18.3.1"}, {react: "18.3.1"})
+
+    const result = await makeResolver("highest").mergeBunLockContents(base, ours, theirs)
+    assert.equal(result.resolved, true, result.errors.join(", "))
+    assert.equal(result.content, theirs)
+    assert.deepEqual(
+      result.conflicts.map(conflict => conflict.field),
+      ["workspaces..dependencies.react", "packages.react"]
+    )
+  })
+
+  test("keeps packages added on either side and drops the ones removed on one side", async () => {
+    const base = lockWith({a: "^1.0.0", old: "^1.0.0"}, {a: "1.0.0", old: "1.0.0"})
+    const ours = lockWith({a: "^1.0.0", b: "^1.0.0"}, {a: "1.0.0", b: "1.0.0"})
+    const theirs = lockWith({a: "^1.0.0", c: "^1.0.0", old: "^1.0.0"}, {a: "1.0.0", c: "1.0.0", old: "1.0.0"})
+
+    const result = await makeResolver().mergeBunLockContents(base, ours, theirs)
+    assert.equal(
+      result.content,
+      lockWith({a: "^1.0.0", b: "^1.0.0", c: "^1.0.0"}, {a: "1.0.0", b: "1.0.0", c: "1.0.0"})
+    )
+    assert.equal(result.conflicts.length, 0)
+  })
+
+  test("resolves conflict markers in a lockfile", async () => {
+    const content = LOCKFILE.replace(
+      '    "react": ["react@18.3.1", "", { "dependencies": { "loose-envify": "^1.1.0" } }, "sha512-re=="],\n',
+      [
+        "<<<<<<< HEAD",
+        '    "react": ["react@18.3.1", "", { "dependencies": { "loose-envify": "^1.1.0" } }, "sha512-re=="],',
+        "=======",
+        '    "react": ["react@18.2.0", "", { "dependencies": { "loose-envify": "^1.1.0" } }, "sha512-old=="],',
+        ">>>>>>> feature",
+        "",
+      ].join("\n")
+    )
+
+    const result = await makeResolver("highest").resolveBunLockConflicts(content)
+    assert.equal(result.resolved, true, result.errors.join(", "))
+    assert.equal(result.content, LOCKFILE)
+  })
+
+  test("refuses lockfiles with different lockfileVersions", async () => {
+    const result = await makeResolver().mergeBunLockContents(
+      "",
+      LOCKFILE,
+      LOCKFILE.replace('"lockfileVersion": 1', '"lockfileVersion": 0')
+    )
+    assert.equal(result.resolved, false)
+    assert.match(result.errors[0]!, /Cannot merge bun.lock lockfileVersion 1 with lockfileVersion 0/)
+  })
+})
@@ -6,8 +6,8 @@
 
 import {strict as assert} from "assert"
 import {test, describe} from "node:test"
-import {spawn} from "node:child_process"
-import {mkdtemp, readFile, writeFile, rm} from "fs/promises"
+import {execFileSync, spawn} from "node:child_process"
+import {mkdir, mkdtemp, readFile, writeFile, rm} from "fs/promises"
 import {tmpdir} from "node:os"
 import {join} from "node:path"
 
@@ -136,6 +136,63 @@ describe("CLI end-to-end", () => {
       for (const line of lines) {
         assert.doesNotThrow(() => JSON.parse(line), `not valid JSON: ${line}`)
       }
+
+      const report = lines.map(line => JSON.parse(line)).find(entry => entry.message === "Resolved conflicts")
+      assert.equal(report.data.conflicts[0].oursLabel, "HEAD")
+      assert.equal(report.data.conflicts[0].theirsLabel, "feature")
+    })
+  })
+
+  test("applies per-package rules from the project config file", async () => {
+    await withTempDir(async dir => {
+      const conflicted = [
+        "{",
+        '  "name": "app",',
+        '  "dependencies": {',
+        "<<<<<<< HEAD",
+        '    "@types/node": "^20.2.0"',
+        "=======",
+        '    "@types/node": "^20.1.0"',
+        ">>>>>>> feature",
+        "  }",
+        "}",
+        "",
+      ].join("\n")
+      await writeFile(join(dir, "package.json"), conflicted, "utf8")
+      await writeFile(
+        join(dir, ".package-conflicts-resolver.json"),
+        JSON.stringify({packages: {"@types/*": "theirs"}}),
+        "utf8"
+      )
+
+      const result = await runCli(["package.json", "--no-regenerate-lock"], dir)
+      assert.equal(result.code, 0, result.stderr)
+
+      const written = JSON.parse(await readFile(join(dir, "package.json"), "utf8"))
+      assert.equal(written.dependencies["@types/node"], "^20.1.0")
+    })
+  })
+
+  test("exits 1 for an invalid config file", async () => {
+    await withTempDir(async dir => {
+      await writeFile(join(dir, "package.json"), CONFLICTED, "utf8")
+      await writeFile(join(dir, "rules.json"), JSON.stringify({packages: {lodash: "newest"}}), "utf8")
+
+      const result = await runCli(["package.json", "--config", "rules.json", "--no-regenerate-lock"], dir)
+      assert.equal(result.code, 1)
+      assert(result.stderr.includes("Invalid strategy"))
+      assert.equal(await readFile(join(dir, "package.json"), "utf8"), CONFLICTED)
+    })
+  })
+
+  test("--interactive refuses to run without a terminal", async () => {
+    await withTempDir(async dir => {
+      await writeFile(join(dir, "package.json"), CONFLICTED, "utf8")
+
+      const result = await runCli(["package.json", "--interactive", "--no-regenerate-lock"], dir)
+      assert.equal(result.code, 1)
+      assert(result.stderr.includes("requires a terminal"))
+      assert.equal(await readFile(join(dir, "package.json"), "utf8"), CONFLICTED)
     })
   })
 
@@ -230,6 +287,22 @@ describe("CLI companion lockfile resolution", () => {
     })
   })
 
+  test("--lock-graph leaves a lockfile whose root disagrees with package.json conflicted", async () => {
+    await withTempDir(async dir => {
+      const lock = CONFLICTED_LOCK.replace(
+        '"packages": {}',
+        '"packages": {\n    "": {"dependencies": {"a": "^1.0.0"}},\n    "node_modules/a": {"version": "1.0.0"}\n  }'
+      )
+      await writeFile(join(dir, "package.json"), '{\n  "name": "app",\n  "dependencies": {"a": "^2.0.0"}\n}\n', "utf8")
+      await writeFile(join(dir, "package-lock.json"), lock, "utf8")
+
+      const result = await runCli(["--lock-graph", "--no-regenerate-lock"], dir)
+      assert.equal(result.code, 1)
+      assert(result.stderr.includes('packages[""].dependencies.a is ^1.0.0 but package.json has ^2.0.0'), result.stderr)
+      assert.equal(await readFile(join(dir, "package-lock.json"), "utf8"), lock)
+    })
+  })
+
   test("targeting package-lock.json directly still works", async () => {
     await withTempDir(async dir => {
       await writeFile(join(dir, "package-lock.json"), CONFLICTED_LOCK, "utf8")
@@ -243,6 +316,353 @@ describe("CLI companion lockfile resolution", () => {
   })
 })
 
+describe("CLI --sync-lock", () => {
+  const conflictedDeps = [
+    "{",
+    '  "name": "app",',
+    '  "version": "1.0.0",',
+    '  "dependencies": {',
+    "<<<<<<< HEAD",
+    '    "a": "^1.0.0"',
+    "=======",
+    '    "a": "^2.0.0"',
+    ">>>>>>> feature",
+    "  }",
+    "}",
+    "",
+  ].join("\n")
+
+  const lock = {
+    name: "app",
+    version: "1.0.0",
+    lockfileVersion: 3,
+    requires: true,
+    packages: {
+      "": {name: "app", version: "1.0.0", dependencies: {a: "^1.0.0"}},
+      "node_modules/a": {version: "1.4.0"},
+    },
+  }
+
+  test("updates the lockfile root entry and reports stale entries", async () => {
+    await withTempDir(async dir => {
+      await writeFile(join(dir, "package.json"), conflictedDeps, "utf8")
+      await writeFile(join(dir, "package-lock.json"), JSON.stringify(lock, null, 2) + "\n", "utf8")
+
+      const result = await runCli(["--sync-lock"], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert.match(result.stdout, /Synced the root entry of package-lock\.json \(dependencies\)/)
+      assert.match(result.stderr, /the root package requires a@\^2\.0\.0 but node_modules\/a is 1\.4\.0/)
+      assert.doesNotMatch(result.stdout, /Regenerating/)
+
+      const synced = JSON.parse(await readFile(join(dir, "package-lock.json"), "utf8"))
+      assert.deepEqual(synced.packages[""].dependencies, {a: "^2.0.0"})
+      assert.equal(synced.packages["node_modules/a"].version, "1.4.0")
+    })
+  })
+})
+
+describe("CLI --workspaces", () => {
+  const conflictedVersion = (name: string, ours: string, theirs: string) =>
+    [
+      "{",
+      `  "name": "${name}",`,
+      "<<<<<<< HEAD",
+      `  "version": "${ours}"`,
+      "=======",
+      `  "version": "${theirs}"`,
+      ">>>>>>> feature",
+      "}",
+      "",
+    ].join("\n")
+
+  test("resolves every conflicted workspace package.json and prints one summary", async () => {
+    await withTempDir(async dir => {
+      await writeFile(join(dir, "package.json"), '{\n  "name": "root",\n  "workspaces": ["packages/*"]\n}\n', "utf8")
+      for (const name of ["a", "b", "c"]) {
+        await mkdir(join(dir, "packages", name), {recursive: true})
+      }
+      await writeFile(join(dir, "packages", "a", "package.json"), conflictedVersion("a", "1.1.0", "1.2.0"), "utf8")
+      await writeFile(join(dir, "packages", "b", "package.json"), conflictedVersion("b", "2.0.0", "2.1.0"), "utf8")
+      await writeFile(join(dir, "packages", "c", "package.json"), '{\n  "name": "c"\n}\n', "utf8")
+
+      const result = await runCli(["--workspaces", "--no-regenerate-lock"], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert(result.stdout.includes("Resolved 2 conflicts in 2/2 conflicted package.json files (4 in the workspace)"))
+      assert(result.stdout.includes("packages/a/package.json (1 conflicts)"))
+      assert.equal(JSON.parse(await readFile(join(dir, "packages", "a", "package.json"), "utf8")).version, "1.2.0")
+      assert.equal(JSON.parse(await readFile(join(dir, "packages", "b", "package.json"), "utf8")).version, "2.1.0")
+    })
+  })
+
+  test("exits 1 and names the package.json that could not be resolved", async () => {
+    await withTempDir(async dir => {
+      await writeFile(join(dir, "package.json"), '{\n  "name": "root",\n  "workspaces": ["packages/*"]\n}\n', "utf8")
+      await mkdir(join(dir, "packages", "a"), {recursive: true})
+      const uncertain = [
+        "{",
+        '  "name": "a",',
+        '  "dependencies": {',
+        "<<<<<<< HEAD",
+        '    "lib": "github:org/lib#main"',
+        "=======",
+        '    "lib": "github:org/lib#next"',
+        ">>>>>>> feature",
+        "  }",
+        "}",
+        "",
+      ].join("\n")
+      await writeFile(join(dir, "packages", "a", "package.json"), uncertain, "utf8")
+
+      const result = await runCli(["--workspaces", "--no-regenerate-lock", "--fail-on-uncertain"], dir)
+      assert.equal(result.code, 1)
+      assert(result.stdout.includes("❌ packages/a/package.json"))
+      assert.equal(await readFile(join(dir, "packages", "a", "package.json"), "utf8"), uncertain)
+    })
+  })
+
+  test("refuses to run without declared workspaces", async () => {
+    await withTempDir(async dir => {
+      await writeFile(join(dir, "package.json"), CONFLICTED, "utf8")
+
+      const result = await runCli(["--workspaces"], dir)
+      assert.equal(result.code, 1)
+      assert(result.stderr.includes("No workspaces declared"))
+    })
+  })
+})
+
+describe("CLI --unmerged", () => {
+  const git = (args: string[], cwd: string) =>
+    execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {cwd, stdio: "pipe"})
+
+  /** A repository in the middle of a merge where both branches changed the same files */
+  async function conflictedRepository(dir: string): Promise<void> {
+    const write = async (version: string) => {
+      await writeFile(join(dir, "package.json"), `{\n  "name": "root",\n  "version": "${version}"\n}\n`, "utf8")
+      await writeFile(join(dir, "packages", "a", "package.json"), `{\n  "name": "a",\n  "version": "${version}"\n}\n`)
+      await writeFile(join(dir, "notes.txt"), `${version}\n`, "utf8")
+    }
+
+    await mkdir(join(dir, "packages", "a"), {recursive: true})
+    git(["init", "-q", "-b", "main"], dir)
+    await write("1.0.0")
+    git(["add", "-A"], dir)
+    git(["commit", "-q", "-m", "base"], dir)
+    git(["checkout", "-q", "-b", "feature"], dir)
+    await write("1.2.0")
+    git(["commit", "-q", "-am", "feature"], dir)
+    git(["checkout", "-q", "main"], dir)
+    await write("1.1.0")
+    git(["commit", "-q", "-am", "main"], dir)
+    try {
+      git(["merge", "-q", "feature"], dir)
+    } catch {
+      // Conflicts are expected
+    }
+  }
+
+  test("resolves the manifests Git reports as unmerged and stages them", async () => {
+    await withTempDir(async dir => {
+      await conflictedRepository(dir)
+
+      const result = await runCli(["--unmerged", "--stage", "--no-regenerate-lock"], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert(result.stdout.includes("Resolved 2 conflicts in 2/2 conflicted package.json files (2 unmerged)"))
+      assert(result.stdout.includes("1 other unmerged files need to be resolved by hand"))
+      assert.equal(JSON.parse(await readFile(join(dir, "packages", "a", "package.json"), "utf8")).version, "1.2.0")
+      assert.equal(git(["diff", "--name-only", "--diff-filter=U"], dir).toString(), "notes.txt\n")
+    })
+  })
+
+  test("updates the lockfiles next to the manifests that were resolved", async () => {
+    await withTempDir(async dir => {
+      await conflictedRepository(dir)
+      // Fixed by hand but not staged yet: still unmerged, without markers
+      await writeFile(join(dir, "package.json"), '{\n  "name": "root",\n  "version": "1.1.0"\n}\n', "utf8")
+      await writeFile(join(dir, "bun.lock"), "{}\n", "utf8")
+      await writeFile(join(dir, "packages", "a", "yarn.lock"), "# yarn lockfile v1\n", "utf8")
+
+      const result = await runCli(["--unmerged"], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert(result.stdout.includes("Resolved 1 conflicts in 1/1 conflicted package.json files"), result.stdout)
+      assert(result.stdout.includes('Run "yarn install" to update yarn.lock'), result.stdout)
+      assert(!result.stdout.includes("bun.lock"), result.stdout)
+    })
+  })
+
+  test("leaves files unstaged without --stage", async () => {
+    await withTempDir(async dir => {
+      await conflictedRepository(dir)
+
+      const result = await runCli(["--unmerged", "--no-regenerate-lock"], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert.equal(
+        git(["diff", "--name-only", "--diff-filter=U"], dir).toString(),
+        "notes.txt\npackage.json\npackages/a/package.json\n"
+      )
+    })
+  })
+
+  test("--stage requires --unmerged", async () => {
+    await withTempDir(async dir => {
+      const result = await runCli(["--stage"], dir)
+      assert.equal(result.code, 1)
+      assert(result.stderr.includes("--stage requires --unmerged"))
+    })
+  })
+})
+
+describe("CLI with Git index stages", () => {
+  const git = (args: string[], cwd: string) =>
+    execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {cwd, stdio: "pipe"})
+
+  /** A merge written with plain "merge" style markers, where main removed lodash */
+  async function mergeWithoutBaseSections(dir: string): Promise<void> {
+    const write = (version: string, dependencies: Record<string, string>) =>
+      writeFile(join(dir, "package.json"), JSON.stringify({name: "app", version, dependencies}, null, 2) + "\n")
+
+    git(["init", "-q", "-b", "main"], dir)
+    await write("1.0.0", {lodash: "^4.17.21", react: "^18.0.0"})
+    git(["add", "-A"], dir)
+    git(["commit", "-q", "-m", "base"], dir)
+    git(["checkout", "-q", "-b", "feature"], dir)
+    await write("1.2.0", {lodash: "^4.17.21", react: "^18.3.0"})
+    git(["commit", "-q", "-am", "feature"], dir)
+    git(["checkout", "-q", "main"], dir)
+    await write("1.1.0", {react: "^18.2.0"})
+    git(["commit", "-q", "-am", "main"], dir)
+    assert.throws(() => git(["-c", "merge.conflictStyle=merge", "merge", "-q", "feature"], dir))
+  }
+
+  test("uses stage 1 as the base so deletions on one branch are kept", async () => {
+    await withTempDir(async dir => {
+      await mergeWithoutBaseSections(dir)
+      assert(!(await readFile(join(dir, "package.json"), "utf8")).includes("|||||||"))
+
+      const result = await runCli(["--no-regenerate-lock"], dir)
+      assert.equal(result.code, 0, result.stderr)
+
+      const merged = JSON.parse(await readFile(join(dir, "package.json"), "utf8"))
+      assert.deepEqual(merged.dependencies, {react: "^18.3.0"})
+      assert.equal(merged.version, "1.2.0")
+    })
+  })
+
+  test("uses stage 1 for --unmerged", async () => {
+    await withTempDir(async dir => {
+      await mergeWithoutBaseSections(dir)
+
+      const result = await runCli(["--unmerged", "--no-regenerate-lock"], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert.deepEqual(JSON.parse(await readFile(join(dir, "package.json"), "utf8")).dependencies, {react: "^18.3.0"})
+    })
+  })
+
+  test("--merge-base reads the base from git merge-base when the index has no stages", async () => {
+    await withTempDir(async dir => {
+      await mergeWithoutBaseSections(dir)
+      git(["reset", "-q"], dir)
+
+      const twoWay = await runCli(["--dry-run", "--no-regenerate-lock"], dir)
+      assert.equal(twoWay.code, 0, twoWay.stderr)
+      assert(twoWay.stdout.includes("only one side has it"))
+
+      const result = await runCli(["--merge-base", "feature", "--no-regenerate-lock"], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert.deepEqual(JSON.parse(await readFile(join(dir, "package.json"), "utf8")).dependencies, {react: "^18.3.0"})
+    })
+  })
+
+  test("--merge-base fails on an unknown ref", async () => {
+    await withTempDir(async dir => {
+      await mergeWithoutBaseSections(dir)
+
+      const result = await runCli(["--merge-base", "missing", "--no-regenerate-lock"], dir)
+      assert.equal(result.code, 1)
+      assert(result.stderr.includes("git merge-base HEAD missing failed"))
+    })
+  })
+
+  test("--strategy current keeps your commit while rebasing and labels the sides", async () => {
+    await withTempDir(async dir => {
+      const write = (description: string) =>
+        writeFile(join(dir, "package.json"), JSON.stringify({name: "app", description}, null, 2) + "\n")
+
+      git(["init", "-q", "-b", "main"], dir)
+      await write("base")
+      git(["add", "-A"], dir)
+      git(["commit", "-q", "-m", "base"], dir)
+      git(["checkout", "-q", "-b", "feature"], dir)
+      await write("mine")
+      git(["commit", "-q", "-am", "feature"], dir)
+      git(["checkout", "-q", "main"], dir)
+      await write("upstream")
+      git(["commit", "-q", "-am", "main"], dir)
+      git(["checkout", "-q", "feature"], dir)
+      assert.throws(() => git(["rebase", "main"], dir))
+
+      const result = await runCli(["--strategy", "current", "--no-regenerate-lock"], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert(result.stdout.includes('--strategy current uses "theirs" (rebase in progress)'))
+      assert(result.stdout.includes("Our value:      upstream (HEAD)"))
+      assert.equal(JSON.parse(await readFile(join(dir, "package.json"), "utf8")).description, "mine")
+    })
+  })
+
+  test("merge-driver --strategy current keeps your commit inside a real git rebase", async () => {
+    await withTempDir(async dir => {
+      const write = (description: string) =>
+        writeFile(join(dir, "package.json"), JSON.stringify({name: "app", description}, null, 2) + "\n")
+
+      git(["init", "-q", "-b", "main"], dir)
+      const driver = `"${process.execPath}" "${CLI_PATH}" merge-driver %A %O %B --strategy current`
+      git(["config", "merge.package-conflicts-resolver.driver", driver], dir)
+      await writeFile(join(dir, ".gitattributes"), "package.json merge=package-conflicts-resolver\n")
+      await write("base")
+      git(["add", "-A"], dir)
+      git(["commit", "-q", "-m", "base"], dir)
+      git(["checkout", "-q", "-b", "feature"], dir)
+      await write("mine")
+      git(["commit", "-q", "-am", "feature"], dir)
+      git(["checkout", "-q", "main"], dir)
+      await write("upstream")
+      git(["commit", "-q", "-am", "main"], dir)
+      git(["checkout", "-q", "feature"], dir)
+
+      // Git runs the driver before REBASE_HEAD exists: only rebase-merge/ tells it is a rebase
+      git(["rebase", "main"], dir)
+      assert.equal(JSON.parse(await readFile(join(dir, "package.json"), "utf8")).description, "mine")
+      assert.equal(git(["log", "--format=%s", "-2"], dir).toString(), "feature\nmain\n")
+    })
+  })
+
+  test("falls back to a two-way merge outside a repository", async () => {
+    await withTempDir(async dir => {
+      await writeFile(
+        join(dir, "package.json"),
+        [
+          "{",
+          '  "name": "app",',
+          "<<<<<<< HEAD",
+          '  "dependencies": {"react": "^18.2.0"}',
+          "=======",
+          '  "dependencies": {"lodash": "^4.17.21", "react": "^18.3.0"}',
+          ">>>>>>> feature",
+          "}",
+          "",
+        ].join("\n")
+      )
+
+      const result = await runCli(["--no-regenerate-lock"], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert.deepEqual(JSON.parse(await readFile(join(dir, "package.json"), "utf8")).dependencies, {
+        lodash: "^4.17.21",
+        react: "^18.3.0",
+      })
+    })
+  })
+})
+
 describe("CLI merge-driver (as invoked by Git)", () => {
   test("merges current/base/other and rewrites the current file", async () => {
     await withTempDir(async dir => {
@@ -275,6 +695,26 @@ describe("CLI merge-driver (as invoked by Git)", () => {
     })
   })
 
+  test("merges yarn classic lockfiles", async () => {
+    await withTempDir(async dir => {
+      const lock = (...entries: string[]) => ["# yarn lockfile v1", "", "", ...entries].join("\n")
+      const current = join(dir, "current.lock")
+      const base = join(dir, "base.lock")
+      const other = join(dir, "other.lock")
+
+      await writeFile(base, lock('a@^1.0.0:\n  version "1.0.0"\n'), "utf8")
+      await writeFile(current, lock('a@^1.0.0:\n  version "1.1.0"\n'), "utf8")
+      await writeFile(other, lock('a@^1.0.0:\n  version "1.0.0"\n', 'b@^2.0.0:\n  version "2.0.0"\n'), "utf8")
+
+      const result = await runCli(["merge-driver", current, base, other], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert.equal(
+        await readFile(current, "utf8"),
+        lock('a@^1.0.0:\n  version "1.1.0"\n', 'b@^2.0.0:\n  version "2.0.0"\n')
+      )
+    })
+  })
+
   test("handles an empty base file (file added on both branches)", async () => {
     await withTempDir(async dir => {
       const current = join(dir, "current.json")
@@ -378,4 +818,198 @@ describe("CLI merge-driver (as invoked by Git)", () => {
       assert(entry.resolved.includes("4.10.0"))
     })
   })
+
+  test("warns on stderr about uncertain resolutions", async () => {
+    await withTempDir(async dir => {
+      const current = join(dir, "current.json")
+      const base = join(dir, "base.json")
+      const other = join(dir, "other.json")
+
+      await writeFile(base, JSON.stringify({dependencies: {lib: "github:org/lib#v1"}}), "utf8")
+      await writeFile(current, JSON.stringify({dependencies: {lib: "github:org/lib#main"}}), "utf8")
+      await writeFile(other, JSON.stringify({dependencies: {lib: "github:org/lib#next"}}), "utf8")
+
+      const result = await runCli(["merge-driver", current, base, other], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert(result.stderr.includes("uncertain resolution for dependencies.lib (fallback)"), result.stderr)
+      assert.equal(JSON.parse(await readFile(current, "utf8")).dependencies.lib, "github:org/lib#main")
+    })
+  })
+
+  test("leaves the file conflicted with --fail-on-uncertain", async () => {
+    await withTempDir(async dir => {
+      const current = join(dir, "current.json")
+      const base = join(dir, "base.json")
+      const other = join(dir, "other.json")
+
+      const currentContent = JSON.stringify({dependencies: {lib: "github:org/lib#main"}})
+      await writeFile(base, JSON.stringify({dependencies: {lib: "github:org/lib#v1"}}), "utf8")
+      await writeFile(current, currentContent, "utf8")
+      await writeFile(other, JSON.stringify({dependencies: {lib: "github:org/lib#next"}}), "utf8")
+
+      const result = await runCli(["merge-driver", current, base, other, "--fail-on-uncertain"], dir)
+      assert.equal(result.code, 1)
+      assert(result.stderr.includes("Uncertain resolution for dependencies.lib"), result.stderr)
+      assert.equal(await readFile(current, "utf8"), currentContent, "current file must be left as-is")
+    })
+  })
+
+  test("warns about an invalid merged package.json and leaves it conflicted with --strict", async () => {
+    await withTempDir(async dir => {
+      const current = join(dir, "current.json")
+      const base = join(dir, "base.json")
+      const other = join(dir, "other.json")
+
+      const currentContent = JSON.stringify({dependencies: {lodash: "^4.17.21"}})
+      const write = async () => {
+        await writeFile(base, JSON.stringify({dependencies: {lodash: "^4.17.0"}}), "utf8")
+        await writeFile(current, currentContent, "utf8")
+        await writeFile(
+          other,
+          JSON.stringify({dependencies: {lodash: "^4.17.0"}, devDependencies: {lodash: "^4.17.0"}}),
+          "utf8"
+        )
+      }
+
+      await write()
+      const lenient = await runCli(["merge-driver", current, base, other], dir)
+      assert.equal(lenient.code, 0, lenient.stderr)
+      assert(lenient.stderr.includes("devDependencies.lodash"), lenient.stderr)
+
+      await write()
+      const strict = await runCli(["merge-driver", current, base, other, "--strict"], dir)
+      assert.equal(strict.code, 1)
+      assert(strict.stderr.includes("Invalid merged package.json: devDependencies.lodash"), strict.stderr)
+      assert.equal(await readFile(current, "utf8"), currentContent, "current file must be left as-is")
+    })
+  })
+
+  test("rejects an inconsistent lockfile with --lock-graph", async () => {
+    await withTempDir(async dir => {
+      const current = join(dir, "current.json")
+      const base = join(dir, "base.json")
+      const other = join(dir, "other.json")
+
+      const makeLock = (aVersion: string, aNeedsB: string, bVersion: string) =>
+        JSON.stringify({
+          name: "app",
+          lockfileVersion: 3,
+          packages: {
+            "": {name: "app", dependencies: {a: "^1.0.0"}},
+            "node_modules/a": {version: aVersion, integrity: `sha512-${aVersion}`, dependencies: {b: aNeedsB}},
+            "node_modules/b": {version: bVersion, integrity: `sha512-${bVersion}`},
+          },
+        })
+
+      const currentContent = makeLock("1.1.0", "^2.0.0", "2.0.0")
+      await writeFile(base, makeLock("1.0.0", "^1.0.0", "1.0.0"), "utf8")
+      await writeFile(current, currentContent, "utf8")
+      await writeFile(other, makeLock("1.0.0", "^1.0.0", "1.2.0"), "utf8")
+
+      const result = await runCli(["merge-driver", current, base, other, "-s", "lowest", "--lock-graph"], dir)
+      assert.equal(result.code, 1)
+      assert(result.stderr.includes("node_modules/a requires b@^2.0.0"), result.stderr)
+      assert.equal(await readFile(current, "utf8"), currentContent)
+    })
+  })
+})
+
+describe("CLI --report", () => {
+  test("writes a JSON report of the resolved conflicts", async () => {
+    await withTempDir(async dir => {
+      await writeFile(join(dir, "package.json"), CONFLICTED, "utf8")
+
+      const result = await runCli(["--report", "report.json", "--no-regenerate-lock"], dir)
+      assert.equal(result.code, 0, result.stderr)
+
+      const report = JSON.parse(await readFile(join(dir, "report.json"), "utf8"))
+      assert.equal(report.tool.name, "package-conflicts-resolver")
+      assert.equal(report.files.length, 1)
+      assert.equal(report.files[0].file, "package.json")
+      assert.equal(report.files[0].resolved, true)
+      assert.deepEqual(report.files[0].conflicts[0], {
+        field: "version",
+        path: ["version"],
+        line: 3,
+        ours: "1.1.0",
+        theirs: "1.2.0",
+        resolved: "1.2.0",
+        strategy: "highest",
+        reason: "their version 1.2.0 is higher than 1.1.0",
+        confidence: "semver",
+        oursLabel: "HEAD",
+        theirsLabel: "feature",
+      })
+    })
+  })
+
+  test("writes SARIF and records files that stayed conflicted", async () => {
+    await withTempDir(async dir => {
+      const conflicted = CONFLICTED.replace('"version": "1.1.0"', '"version": "main"')
+      await writeFile(join(dir, "package.json"), conflicted, "utf8")
+
+      const result = await runCli(
+        ["--report", "report.sarif", "--report-format", "sarif", "--fail-on-uncertain", "--no-regenerate-lock"],
+        dir
+      )
+      assert.equal(result.code, 1)
+
+      const sarif = JSON.parse(await readFile(join(dir, "report.sarif"), "utf8"))
+      assert.equal(sarif.version, "2.1.0")
+      const levels = sarif.runs[0].results.map((entry: any) => [entry.ruleId, entry.level])
+      assert.deepEqual(levels, [
+        ["uncertain-resolution", "warning"],
+        ["unresolved-conflict", "error"],
+      ])
+      assert.equal(sarif.runs[0].results[0].locations[0].physicalLocation.artifactLocation.uri, "package.json")
+    })
+  })
+
+  test("rejects an unknown report format", async () => {
+    await withTempDir(async dir => {
+      const result = await runCli(["--report", "report.xml", "--report-format", "xml"], dir)
+      assert.equal(result.code, 1)
+      assert(result.stderr.includes("Invalid report format: xml"))
+    })
+  })
+
+  test("writes a Markdown summary", async () => {
+    await withTempDir(async dir => {
+      await writeFile(join(dir, "package.json"), CONFLICTED, "utf8")
+
+      const result = await runCli(["--summary-markdown", "summary.md", "--no-regenerate-lock"], dir)
+      assert.equal(result.code, 0, result.stderr)
+
+      const summary = await readFile(join(dir, "summary.md"), "utf8")
+      assert(summary.startsWith("## Resolved dependency conflicts"))
+      assert(summary.includes("### package.json"))
+      assert(summary.includes("| version | `1.1.0` | `1.2.0` | `1.2.0` | their version 1.2.0 is higher than 1.1.0 |"))
+    })
+  })
+
+  test("merge-driver adds each merged file to the same report", async () => {
+    await withTempDir(async dir => {
+      const merge = async (path: string, ours: string, theirs: string) => {
+        await writeFile(join(dir, "base.json"), JSON.stringify({name: "app", version: "1.0.0"}), "utf8")
+        await writeFile(join(dir, "current.json"), JSON.stringify({name: "app", version: ours}), "utf8")
+        await writeFile(join(dir, "other.json"), JSON.stringify({name: "app", version: theirs}), "utf8")
+        const args = ["merge-driver", "current.json", "base.json", "other.json", "--report", "report.json"]
+        const result = await runCli([...args, "--path", path], dir)
+        assert.equal(result.code, 0, result.stderr)
+      }
+
+      await merge("package.json", "1.1.0", "1.2.0")
+      await merge("packages/a/package.json", "2.1.0", "2.0.1")
+      await merge("package.json", "1.3.0", "1.2.0")
+
+      const report = JSON.parse(await readFile(join(dir, "report.json"), "utf8"))
+      assert.deepEqual(
+        report.files.map((file: any) => [file.file, file.conflicts[0].resolved]),
+        [
+          ["packages/a/package.json", "2.1.0"],
+          ["package.json", "1.3.0"],
+        ]
+      )
+    })
+  })
 })
@@ -0,0 +1,300 @@
+/**
+ * Tests for project configuration loading and per-package strategy rules
+ */
+
+import {strict as assert} from "assert"
+import {test, describe} from "node:test"
+import {mkdir, mkdtemp, writeFile, rm} from "fs/promises"
+import {tmpdir} from "node:os"
+import {join} from "node:path"
+import {CONFIG_FILE_NAME, findPackageRule, loadConfig, matchesGlob, matchesPathGlob, parseConfig} from "../config.js"
+import {PackageResolver} from "../package-resolver.js"
+import {CliOptions, ResolverConfig} from "../types.js"
+
+function makeResolver(config: ResolverConfig, strategy: CliOptions["strategy"] = "highest"): PackageResolver {
+  return new PackageResolver({
+    strategy,
+    dryRun: false,
+    quiet: true,
+    json: false,
+    verbose: false,
+    regenerateLock: false,
+    config,
+  })
+}
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), "pcr-config-"))
+  try {
+    return await fn(dir)
+  } finally {
+    await rm(dir, {recursive: true, force: true})
+  }
+}
+
+const j = (value: unknown) => JSON.stringify(value)
+
+describe("matchesGlob", () => {
+  test("matches scoped and prefix globs", () => {
+    assert.equal(matchesGlob("@types/*", "@types/node"), true)
+    assert.equal(matchesGlob("@types/*", "@typescript/lib"), false)
+    assert.equal(matchesGlob("react*", "react-dom"), true)
+    assert.equal(matchesGlob("react*", "preact"), false)
+    assert.equal(matchesGlob("@our-org/*", "@our-org/ui"), true)
+  })
+
+  test("single star stays within one segment, double star crosses segments", () => {
+    assert.equal(matchesGlob("@scope/*", "@scope/a/b"), false)
+    assert.equal(matchesGlob("@scope/**", "@scope/a/b"), true)
+  })
+
+  test("treats regex characters literally", () => {
+    assert.equal(matchesGlob("socket.io", "socket.io"), true)
+    assert.equal(matchesGlob("socket.io", "socketXio"), false)
+  })
+})
+
+describe("parseConfig", () => {
+  test("keeps rule order and accepts string or object rules", () => {
+    const config = parseConfig(
+      {packages: {"@types/*": "theirs", "react*": {strategy: "pin", version: "^18.2.0"}}},
+      "test"
+    )
+    assert.deepEqual(config.packages, [
+      {pattern: "@types/*", strategy: "theirs"},
+      {pattern: "react*", strategy: "pin", version: "^18.2.0"},
+    ])
+  })
+
+  test("rejects unknown strategies", () => {
+    assert.throws(() => parseConfig({packages: {lodash: "newest"}}, "test"), /Invalid strategy "newest"/)
+  })
+
+  test("rejects pin rules without a version", () => {
+    assert.throws(() => parseConfig({packages: {react: "pin"}}, "test"), /has no "version"/)
+  })
+
+  test("first matching rule wins", () => {
+    const config = parseConfig({packages: {"@types/node": "lowest", "@types/*": "theirs"}}, "test")
+    assert.equal(findPackageRule(config, "@types/node")!.strategy, "lowest")
+    assert.equal(findPackageRule(config, "@types/react")!.strategy, "theirs")
+    assert.equal(findPackageRule(config, "lodash"), undefined)
+  })
+})
+
+describe("loadConfig", () => {
+  test("reads the config file from a parent directory", async () => {
+    await withTempDir(async dir => {
+      await mkdir(join(dir, ".git"))
+      await mkdir(join(dir, "packages", "app"), {recursive: true})
+      await writeFile(join(dir, CONFIG_FILE_NAME), j({packages: {"@types/*": "theirs"}}), "utf8")
+
+      const config = await loadConfig(join(dir, "packages", "app"))
+      assert.equal(config!.packages[0]!.pattern, "@types/*")
+    })
+  })
+
+  test("reads the packageConflictsResolver key from a conflicted package.json", async () => {
+    await withTempDir(async dir => {
+      const content = [
+        "{",
+        '  "packageConflictsResolver": {"packages": {"react*": "ours"}},',
+        "<<<<<<< HEAD",
+        '  "version": "1.1.0"',
+        "=======",
+        '  "version": "1.2.0"',
+        ">>>>>>> feature",
+        "}",
+      ].join("\n")
+      await writeFile(join(dir, "package.json"), content, "utf8")
+
+      const config = await loadConfig(dir)
+      assert.equal(findPackageRule(config, "react-dom")!.strategy, "ours")
+    })
+  })
+
+  test("returns undefined when no configuration exists", async () => {
+    await withTempDir(async dir => {
+      await mkdir(join(dir, ".git"))
+      assert.equal(await loadConfig(dir), undefined)
+    })
+  })
+
+  test("reports invalid JSON with the file name", async () => {
+    await withTempDir(async dir => {
+      const configPath = join(dir, "custom.json")
+      await writeFile(configPath, "{ nope", "utf8")
+      await assert.rejects(loadConfig(dir, configPath), /Failed to parse .*custom\.json/)
+    })
+  })
+})
+
+describe("Per-package strategy rules", () => {
+  const config = parseConfig(
+    {packages: {"@types/*": "theirs", "react*": {strategy: "pin", version: "^18.2.0"}, "left-pad": "lowest"}},
+    "test"
+  )
+
+  test("applies the matching rule and records it on the conflict", async () => {
+    const base = j({dependencies: {"@types/node": "^20.0.0", lodash: "^4.0.0"}})
+    const ours = j({dependencies: {"@types/node": "^20.2.0", lodash: "^4.1.0"}})
+    const theirs = j({dependencies: {"@types/node": "^20.1.0", lodash: "^4.2.0"}})
+
+    const result = await makeResolver(config).mergeJsonContents(base, ours, theirs)
+    assert.equal(result.packageJson!.dependencies!["@types/node"], "^20.1.0")
+    assert.equal(result.packageJson!.dependencies!.lodash, "^4.2.0")
+
+    const typesConflict = result.conflicts.find(c => c.field === "dependencies.@types/node")!
+    assert.equal(typesConflict.strategy, "theirs")
+    assert.equal(typesConflict.rule, "@types/*")
+
+    const lodashConflict = result.conflicts.find(c => c.field === "dependencies.lodash")!
+    assert.equal(lodashConflict.strategy, "highest")
+    assert.equal(lodashConflict.rule, undefined)
+  })
+
+  test("pin writes the configured version", async () => {
+    const base = j({dependencies: {react: "^17.0.0"}})
+    const ours = j({dependencies: {react: "^18.3.0"}})
+    const theirs = j({dependencies: {react: "^19.0.0"}})
+
+    const result = await makeResolver(config).mergeJsonContents(base, ours, theirs)
+    assert.equal(result.packageJson!.dependencies!.react, "^18.2.0")
+    assert.equal(result.conflicts[0]!.strategy, "pin")
+  })
+
+  test("pin keeps the lockfile entry that satisfies the pinned range", async () => {
+    const entry = (version: string) => ({
+      version,
+      resolved: `https://r/react-${version}.tgz`,
+      integrity: `sha-${version}`,
+    })
+    const lock = (version: string) => j({lockfileVersion: 3, packages: {"node_modules/react": entry(version)}})
+
+    const result = await makeResolver(config).mergeJsonContents(lock("17.0.0"), lock("18.3.1"), lock("19.0.0"))
+    assert.equal(result.packageJson!.packages["node_modules/react"].version, "18.3.1")
+    assert.equal(result.conflicts[0]!.rule, "react*")
+  })
+
+  test("rules apply when resolving conflict markers", async () => {
+    const content = [
+      "{",
+      '  "name": "app",',
+      "<<<<<<< HEAD",
+      '  "dependencies": {',
+      '    "left-pad": "^1.3.0"',
+      "  }",
+      "=======",
+      '  "dependencies": {',
+      '    "left-pad": "^1.1.0"',
+      "  }",
+      ">>>>>>> feature",
+      "}",
+    ].join("\n")
+
+    const result = await makeResolver(config).resolveConflicts(content)
+    assert.equal(result.resolved, true)
+    assert.equal(result.packageJson!.dependencies!["left-pad"], "^1.1.0")
+  })
+})
+
+describe("Per-field strategy rules", () => {
+  test("matchesPathGlob matches one key per star and any depth for double star", () => {
+    assert.equal(matchesPathGlob("scripts.*", ["scripts", "build"]), true)
+    assert.equal(matchesPathGlob("scripts.*", ["scripts"]), false)
+    assert.equal(matchesPathGlob("dependencies.*", ["dependencies", "socket.io"]), true)
+    assert.equal(matchesPathGlob("overrides.**", ["overrides", "foo", "bar"]), true)
+    assert.equal(matchesPathGlob("overrides.**", ["resolutions", "foo"]), false)
+    assert.equal(matchesPathGlob("engines.node", ["engines", "node"]), true)
+  })
+
+  const config = parseConfig(
+    {
+      packages: {lodash: "lowest"},
+      fields: {"scripts.*": "theirs", "dependencies.*": "highest", version: "lowest", keywords: "ours"},
+    },
+    "test"
+  )
+
+  test("picks a strategy per JSON path in the three-way merge", async () => {
+    const base = j({version: "1.0.0", scripts: {build: "tsc"}, devDependencies: {typescript: "^5.0.0"}})
+    const ours = j({version: "1.2.0", scripts: {build: "tsc -b"}, devDependencies: {typescript: "^5.2.0"}})
+    const theirs = j({version: "1.1.0", scripts: {build: "tsc -p ."}, devDependencies: {typescript: "^5.1.0"}})
+
+    const result = await makeResolver(config, "ours").mergeJsonContents(base, ours, theirs)
+    assert.equal(result.packageJson!.version, "1.1.0")
+    assert.equal(result.packageJson!.scripts!.build, "tsc -p .")
+    assert.equal(result.packageJson!.devDependencies!.typescript, "^5.2.0", "unmatched paths use the global strategy")
+
+    const scriptConflict = result.conflicts.find(c => c.field === "scripts.build")!
+    assert.equal(scriptConflict.rule, "scripts.*")
+  })
+
+  test("package rules take precedence over field rules", async () => {
+    const base = j({dependencies: {lodash: "^4.0.0"}})
+    const ours = j({dependencies: {lodash: "^4.2.0"}})
+    const theirs = j({dependencies: {lodash: "^4.1.0"}})
+
+    const result = await makeResolver(config).mergeJsonContents(base, ours, theirs)
+    assert.equal(result.packageJson!.dependencies!.lodash, "^4.1.0")
+    assert.equal(result.conflicts[0]!.rule, "lodash")
+  })
+
+  test("a field rule on an array picks a side instead of the union", async () => {
+    const base = j({keywords: ["cli"]})
+    const ours = j({keywords: ["cli", "git"]})
+    const theirs = j({keywords: ["cli", "merge"]})
+
+    const result = await makeResolver(config).mergeJsonContents(base, ours, theirs)
+    assert.deepEqual(result.packageJson!.keywords, ["cli", "git"])
+  })
+
+  test("field rules apply in the block-based fallback", async () => {
+    // The comment makes our side invalid JSON, forcing the block-based parser
+    const content = [
+      "{",
+      '  "name": "app",',
+      "<<<<<<< HEAD",
+      '  "version": "1.0.0" // released',
+      "=======",
+      '  "version": "2.0.0"',
+      ">>>>>>> feature",
+      "}",
+    ].join("\n")
+
+    const result = await makeResolver(config, "highest").resolveConflicts(content)
+    assert.equal(result.resolved, true)
+    assert.equal(result.packageJson!.version, "1.0.0")
+    assert.equal(result.conflicts[0]!.rule, "version")
+  })
+
+  test("the block-based fallback records the strategies package rules picked", async t => {
+    // The comment makes our side invalid JSON, forcing the block-based parser
+    const content = [
+      "{",
+      '  "name": "app",',
+      '  "dependencies": {',
+      "<<<<<<< HEAD",
+      '    "lodash": "^4.2.0", // pinned',
+      '    "react": "^18.2.0"',
+      "=======",
+      '    "lodash": "^4.1.0",',
+      '    "react": "^18.3.0"',
+      ">>>>>>> feature",
+      "  }",
+      "}",
+    ].join("\n")
+    t.mock.method(console, "warn", () => {})
+    const resolve = (packages: Record<string, string>) =>
+      makeResolver(parseConfig({packages}, "test"), "highest").resolveConflicts(content)
+
+    const mixed = (await resolve({lodash: "lowest"})).conflicts[0]!
+    assert.equal(mixed.resolvedValue, JSON.stringify({lodash: "^4.1.0", react: "^18.3.0"}, null, 2))
+    assert.equal(mixed.strategy, "mixed")
+    assert.equal(mixed.rule, "lodash")
+
+    const agreeing = (await resolve({lodash: "lowest", react: "lowest"})).conflicts[0]!
+    assert.equal(agreeing.strategy, "lowest")
+    assert.equal(agreeing.rule, "lodash, react")
+  })
+})
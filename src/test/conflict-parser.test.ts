@@ -121,6 +121,29 @@ describe("ConflictParser", () => {
     assert(conflicts[1] && conflicts[1].ours.includes('"lodash": "^4.17.21"'))
   })
 
+  test("should keep the marker labels", () => {
+    const content = [
+      "{",
+      "<<<<<<< HEAD\r",
+      '  "a": 1',
+      "||||||| merged common ancestors",
+      '  "a": 0',
+      "=======",
+      '  "a": 2',
+      ">>>>>>> feature/x",
+      "}",
+    ].join("\n")
+    const [conflict] = ConflictParser.parseConflicts(content)
+    assert.equal(conflict!.oursLabel, "HEAD")
+    assert.equal(conflict!.baseLabel, "merged common ancestors")
+    assert.equal(conflict!.theirsLabel, "feature/x")
+
+    const unlabeled = ["{", "<<<<<<<", '  "a": 1', "=======", '  "a": 2', ">>>>>>>", "}"].join("\n")
+    const [bare] = ConflictParser.parseConflicts(unlabeled)
+    assert.equal(bare!.oursLabel, undefined)
+    assert.equal(bare!.theirsLabel, undefined)
+  })
+
   test("should validate JSON", () => {
     assert.equal(ConflictParser.isValidJson('{"valid": "json"}'), true)
     assert.equal(ConflictParser.isValidJson("{invalid json}"), false)
@@ -0,0 +1,99 @@
+/**
+ * Tests for protocol dependency spec parsing
+ */
+
+import {strict as assert} from "assert"
+import {test, describe} from "node:test"
+import {formatDependencySpec, isCommitRef, isSameTarget, parseDependencySpec} from "../dependency-spec.js"
+
+describe("parseDependencySpec", () => {
+  test("returns undefined for plain ranges, tags and URLs", () => {
+    assert.equal(parseDependencySpec("^1.2.3"), undefined)
+    assert.equal(parseDependencySpec("latest"), undefined)
+    assert.equal(parseDependencySpec("https://example.com/pkg.tgz"), undefined)
+  })
+
+  test("parses npm aliases, including scoped packages", () => {
+    assert.deepEqual(parseDependencySpec("npm:lodash@^4.17.0"), {
+      protocol: "npm",
+      target: "lodash",
+      version: "^4.17.0",
+      prefix: "npm:lodash@",
+      suffix: "",
+    })
+    assert.equal(parseDependencySpec("npm:@scope/pkg@~1.0.0")?.target, "@scope/pkg")
+    assert.equal(parseDependencySpec("npm:lodash")?.version, undefined)
+  })
+
+  test("parses workspace ranges, shorthands and paths", () => {
+    assert.equal(parseDependencySpec("workspace:^1.0.0")?.version, "^1.0.0")
+    assert.equal(parseDependencySpec("workspace:*")?.version, "*")
+    assert.equal(parseDependencySpec("workspace:^")?.version, undefined)
+    assert.equal(parseDependencySpec("workspace:packages/shared")?.target, "packages/shared")
+  })
+
+  test("parses patch specs and decodes the embedded version", () => {
+    const spec = parseDependencySpec("patch:lodash@npm%3A4.17.21#./.yarn/patches/lodash.patch")
+    assert.equal(spec?.target, "lodash")
+    assert.equal(spec?.version, "4.17.21")
+    assert.equal(spec?.suffix, "#./.yarn/patches/lodash.patch")
+  })
+
+  test("parses hosted git shorthands with and without a ref", () => {
+    const spec = parseDependencySpec("github:owner/repo#v1.2.3")
+    assert.equal(spec?.target, "owner/repo")
+    assert.equal(spec?.version, "v1.2.3")
+    assert.equal(parseDependencySpec("gitlab:owner/repo")?.version, undefined)
+  })
+
+  test("parses git URLs with tags and semver ranges", () => {
+    const tagged = parseDependencySpec("git+https://github.com/org/repo.git#v2.3.1")
+    assert.equal(tagged?.protocol, "git")
+    assert.equal(tagged?.target, "git+https://github.com/org/repo.git")
+    assert.equal(tagged?.version, "v2.3.1")
+
+    const ranged = parseDependencySpec("github:org/repo#semver:^2.0.0")
+    assert.equal(ranged?.version, "^2.0.0")
+    assert.equal(ranged?.prefix, "github:org/repo#semver:")
+    assert.equal(parseDependencySpec("git@github.com:org/repo.git")?.version, undefined)
+  })
+
+  test("parses versions from tarball file names", () => {
+    const spec = parseDependencySpec("https://registry.example.com/pkg/-/my-pkg-1.4.0-beta.1.tgz")
+    assert.equal(spec?.protocol, "tarball")
+    assert.equal(spec?.version, "1.4.0-beta.1")
+    assert.equal(spec?.target, "https://registry.example.com/pkg/-/my-pkg-*.tgz")
+    assert.equal(parseDependencySpec("file:../local/pkg-2.0.0.tar.gz")?.version, "2.0.0")
+    assert.equal(parseDependencySpec("https://example.com/archive.tgz"), undefined)
+  })
+
+  test("recognizes commit refs on git specs only", () => {
+    assert.equal(isCommitRef(parseDependencySpec("github:org/repo#4f2a9c1")!), true)
+    assert.equal(isCommitRef(parseDependencySpec("github:org/repo#v1.2.3")!), false)
+    assert.equal(isCommitRef(parseDependencySpec("npm:pkg@1234567")!), false)
+  })
+
+  test("parses path protocols without a version", () => {
+    assert.deepEqual(parseDependencySpec("portal:../pkg"), {
+      protocol: "portal",
+      target: "../pkg",
+      prefix: "portal:../pkg",
+      suffix: "",
+    })
+  })
+})
+
+describe("isSameTarget / formatDependencySpec", () => {
+  test("compares protocol and target", () => {
+    assert.equal(isSameTarget(parseDependencySpec("npm:a@^1")!, parseDependencySpec("npm:a@^2")!), true)
+    assert.equal(isSameTarget(parseDependencySpec("npm:a@^1")!, parseDependencySpec("npm:b@^1")!), false)
+  })
+
+  test("rebuilds a spec around another version", () => {
+    assert.equal(formatDependencySpec(parseDependencySpec("npm:a@^1.0.0")!, ">=1.2.0 <1.5.0"), "npm:a@>=1.2.0 <1.5.0")
+    assert.equal(
+      formatDependencySpec(parseDependencySpec("patch:a@npm%3A1.0.0#./a.patch")!, "1.1.0"),
+      "patch:a@npm%3A1.1.0#./a.patch"
+    )
+  })
+})
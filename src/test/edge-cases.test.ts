@@ -222,15 +222,35 @@ describe("PackageResolver edge cases", () => {
     assert.equal(typeof result.packageJson!.private, "boolean")
   })
 
-  test("keeps lockfileVersion numeric and picks the highest", async () => {
+  test("refuses to blend lockfiles with different lockfileVersion values", async () => {
     const ours = JSON.stringify({name: "a", lockfileVersion: 2, packages: {}})
     const theirs = JSON.stringify({name: "a", lockfileVersion: 3, packages: {}})
     const base = JSON.stringify({name: "a", lockfileVersion: 1, packages: {}})
 
     const resolver = makeResolver("highest")
     const result = await resolver.mergeJsonContents(base, ours, theirs)
-    assert.equal(result.resolved, true)
-    assert.equal(result.packageJson!.lockfileVersion, 3)
+    assert.equal(result.resolved, false)
+    assert.equal(result.packageJson, undefined)
+    assert.match(result.errors.join("\n"), /Cannot merge lockfileVersion 2 with lockfileVersion 3/)
+  })
+
+  test("refuses a conflicted lockfileVersion instead of falling back to the block parser", async () => {
+    const content = [
+      "{",
+      '  "name": "a",',
+      "<<<<<<< HEAD",
+      '  "lockfileVersion": 1,',
+      '  "dependencies": {}',
+      "=======",
+      '  "lockfileVersion": 3,',
+      '  "packages": {}',
+      ">>>>>>> feature",
+      "}",
+    ].join("\n")
+
+    const result = await makeResolver("highest").resolveConflicts(content)
+    assert.equal(result.resolved, false)
+    assert.match(result.errors.join("\n"), /Cannot merge lockfileVersion 1 with lockfileVersion 3/)
   })
 
   test("keeps lockfile entries atomic (version/resolved/integrity move together)", async () => {
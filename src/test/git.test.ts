@@ -0,0 +1,169 @@
+/**
+ * Tests for the Git helpers
+ */
+
+import {strict as assert} from "assert"
+import {test, describe} from "node:test"
+import {mkdtemp, rm, writeFile} from "fs/promises"
+import {execFileSync} from "node:child_process"
+import {tmpdir} from "node:os"
+import {join} from "node:path"
+import {
+  detectGitOperation,
+  findRepositoryRoot,
+  isResolvablePath,
+  readFileAtMergeBase,
+  readIndexStages,
+  strategyForAlias,
+} from "../git.js"
+
+describe("isResolvablePath", () => {
+  test("accepts manifests and text lockfiles", () => {
+    for (const name of ["package.json", "package-lock.json", "yarn.lock", "pnpm-lock.yaml", "bun.lock"]) {
+      assert.equal(isResolvablePath(join("packages", "a", name)), true, name)
+    }
+  })
+
+  test("rejects binary lockfiles and other files", () => {
+    for (const name of ["bun.lockb", "tsconfig.json", "package.json.orig"]) {
+      assert.equal(isResolvablePath(name), false, name)
+    }
+  })
+})
+
+describe("findRepositoryRoot", () => {
+  test("throws outside a Git repository", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "pcr-git-"))
+    try {
+      await assert.rejects(findRepositoryRoot(dir), /Not inside a Git repository/)
+    } finally {
+      await rm(dir, {recursive: true, force: true})
+    }
+  })
+})
+
+describe("readIndexStages", () => {
+  const git = (args: string[], cwd: string) =>
+    execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {cwd, stdio: "pipe"})
+
+  test("reads the base, ours and theirs stages of a conflicted file", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "pcr-git-"))
+    try {
+      const file = join(dir, "package.json")
+      git(["init", "-q", "-b", "main"], dir)
+      await writeFile(file, "base\n", "utf8")
+      git(["add", "-A"], dir)
+      git(["commit", "-q", "-m", "base"], dir)
+      git(["checkout", "-q", "-b", "feature"], dir)
+      await writeFile(file, "theirs\n", "utf8")
+      git(["commit", "-q", "-am", "feature"], dir)
+      git(["checkout", "-q", "main"], dir)
+      await writeFile(file, "ours\n", "utf8")
+      git(["commit", "-q", "-am", "main"], dir)
+      assert.throws(() => git(["merge", "-q", "feature"], dir))
+
+      assert.deepEqual(await readIndexStages(file), {base: "base\n", ours: "ours\n", theirs: "theirs\n"})
+    } finally {
+      await rm(dir, {recursive: true, force: true})
+    }
+  })
+
+  test("returns undefined for files that are not unmerged", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "pcr-git-"))
+    try {
+      await writeFile(join(dir, "package.json"), "{}\n", "utf8")
+      assert.equal(await readIndexStages(join(dir, "package.json")), undefined)
+
+      git(["init", "-q"], dir)
+      assert.equal(await readIndexStages(join(dir, "package.json")), undefined)
+    } finally {
+      await rm(dir, {recursive: true, force: true})
+    }
+  })
+})
+
+describe("readFileAtMergeBase", () => {
+  const git = (args: string[], cwd: string) =>
+    execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {cwd, stdio: "pipe"})
+
+  test("reads the file at the common ancestor, or empty content when it did not exist", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "pcr-git-"))
+    try {
+      git(["init", "-q", "-b", "main"], dir)
+      await writeFile(join(dir, "package.json"), "base\n", "utf8")
+      git(["add", "-A"], dir)
+      git(["commit", "-q", "-m", "base"], dir)
+      git(["checkout", "-q", "-b", "feature"], dir)
+      await writeFile(join(dir, "package.json"), "feature\n", "utf8")
+      await writeFile(join(dir, "bun.lock"), "feature\n", "utf8")
+      git(["add", "-A"], dir)
+      git(["commit", "-q", "-m", "feature"], dir)
+      git(["checkout", "-q", "main"], dir)
+
+      assert.equal(await readFileAtMergeBase(join(dir, "package.json"), "feature"), "base\n")
+      assert.equal(await readFileAtMergeBase(join(dir, "bun.lock"), "feature"), "")
+      await assert.rejects(readFileAtMergeBase(join(dir, "package.json"), "missing"), /git merge-base HEAD missing/)
+    } finally {
+      await rm(dir, {recursive: true, force: true})
+    }
+  })
+})
+
+describe("detectGitOperation", () => {
+  const git = (args: string[], cwd: string) =>
+    execFileSync("git", ["-c", "user.name=test", "-c", "user.email=test@example.com", ...args], {cwd, stdio: "pipe"})
+
+  /** main and feature both changed file.txt since the base commit */
+  async function divergedRepository(dir: string): Promise<void> {
+    const file = join(dir, "file.txt")
+    git(["init", "-q", "-b", "main"], dir)
+    await writeFile(file, "base\n", "utf8")
+    git(["add", "-A"], dir)
+    git(["commit", "-q", "-m", "base"], dir)
+    git(["checkout", "-q", "-b", "feature"], dir)
+    await writeFile(file, "feature\n", "utf8")
+    git(["commit", "-q", "-am", "feature"], dir)
+    git(["checkout", "-q", "main"], dir)
+    await writeFile(file, "main\n", "utf8")
+    git(["commit", "-q", "-am", "main"], dir)
+  }
+
+  for (const [operation, command] of [
+    ["merge", ["merge", "-q", "feature"]],
+    ["cherry-pick", ["cherry-pick", "feature"]],
+    ["rebase", ["rebase", "feature"]],
+  ] as const) {
+    test(`detects a ${operation} stopped on conflicts`, async () => {
+      const dir = await mkdtemp(join(tmpdir(), "pcr-git-"))
+      try {
+        await divergedRepository(dir)
+        assert.equal(await detectGitOperation(dir), undefined)
+
+        assert.throws(() => git([...command], dir))
+        assert.equal(await detectGitOperation(dir), operation)
+      } finally {
+        await rm(dir, {recursive: true, force: true})
+      }
+    })
+  }
+
+  test("returns undefined outside a Git repository", async () => {
+    const dir = await mkdtemp(join(tmpdir(), "pcr-git-"))
+    try {
+      assert.equal(await detectGitOperation(dir), undefined)
+    } finally {
+      await rm(dir, {recursive: true, force: true})
+    }
+  })
+})
+
+describe("strategyForAlias", () => {
+  test("maps current/incoming to ours/theirs, swapped while rebasing", () => {
+    for (const operation of ["merge", "cherry-pick", undefined] as const) {
+      assert.equal(strategyForAlias("current", operation), "ours")
+      assert.equal(strategyForAlias("incoming", operation), "theirs")
+    }
+    assert.equal(strategyForAlias("current", "rebase"), "theirs")
+    assert.equal(strategyForAlias("incoming", "rebase"), "ours")
+  })
+})
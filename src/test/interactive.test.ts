@@ -0,0 +1,182 @@
+/**
+ * Tests for interactive conflict review
+ */
+
+import {strict as assert} from "assert"
+import {test, describe} from "node:test"
+import {PassThrough} from "node:stream"
+import {reviewConflictsInteractively} from "../interactive.js"
+import {PackageResolver} from "../package-resolver.js"
+import {CliOptions} from "../types.js"
+
+function makeResolver(options: Partial<CliOptions> = {}): PackageResolver {
+  return new PackageResolver({
+    strategy: "highest",
+    dryRun: false,
+    quiet: true,
+    json: false,
+    verbose: false,
+    regenerateLock: false,
+    ...options,
+  })
+}
+
+/**
+ * Run the review with scripted answers and return what was printed
+ */
+async function review(packageJson: any, conflicts: any[], answers: string[]): Promise<string> {
+  const input = new PassThrough()
+  const output = new PassThrough()
+  let printed = ""
+  output.on("data", chunk => (printed += chunk))
+
+  input.end(answers.map(answer => `${answer}\n`).join(""))
+  await reviewConflictsInteractively(packageJson, conflicts, {input, output})
+  return printed
+}
+
+const j = (value: unknown) => JSON.stringify(value)
+
+describe("Interactive review", () => {
+  test("applies ours, theirs, base and custom choices", async () => {
+    const base = j({version: "1.0.0", description: "old", dependencies: {a: "^1.0.0", b: "^1.0.0"}})
+    const ours = j({version: "1.1.0", description: "ours", dependencies: {a: "^1.1.0", b: "^1.1.0"}})
+    const theirs = j({version: "1.2.0", description: "theirs", dependencies: {a: "^1.2.0", b: "^1.2.0"}})
+
+    const result = await makeResolver().mergeJsonContents(base, ours, theirs)
+    assert.deepEqual(
+      result.conflicts.map(c => c.field),
+      ["version", "description", "dependencies.a", "dependencies.b"]
+    )
+
+    const printed = await review(result.packageJson, result.conflicts, ["o", "base", "c", "^1.5.0", "t"])
+    assert.equal(result.packageJson!.version, "1.1.0")
+    assert.equal(result.packageJson!.description, "old")
+    assert.equal(result.packageJson!.dependencies!.a, "^1.5.0")
+    assert.equal(result.packageJson!.dependencies!.b, "^1.2.0")
+    assert.equal(result.conflicts[0]!.strategy, "interactive (ours)")
+    assert(printed.includes("[1/4] version"))
+    assert(printed.includes("base:      1.0.0"))
+    assert(printed.includes("reason:    their version 1.2.0 is higher than 1.1.0"))
+  })
+
+  test("an empty answer or end of input keeps the suggestion", async () => {
+    const result = await makeResolver().mergeJsonContents(
+      j({version: "1.0.0", license: "MIT"}),
+      j({version: "1.1.0", license: "ISC"}),
+      j({version: "1.2.0", license: "Apache-2.0"})
+    )
+
+    await review(result.packageJson, result.conflicts, [""])
+    assert.equal(result.packageJson!.version, "1.2.0")
+    assert.equal(result.packageJson!.license, "ISC")
+    assert.equal(result.conflicts[0]!.strategy, "highest")
+  })
+
+  test("re-prompts on an unknown answer", async () => {
+    const result = await makeResolver().mergeJsonContents(
+      j({version: "1.0.0"}),
+      j({version: "1.1.0"}),
+      j({version: "1.2.0"})
+    )
+
+    const printed = await review(result.packageJson, result.conflicts, ["x", "o"])
+    assert(printed.includes('Unknown choice "x"'))
+    assert.equal(result.packageJson!.version, "1.1.0")
+  })
+
+  test("choosing a deleted side removes the key", async () => {
+    const result = await makeResolver().mergeJsonContents(
+      j({dependencies: {a: "^1.0.0"}}),
+      j({dependencies: {}}),
+      j({dependencies: {a: "^2.0.0"}})
+    )
+    // Modification wins over deletion without a conflict record; craft one to exercise deletion
+    const conflicts = [
+      {
+        field: "dependencies.a",
+        path: ["dependencies", "a"],
+        ourValue: "<deleted>",
+        theirValue: "^2.0.0",
+        resolvedValue: "^2.0.0",
+        strategy: "highest",
+      },
+    ]
+
+    await review(result.packageJson, conflicts, ["o"])
+    assert.deepEqual(result.packageJson!.dependencies, {})
+  })
+
+  test("deletes the key only through the delete choice", async () => {
+    const result = await makeResolver().mergeJsonContents(
+      j({description: "old", license: "MIT"}),
+      j({description: "ours", license: "ISC"}),
+      j({description: "theirs", license: "Apache-2.0"})
+    )
+
+    const printed = await review(result.packageJson, result.conflicts, ["c", "<deleted>", "d"])
+    assert(printed.includes("[c]ustom, [d]elete"))
+    assert.equal(result.packageJson!.description, "<deleted>")
+    assert.equal("license" in result.packageJson!, false)
+    assert.equal(result.conflicts[1]!.strategy, "interactive (delete)")
+  })
+
+  test("keeps non-string values typed", async () => {
+    const result = await makeResolver().mergeJsonContents(
+      j({private: false}),
+      j({private: true}),
+      j({private: false, x: 1})
+    )
+    const conflicts = [
+      {
+        field: "private",
+        path: ["private"],
+        ourValue: "true",
+        theirValue: "false",
+        resolvedValue: "true",
+        strategy: "highest",
+      },
+    ]
+
+    await review(result.packageJson, conflicts, ["t"])
+    assert.equal(result.packageJson!.private, false)
+  })
+
+  test("prompts for uncertain resolutions instead of failing with failOnUncertain", async () => {
+    const base = j({dependencies: {a: "^1.0.0"}})
+    const ours = j({dependencies: {a: "github:org/a#v2"}})
+    const theirs = j({dependencies: {a: "^2.0.0"}})
+
+    const rejected = await makeResolver({failOnUncertain: true}).mergeJsonContents(base, ours, theirs)
+    assert.equal(rejected.resolved, false)
+
+    const result = await makeResolver({failOnUncertain: true, interactive: true}).mergeJsonContents(base, ours, theirs)
+    assert.equal(result.resolved, true)
+    const printed = await review(result.packageJson, result.conflicts, ["t"])
+    assert(printed.includes(" - uncertain)"))
+    assert.equal(result.packageJson!.dependencies!.a, "^2.0.0")
+  })
+
+  test("a choice on a peer-alignment conflict sets the peer range and the installed spec", async () => {
+    const result = await makeResolver().mergeJsonContents(
+      j({dependencies: {react: "^18.0.0"}, peerDependencies: {react: "^18.0.0 || ^19.0.0"}}),
+      j({dependencies: {react: "^19.0.0"}, peerDependencies: {react: "^18.0.0 || ^19.0.0"}}),
+      j({dependencies: {react: "^18.0.0"}, peerDependencies: {react: "^18.0.0"}})
+    )
+    const conflict = result.conflicts.find(c => c.kind === "peer-alignment")!
+    assert.equal(conflict.field, "peerDependencies.react")
+
+    const printed = await review(result.packageJson, [conflict], ["c", "^19.1.0"])
+    assert(printed.includes("sets:      peerDependencies.react, dependencies.react"))
+    assert.equal(result.packageJson!.peerDependencies!.react, "^19.1.0")
+    assert.equal(result.packageJson!.dependencies!.react, "^19.1.0")
+  })
+
+  test("lists conflicts without a path as not reviewable", async () => {
+    const conflicts = [
+      {field: "version", ourValue: '"1.0.0"', theirValue: '"2.0.0"', resolvedValue: '"2.0.0"', strategy: "highest"},
+    ]
+    const printed = await review({version: "2.0.0"}, conflicts, [])
+    assert(printed.includes("1 conflict(s) were resolved by the block-based parser"))
+  })
+})
@@ -0,0 +1,279 @@
+/**
+ * Tests for npm lockfile dependency graph checks
+ */
+
+import {strict as assert} from "assert"
+import {test, describe} from "node:test"
+import {
+  formatRootMismatch,
+  formatUnsatisfiedEdge,
+  isGraphLockfile,
+  reconcileLockfileGraph,
+  resolveDependency,
+} from "../lockfile-graph.js"
+import {PackageResolver} from "../package-resolver.js"
+import {CliOptions} from "../types.js"
+
+const entry = (version: string, dependencies?: Record<string, string>) => ({
+  version,
+  resolved: `https://registry.npmjs.org/pkg/-/pkg-${version}.tgz`,
+  integrity: `sha512-${version}`,
+  ...(dependencies ? {dependencies} : {}),
+})
+
+describe("resolveDependency", () => {
+  const packages = {
+    "": {},
+    "node_modules/a": {},
+    "node_modules/b": {},
+    "node_modules/a/node_modules/b": {},
+    "packages/web": {},
+  }
+
+  test("prefers the nearest nested entry", () => {
+    assert.equal(resolveDependency(packages, "node_modules/a", "b"), "node_modules/a/node_modules/b")
+    assert.equal(resolveDependency(packages, "node_modules/a/node_modules/b", "a"), "node_modules/a")
+  })
+
+  test("falls back to the hoisted entry", () => {
+    assert.equal(resolveDependency(packages, "", "b"), "node_modules/b")
+    assert.equal(resolveDependency(packages, "packages/web", "a"), "node_modules/a")
+    assert.equal(resolveDependency(packages, "", "missing"), undefined)
+  })
+})
+
+describe("reconcileLockfileGraph", () => {
+  test("recognizes lockfiles with a packages map", () => {
+    assert.equal(isGraphLockfile({lockfileVersion: 3, packages: {}}), true)
+    assert.equal(isGraphLockfile({lockfileVersion: 1, dependencies: {}}), false)
+    assert.equal(isGraphLockfile({name: "app", version: "1.0.0"}), false)
+  })
+
+  test("accepts a consistent graph", () => {
+    const lockfile = {
+      lockfileVersion: 3,
+      packages: {
+        "": {dependencies: {a: "^1.0.0"}, devDependencies: {b: "^1.0.0"}},
+        "node_modules/a": entry("1.2.0", {b: "^2.0.0"}),
+        "node_modules/a/node_modules/b": entry("2.1.0"),
+        "node_modules/b": entry("1.0.3"),
+      },
+    }
+
+    const report = reconcileLockfileGraph(lockfile)
+    assert.deepEqual(report, {pruned: [], unsatisfied: [], rootMismatches: []})
+  })
+
+  test("reports edges the chosen entries no longer satisfy", () => {
+    const lockfile = {
+      lockfileVersion: 3,
+      packages: {
+        "": {dependencies: {a: "^1.0.0", c: "^1.0.0"}},
+        "node_modules/a": entry("1.2.0", {b: "^2.0.0"}),
+        "node_modules/b": entry("1.0.3"),
+      },
+    }
+
+    const report = reconcileLockfileGraph(lockfile)
+    assert.deepEqual(report.unsatisfied.map(formatUnsatisfiedEdge), [
+      "the root package requires c@^1.0.0 but no lockfile entry provides it",
+      "node_modules/a requires b@^2.0.0 but node_modules/b is 1.0.3",
+    ])
+  })
+
+  test("tolerates missing optional and peer dependencies", () => {
+    const lockfile = {
+      lockfileVersion: 3,
+      packages: {
+        "": {dependencies: {a: "^1.0.0"}},
+        "node_modules/a": {
+          ...entry("1.0.0"),
+          optionalDependencies: {fsevents: "^2.0.0"},
+          peerDependencies: {react: "*"},
+        },
+      },
+    }
+
+    assert.deepEqual(reconcileLockfileGraph(lockfile).unsatisfied, [])
+  })
+
+  test("prunes entries nothing depends on", () => {
+    const lockfile = {
+      lockfileVersion: 3,
+      packages: {
+        "": {dependencies: {a: "^1.0.0"}},
+        "node_modules/a": entry("1.0.0"),
+        "node_modules/orphan": entry("1.0.0", {"orphan-dep": "^1.0.0"}),
+        "node_modules/orphan-dep": entry("1.0.0"),
+        "node_modules/a/node_modules/bundled": {version: "1.0.0", inBundle: true},
+      },
+    }
+
+    const report = reconcileLockfileGraph(lockfile)
+    assert.deepEqual(report.pruned, ["node_modules/orphan", "node_modules/orphan-dep"])
+    assert.deepEqual(Object.keys(lockfile.packages), ["", "node_modules/a", "node_modules/a/node_modules/bundled"])
+  })
+
+  test("prunes the legacy dependencies tree of lockfileVersion 2", () => {
+    const lockfile: any = {
+      lockfileVersion: 2,
+      packages: {
+        "": {dependencies: {a: "^1.0.0"}},
+        "node_modules/a": entry("1.0.0"),
+        "node_modules/orphan": entry("1.0.0", {b: "^1.0.0"}),
+        "node_modules/orphan/node_modules/b": entry("1.0.0"),
+      },
+      dependencies: {
+        a: {version: "1.0.0"},
+        orphan: {version: "1.0.0", requires: {b: "^1.0.0"}, dependencies: {b: {version: "1.0.0"}}},
+      },
+    }
+
+    const report = reconcileLockfileGraph(lockfile)
+    assert.deepEqual(report.pruned, ["node_modules/orphan", "node_modules/orphan/node_modules/b"])
+    assert.deepEqual(lockfile.dependencies, {a: {version: "1.0.0"}})
+  })
+
+  test("compares the root entry with package.json", () => {
+    const lockfile = {
+      lockfileVersion: 3,
+      packages: {
+        "": {dependencies: {a: "^1.0.0", gone: "^1.0.0"}, devDependencies: {b: "^1.0.0"}},
+        "node_modules/a": entry("1.0.0"),
+        "node_modules/b": entry("1.0.0"),
+        "node_modules/gone": entry("1.0.0"),
+      },
+    }
+    const manifest = {dependencies: {a: "^2.0.0", added: "^1.0.0"}, devDependencies: {b: "^1.0.0"}}
+
+    const report = reconcileLockfileGraph(lockfile, manifest)
+    assert.deepEqual(report.rootMismatches.map(formatRootMismatch), [
+      'packages[""].dependencies.a is ^1.0.0 but package.json has ^2.0.0',
+      'package.json declares dependencies.added ^1.0.0 but packages[""] does not',
+      'packages[""].dependencies.gone is ^1.0.0 but package.json does not declare it',
+    ])
+    assert.deepEqual(reconcileLockfileGraph(lockfile).rootMismatches, [], "not checked without package.json")
+  })
+
+  test("follows workspace links", () => {
+    const lockfile = {
+      lockfileVersion: 3,
+      packages: {
+        "": {workspaces: ["packages/*"], dependencies: {web: "^1.0.0"}},
+        "node_modules/web": {resolved: "packages/web", link: true},
+        "packages/web": {version: "1.0.0", dependencies: {a: "^1.0.0"}},
+        "node_modules/a": entry("1.0.0"),
+      },
+    }
+
+    assert.deepEqual(reconcileLockfileGraph(lockfile), {pruned: [], unsatisfied: [], rootMismatches: []})
+  })
+
+  test("checks npm: aliases against the aliased package", () => {
+    const lockfile = {
+      lockfileVersion: 3,
+      packages: {
+        "": {dependencies: {old: "npm:lodash@^4.0.0"}},
+        "node_modules/old": {...entry("3.10.1"), name: "lodash"},
+      },
+    }
+
+    const report = reconcileLockfileGraph(lockfile)
+    assert.equal(report.unsatisfied.length, 1)
+    assert.equal(report.unsatisfied[0]!.version, "3.10.1")
+  })
+})
+
+describe("PackageResolver with lockGraph", () => {
+  const createTestOptions = (overrides: Partial<CliOptions> = {}): CliOptions => ({
+    strategy: "highest",
+    dryRun: false,
+    quiet: true,
+    json: false,
+    verbose: false,
+    regenerateLock: false,
+    lockGraph: true,
+    ...overrides,
+  })
+
+  const makeLock = (aVersion: string, bVersion: string, aNeedsB: string) =>
+    JSON.stringify({
+      name: "app",
+      lockfileVersion: 3,
+      packages: {
+        "": {name: "app", dependencies: {a: "^1.0.0", b: "*"}},
+        "node_modules/a": entry(aVersion, {b: aNeedsB}),
+        "node_modules/b": entry(bVersion),
+      },
+    })
+
+  test("leaves the lockfile unresolved when the merged entries disagree", async () => {
+    // Ours upgrades a (which now needs b@2) together with b; theirs bumps b within 1.x
+    const base = makeLock("1.0.0", "1.0.0", "^1.0.0")
+    const ours = makeLock("1.1.0", "2.0.0", "^2.0.0")
+    const theirs = makeLock("1.0.0", "1.2.0", "^1.0.0")
+
+    const consistent = await new PackageResolver(createTestOptions()).mergeJsonContents(base, ours, theirs)
+    assert.equal(consistent.resolved, true, consistent.errors.join(", "))
+
+    const result = await new PackageResolver(createTestOptions({strategy: "lowest"})).mergeJsonContents(
+      base,
+      ours,
+      theirs
+    )
+    assert.equal(result.resolved, false)
+    assert.equal(result.packageJson, undefined)
+    assert(result.errors.some(error => error.includes("node_modules/a requires b@^2.0.0 but node_modules/b is 1.2.0")))
+  })
+
+  test("prunes entries orphaned by the merge", async () => {
+    const base = makeLock("1.0.0", "1.0.0", "^1.0.0")
+    const ours = makeLock("1.0.0", "1.0.0", "^1.0.0")
+    const theirs = JSON.parse(base)
+    // Theirs moved a's b dependency to a nested copy, leaving the hoisted b unused
+    theirs.packages[""].dependencies = {a: "^1.0.0"}
+    theirs.packages["node_modules/a"] = entry("1.0.0")
+
+    const result = await new PackageResolver(createTestOptions()).mergeJsonContents(base, ours, JSON.stringify(theirs))
+    assert.equal(result.resolved, true, result.errors.join(", "))
+    assert.deepEqual(Object.keys(result.packageJson!.packages), ["", "node_modules/a"])
+  })
+
+  test("leaves the lockfile unresolved when its root disagrees with package.json", async () => {
+    const content = [
+      "{",
+      '  "name": "app",',
+      "<<<<<<< HEAD",
+      '  "version": "1.1.0",',
+      "=======",
+      '  "version": "1.2.0",',
+      ">>>>>>> feature",
+      '  "lockfileVersion": 3,',
+      '  "packages": {',
+      '    "": {"name": "app", "dependencies": {"a": "^1.0.0"}},',
+      '    "node_modules/a": {"version": "1.0.0"}',
+      "  }",
+      "}",
+    ].join("\n")
+    const resolver = () => new PackageResolver(createTestOptions())
+
+    const matching = await resolver().resolveConflicts(content, undefined, {dependencies: {a: "^1.0.0"}})
+    assert.equal(matching.resolved, true, matching.errors.join(", "))
+
+    const result = await resolver().resolveConflicts(content, undefined, {dependencies: {a: "^2.0.0"}})
+    assert.equal(result.resolved, false)
+    assert.deepEqual(result.errors, [
+      'Lockfile root disagrees with package.json: packages[""].dependencies.a is ^1.0.0 but package.json has ^2.0.0',
+    ])
+  })
+
+  test("keeps the default behaviour without lockGraph", async () => {
+    const resolver = new PackageResolver(createTestOptions({lockGraph: false}))
+    const result = await resolver.mergeJsonContents(
+      makeLock("1.0.0", "1.0.0", "^1.0.0"),
+      makeLock("1.1.0", "1.0.0", "^2.0.0"),
+      makeLock("1.0.0", "1.2.0", "^1.0.0")
+    )
+    assert.equal(result.resolved, true)
+  })
+})
@@ -0,0 +1,104 @@
+/**
+ * Tests for the offline lockfile root sync
+ */
+
+import {strict as assert} from "assert"
+import {test, describe} from "node:test"
+import {syncLockfileRoot} from "../lockfile-sync.js"
+
+const lockfile = () => ({
+  name: "app",
+  version: "1.0.0",
+  lockfileVersion: 3,
+  requires: true,
+  packages: {
+    "": {
+      name: "app",
+      version: "1.0.0",
+      dependencies: {a: "^1.0.0"},
+      devDependencies: {b: "^1.0.0"},
+    },
+    "node_modules/a": {version: "1.2.0"},
+    "node_modules/b": {version: "1.0.3", dev: true},
+  } as Record<string, any>,
+})
+
+describe("syncLockfileRoot", () => {
+  test("mirrors package.json fields in the root entry", () => {
+    const lock: any = lockfile()
+    const report = syncLockfileRoot(lock, {
+      name: "app",
+      version: "1.1.0",
+      dependencies: {a: "^1.1.0"},
+      devDependencies: {b: "^1.0.0"},
+      engines: {node: ">=18"},
+    })
+
+    assert.deepEqual(report.changed, ["version", "dependencies", "engines"])
+    assert.deepEqual(report.unsatisfied, [])
+    assert.equal(lock.version, "1.1.0")
+    assert.deepEqual(lock.packages[""], {
+      name: "app",
+      version: "1.1.0",
+      dependencies: {a: "^1.1.0"},
+      devDependencies: {b: "^1.0.0"},
+      engines: {node: ">=18"},
+    })
+  })
+
+  test("keeps existing keys in place and appends new ones", () => {
+    const lock: any = lockfile()
+    syncLockfileRoot(lock, {name: "app", version: "1.0.0", license: "MIT", dependencies: {a: "^1.0.0"}, bin: "cli.js"})
+
+    assert.deepEqual(Object.keys(lock.packages[""]), ["name", "version", "dependencies", "bin"])
+    assert.deepEqual(lock.packages[""].bin, {app: "cli.js"})
+  })
+
+  test("removes fields package.json no longer declares", () => {
+    const lock: any = lockfile()
+    const report = syncLockfileRoot(lock, {name: "app", version: "1.0.0", dependencies: {a: "^1.0.0"}})
+
+    assert.deepEqual(report.changed, ["devDependencies"])
+    assert.equal(lock.packages[""].devDependencies, undefined)
+  })
+
+  test("names the bin after the unscoped package name", () => {
+    const lock: any = lockfile()
+    syncLockfileRoot(lock, {name: "@scope/tool", version: "1.0.0", bin: "bin/tool.js"})
+
+    assert.deepEqual(lock.packages[""].bin, {tool: "bin/tool.js"})
+    assert.equal(lock.name, "@scope/tool")
+  })
+
+  test("reports root dependencies the lockfile entries no longer satisfy", () => {
+    const lock: any = lockfile()
+    const report = syncLockfileRoot(lock, {
+      name: "app",
+      version: "1.0.0",
+      dependencies: {a: "^2.0.0", c: "^1.0.0"},
+      devDependencies: {b: "^1.0.0"},
+    })
+
+    assert.deepEqual(report.unsatisfied, [
+      {from: "", name: "a", spec: "^2.0.0", resolvedTo: "node_modules/a", version: "1.2.0"},
+      {from: "", name: "c", spec: "^1.0.0"},
+    ])
+  })
+
+  test("creates the root entry first when it is missing", () => {
+    const lock: any = lockfile()
+    delete lock.packages[""]
+    syncLockfileRoot(lock, {name: "app", version: "1.0.0", dependencies: {a: "^1.0.0"}})
+
+    assert.equal(Object.keys(lock.packages)[0], "")
+    assert.deepEqual(lock.packages[""], {name: "app", version: "1.0.0", dependencies: {a: "^1.0.0"}})
+  })
+
+  test("leaves lockfiles without a packages map untouched", () => {
+    const lock = {name: "app", version: "1.0.0", lockfileVersion: 1, dependencies: {}}
+    const report = syncLockfileRoot(lock, {name: "app", version: "2.0.0"})
+
+    assert.deepEqual(report, {changed: [], unsatisfied: []})
+    assert.equal(lock.version, "1.0.0")
+  })
+})
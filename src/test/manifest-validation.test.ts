@@ -0,0 +1,129 @@
+/**
+ * Tests for the merged package.json checks
+ */
+
+import {strict as assert} from "assert"
+import {test, describe} from "node:test"
+import {findPeerMismatches, formatManifestIssue, isManifest, validateManifest} from "../manifest-validation.js"
+
+describe("validateManifest", () => {
+  const fields = (issues: {field: string}[]) => issues.map(issue => issue.field)
+
+  test("accepts a valid manifest", () => {
+    const manifest = {
+      name: "app",
+      packageManager: "pnpm@9.1.0+sha224.953c8233f7a92884eee2de69a1b92d1f2ec1655e66d08071ba9a02fa",
+      engines: {node: ">=18"},
+      scripts: {test: "NODE_ENV=test jest --ci && tsc"},
+      dependencies: {
+        react: "^18.2.0",
+        next: "latest",
+        lib: "npm:other-lib@^2.0.0",
+        local: "file:../local",
+        tool: "github:org/tool#v1.0.0",
+        shorthand: "org/repo",
+        tarball: "https://example.com/pkg.tgz",
+      },
+      devDependencies: {react: "^18.2.0", jest: "^29.0.0", typescript: "~5.4.0"},
+      peerDependencies: {"react-dom": "*"},
+      peerDependenciesMeta: {"react-dom": {optional: true}},
+    }
+    assert.deepEqual(validateManifest(manifest), [])
+  })
+
+  test("flags invalid ranges in dependency maps", () => {
+    const issues = validateManifest({
+      dependencies: {a: "^1.2.x.y", b: "<<<<<<< HEAD", c: "npm:other@1..2"},
+      optionalDependencies: {d: 1 as any},
+    })
+    assert.deepEqual(fields(issues), ["dependencies.a", "dependencies.b", "dependencies.c", "optionalDependencies.d"])
+    assert.equal(formatManifestIssue(issues[0]!), 'dependencies.a: invalid version range "^1.2.x.y"')
+  })
+
+  test("flags a package in dependencies and devDependencies with different specs", () => {
+    const issues = validateManifest({
+      dependencies: {lodash: "^4.17.21", react: "^18.2.0"},
+      devDependencies: {lodash: "^4.17.20", react: "^18.2.0"},
+    })
+    assert.deepEqual(issues, [
+      {field: "devDependencies.lodash", message: '"^4.17.20" differs from "^4.17.21" in dependencies'},
+    ])
+  })
+
+  test("flags peerDependenciesMeta entries without a peer", () => {
+    const issues = validateManifest({
+      peerDependencies: {react: "^18.0.0"},
+      peerDependenciesMeta: {react: {optional: true}, "react-dom": {optional: true}},
+    })
+    assert.deepEqual(fields(issues), ["peerDependenciesMeta.react-dom"])
+  })
+
+  test("flags scripts calling a binary of a removed dependency", () => {
+    const ours = {devDependencies: {jest: "^29.0.0", "@biomejs/biome": "^1.0.0", vitest: "^1.0.0"}}
+    const theirs = {devDependencies: {vitest: "^1.0.0"}}
+    const merged = {
+      scripts: {
+        test: "vitest run",
+        "test:legacy": "CI=1 npx jest --ci",
+        lint: "tsc --noEmit && biome check .",
+      },
+      devDependencies: {vitest: "^1.0.0"},
+    }
+
+    const issues = validateManifest(merged, [ours, theirs])
+    assert.deepEqual(fields(issues), ["scripts.test:legacy", "scripts.lint"])
+    assert.equal(issues[1]!.message, 'runs "biome", but @biomejs/biome is no longer a dependency')
+    assert.deepEqual(validateManifest(merged), [], "nothing is removed without the sides")
+  })
+
+  test("does not flag a binary a kept dependency still provides", () => {
+    const ours = {devDependencies: {jest: "^29.0.0", "@types/jest": "^29.0.0", "@types/node": "^20.0.0"}}
+    const merged = {scripts: {test: "jest", node: "node index.js"}, devDependencies: {jest: "^29.0.0"}}
+
+    assert.deepEqual(validateManifest(merged, [ours]), [])
+  })
+
+  test("flags malformed packageManager and engines values", () => {
+    assert.deepEqual(fields(validateManifest({packageManager: "pnpm"})), ["packageManager"])
+    assert.deepEqual(fields(validateManifest({packageManager: "yarn@^4.0.0"})), ["packageManager"])
+    assert.deepEqual(fields(validateManifest({engines: ">=18" as any})), ["engines"])
+    assert.deepEqual(fields(validateManifest({engines: {node: ">=18", npm: "ten"}})), ["engines.npm"])
+  })
+})
+
+describe("findPeerMismatches", () => {
+  test("finds peer ranges the installed spec does not satisfy", () => {
+    const mismatches = findPeerMismatches({
+      dependencies: {react: "^19.0.0", lib: "workspace:*"},
+      devDependencies: {"react-dom": "^18.3.0", vue: "^3.4.0"},
+      peerDependencies: {react: "^18.0.0", "react-dom": ">=18", vue: "^3.0.0 || ^2.7.0", lib: "^1.0.0"},
+    })
+    assert.deepEqual(mismatches, [{name: "react", peer: "^18.0.0", field: "dependencies", spec: "^19.0.0"}])
+  })
+
+  test("leaves out mismatches one of the sides already had", () => {
+    const manifest = {
+      dependencies: {react: "^19.0.0", vue: "^3.4.0"},
+      peerDependencies: {react: "^18.0.0", vue: "^2.7.0"},
+    }
+    const ours = {dependencies: {react: "^19.0.0", vue: "^2.7.0"}, peerDependencies: {react: "^18.0.0", vue: "^2.7.0"}}
+    assert.deepEqual(
+      findPeerMismatches(manifest, [ours]).map(mismatch => mismatch.name),
+      ["vue"]
+    )
+  })
+
+  test("is reported by validateManifest", () => {
+    const issues = validateManifest({devDependencies: {react: "^19.0.0"}, peerDependencies: {react: "^18.0.0"}})
+    assert.deepEqual(issues, [
+      {field: "peerDependencies.react", message: '"^18.0.0" is not satisfied by devDependencies.react "^19.0.0"'},
+    ])
+  })
+})
+
+describe("isManifest", () => {
+  test("tells package.json apart from npm lockfiles", () => {
+    assert.equal(isManifest({name: "app"}), true)
+    assert.equal(isManifest({name: "app", lockfileVersion: 3}), false)
+  })
+})
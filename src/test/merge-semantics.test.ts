@@ -210,6 +210,77 @@ describe("Lockfile merge scenarios", () => {
   })
 })
 
+describe("Lockfile v1 merge scenarios", () => {
+  const lockWith = (dependencies: Record<string, any>) =>
+    j({name: "app", version: "1.0.0", lockfileVersion: 1, requires: true, dependencies})
+
+  const entry = (version: string, extra: Record<string, any> = {}) => ({
+    version,
+    resolved: `https://r/pkg-${version}.tgz`,
+    integrity: `sha512-${version}`,
+    ...extra,
+  })
+
+  test("keeps a tree entry whole with its nested dependencies and requires", async () => {
+    const base = lockWith({pkg: entry("1.0.0", {requires: {dep: "^1.0.0"}})})
+    const ours = lockWith({
+      pkg: entry("1.5.0", {requires: {dep: "^1.5.0"}, dependencies: {dep: entry("1.5.0")}}),
+    })
+    const theirs = lockWith({
+      pkg: entry("2.0.0", {requires: {dep: "^2.0.0", extra: "^1.0.0"}, dependencies: {dep: entry("2.0.0")}}),
+    })
+
+    const result = await makeResolver("highest").mergeJsonContents(base, ours, theirs)
+    assert.equal(result.resolved, true)
+    const merged = result.packageJson!.dependencies!.pkg as any
+    assert.equal(merged.version, "2.0.0")
+    assert.deepEqual(merged.requires, {dep: "^2.0.0", extra: "^1.0.0"})
+    assert.equal(merged.dependencies.dep.version, "2.0.0")
+    assert.equal(result.conflicts[0]!.field, "dependencies.pkg")
+  })
+
+  test("resolves nested entries atomically", async () => {
+    const base = lockWith({pkg: entry("1.0.0", {dependencies: {dep: entry("1.0.0")}})})
+    const ours = lockWith({pkg: entry("1.0.0", {dependencies: {dep: entry("1.1.0")}})})
+    const theirs = lockWith({pkg: entry("1.0.0", {dependencies: {dep: entry("1.2.0")}})})
+
+    const result = await makeResolver("lowest").mergeJsonContents(base, ours, theirs)
+    const dep = (result.packageJson!.dependencies!.pkg as any).dependencies.dep
+    assert.deepEqual(dep, entry("1.1.0"))
+    assert.equal(result.conflicts[0]!.field, "dependencies.pkg.dependencies.dep")
+  })
+
+  test("treats entries without a tarball as atomic too", async () => {
+    const bundled = (version: string, dep: string) => ({version, bundled: true, requires: {dep}})
+    const base = lockWith({pkg: bundled("1.0.0", "^1.0.0")})
+    const ours = lockWith({pkg: bundled("1.1.0", "^1.1.0")})
+    const theirs = lockWith({pkg: bundled("1.2.0", "^1.2.0")})
+
+    const result = await makeResolver("lowest").mergeJsonContents(base, ours, theirs)
+    assert.deepEqual(result.packageJson!.dependencies!.pkg, bundled("1.1.0", "^1.1.0"))
+  })
+
+  test("resolves requires ranges as versions", async () => {
+    const base = lockWith({pkg: {...entry("1.0.0"), requires: {dep: "^1.0.0"}}})
+    const ours = lockWith({pkg: {...entry("1.0.0"), requires: {dep: "^1.1.0"}}})
+    const theirs = lockWith({pkg: {...entry("1.0.0"), requires: {dep: "^1.2.0"}}})
+
+    const result = await makeResolver("highest").mergeJsonContents(base, ours, theirs)
+    assert.deepEqual((result.packageJson!.dependencies!.pkg as any).requires, {dep: "^1.2.0"})
+    assert.equal(result.conflicts[0]!.confidence, "range")
+  })
+
+  test("tree entries added on different branches both survive", async () => {
+    const result = await makeResolver().mergeJsonContents(
+      lockWith({}),
+      lockWith({a: entry("1.0.0")}),
+      lockWith({b: entry("2.0.0")})
+    )
+    assert.deepEqual(Object.keys(result.packageJson!.dependencies!), ["a", "b"])
+    assert.equal(result.packageJson!.lockfileVersion, 1)
+  })
+})
+
 describe("ConflictParser additional coverage", () => {
   test("parses multiple conflicts in one file", () => {
     const content = [
@@ -126,16 +126,156 @@ describe("CLI multi-package-manager behavior", () => {
     })
   })
 
-  test("conflicted yarn.lock reports the yarn command and exits 1", async () => {
+  test("conflicted yarn classic lockfile is merged offline", async () => {
     await withTempDir(async dir => {
       await writeFile(join(dir, "package.json"), '{\n  "name": "app"\n}\n', "utf8")
       await writeFile(join(dir, "yarn.lock"), CONFLICTED_YARN_LOCK, "utf8")
 
+      const result = await runCli(["--no-regenerate-lock"], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert.equal(
+        await readFile(join(dir, "yarn.lock"), "utf8"),
+        [
+          "# yarn lockfile v1",
+          "lodash@^4.17.20:",
+          '  version "4.17.20"',
+          "",
+          "lodash@^4.17.21:",
+          '  version "4.17.21"',
+          "",
+        ].join("\n")
+      )
+    })
+  })
+
+  test("conflicted yarn Berry lockfile is merged offline", async () => {
+    await withTempDir(async dir => {
+      const entry = (version: string) =>
+        [
+          '"lodash@npm:^4.17.20":',
+          `  version: ${version}`,
+          `  resolution: "lodash@npm:${version}"`,
+          `  checksum: 10c0/${version}`,
+          "  languageName: node",
+          "  linkType: hard",
+        ].join("\n")
+      const metadata = "__metadata:\n  version: 8\n  cacheKey: 10c0\n"
+      const conflicted = [
+        metadata,
+        "<<<<<<< HEAD",
+        entry("4.17.21"),
+        "=======",
+        entry("4.17.20"),
+        ">>>>>>> feature",
+        "",
+      ]
+
+      await writeFile(join(dir, "package.json"), '{\n  "name": "app"\n}\n', "utf8")
+      await writeFile(join(dir, "yarn.lock"), conflicted.join("\n"), "utf8")
+
+      const result = await runCli(["--no-regenerate-lock", "-s", "lowest"], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert.equal(await readFile(join(dir, "yarn.lock"), "utf8"), `${metadata}\n${entry("4.17.20")}\n`)
+    })
+  })
+
+  test("yarn.lock that cannot be parsed reports the yarn command and exits 1", async () => {
+    await withTempDir(async dir => {
+      const brokenYarnLock = CONFLICTED_YARN_LOCK.replace('  version "4.17.20"', '   version "4.17.20"')
+      await writeFile(join(dir, "package.json"), '{\n  "name": "app"\n}\n', "utf8")
+      await writeFile(join(dir, "yarn.lock"), brokenYarnLock, "utf8")
+
       const result = await runCli(["--no-regenerate-lock"], dir)
       assert.equal(result.code, 1)
       assert(result.stderr.includes("yarn install"))
-      // The tool must not rewrite a format it doesn't own
-      assert.equal(await readFile(join(dir, "yarn.lock"), "utf8"), CONFLICTED_YARN_LOCK)
+      assert(result.stderr.includes("unexpected indentation"))
+      assert.equal(await readFile(join(dir, "yarn.lock"), "utf8"), brokenYarnLock)
+    })
+  })
+
+  test("conflicted pnpm-lock.yaml is merged offline with specifiers from package.json", async () => {
+    await withTempDir(async dir => {
+      const importer = (specifier: string, version: string) =>
+        [
+          "importers:",
+          "",
+          "  .:",
+          "    dependencies:",
+          "      lodash:",
+          `        specifier: ${specifier}`,
+          `        version: ${version}`,
+          "",
+          "packages:",
+          "",
+          `  lodash@${version}:`,
+          `    resolution: {integrity: sha512-${version}==}`,
+          "",
+          "snapshots:",
+          "",
+          `  lodash@${version}: {}`,
+        ].join("\n")
+      const conflicted = [
+        "lockfileVersion: '9.0'",
+        "",
+        "<<<<<<< HEAD",
+        importer("^4.17.20", "4.17.20"),
+        "=======",
+        importer("^4.17.21", "4.17.21"),
+        ">>>>>>> feature",
+        "",
+      ]
+
+      await writeFile(join(dir, "package.json"), '{\n  "dependencies": {"lodash": "^4.17.21"}\n}\n', "utf8")
+      await writeFile(join(dir, "pnpm-lock.yaml"), conflicted.join("\n"), "utf8")
+
+      const result = await runCli(["--no-regenerate-lock", "-s", "lowest"], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert.equal(
+        await readFile(join(dir, "pnpm-lock.yaml"), "utf8"),
+        `lockfileVersion: '9.0'\n\n${importer("^4.17.21", "4.17.21")}\n`
+      )
+    })
+  })
+
+  test("conflicted bun.lock is merged offline", async () => {
+    await withTempDir(async dir => {
+      const lodash = (version: string) => `    "lodash": ["lodash@${version}", "", {}, "sha512-${version}=="],`
+      const lockfile = (entry: string) =>
+        [
+          "{",
+          '  "lockfileVersion": 1,',
+          '  "workspaces": {',
+          '    "": {',
+          '      "name": "app",',
+          "    },",
+          "  },",
+          '  "packages": {',
+          entry,
+          "  }",
+          "}",
+          "",
+        ].join("\n")
+      const conflicted = lockfile(
+        ["<<<<<<< HEAD", lodash("4.17.21"), "=======", lodash("4.17.20"), ">>>>>>> feature"].join("\n")
+      )
+
+      await writeFile(join(dir, "package.json"), '{\n  "name": "app"\n}\n', "utf8")
+      await writeFile(join(dir, "bun.lock"), conflicted, "utf8")
+
+      const result = await runCli(["--no-regenerate-lock"], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert.equal(await readFile(join(dir, "bun.lock"), "utf8"), lockfile(lodash("4.17.21")))
+    })
+  })
+
+  test("binary bun.lockb is pointed at bun install after a merge", async () => {
+    await withTempDir(async dir => {
+      await writeFile(join(dir, "package.json"), CONFLICTED_PKG, "utf8")
+      await writeFile(join(dir, "bun.lockb"), Buffer.from([0x23, 0x21, 0x00, 0x01]))
+
+      const result = await runCli([], dir)
+      assert.equal(result.code, 0, result.stderr)
+      assert(result.stdout.includes('bun.lockb is binary and cannot be merged: run "bun install"'))
     })
   })
 
@@ -168,7 +308,7 @@ describe("CLI multi-package-manager behavior", () => {
 
       const result = await runCli(["--dry-run", "--no-regenerate-lock"], dir)
       assert.equal(result.code, 0, result.stderr)
-      assert(result.stdout.includes("Would resolve yarn.lock"))
+      assert(result.stdout.includes("Would write resolved file"))
       assert.equal(await readFile(join(dir, "yarn.lock"), "utf8"), CONFLICTED_YARN_LOCK)
     })
   })
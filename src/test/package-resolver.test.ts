@@ -7,6 +7,7 @@ import {test, describe} from "node:test"
 import {mkdtemp, readFile, rm} from "fs/promises"
 import {tmpdir} from "os"
 import {join} from "path"
+import {parseConfig} from "../config.js"
 import {PackageResolver} from "../package-resolver.js"
 import {CliOptions} from "../types.js"
 
@@ -79,8 +80,15 @@ describe("PackageResolver", () => {
     const result = await resolver.resolveConflicts(content)
 
     assert.equal(result.resolved, true)
-    assert.equal(result.conflicts.length, 1)
-    assert.equal(result.conflicts[0]!.field, "dependencies.lodash")
+    assert.deepEqual(
+      result.conflicts.map(conflict => [conflict.field, conflict.kind]),
+      [
+        ["dependencies.lodash", undefined],
+        // Without a base, one-sided dependencies may be additions or deletions
+        ["dependencies.express", "added-or-deleted"],
+        ["dependencies.react", "added-or-deleted"],
+      ]
+    )
 
     // Should merge all dependencies and resolve version conflict
     const deps = result.packageJson?.dependencies
@@ -252,7 +260,7 @@ describe("PackageResolver", () => {
     const result = await resolver.resolveConflicts(content)
 
     assert.equal(result.resolved, true)
-    assert.equal(result.conflicts.length, 2)
+    assert.equal(result.conflicts.length, 4)
     assert(result.conflicts.some(conflict => conflict.field === "dependencies.lodash"))
     assert(result.conflicts.some(conflict => conflict.field === "dependencies.react"))
 
@@ -375,4 +383,357 @@ describe("PackageResolver", () => {
     // Should handle gracefully
     assert(result.resolved || result.errors.length > 0)
   })
+
+  test("should record the confidence of each resolution", async () => {
+    const content = `{
+  "name": "test-package",
+<<<<<<< HEAD
+  "version": "1.0.0",
+  "dependencies": {
+    "lodash": "^4.17.21",
+    "private-lib": "github:org/private-lib#main"
+  }
+=======
+  "version": "2.0.0",
+  "dependencies": {
+    "lodash": "^4.17.20",
+    "private-lib": "github:org/private-lib#next"
+  }
+>>>>>>> feature
+}`
+
+    const resolver = new PackageResolver(createTestOptions())
+    const result = await resolver.resolveConflicts(content)
+
+    assert.equal(result.resolved, true)
+    const confidenceOf = (field: string) => result.conflicts.find(conflict => conflict.field === field)?.confidence
+    assert.equal(confidenceOf("version"), "semver")
+    assert.equal(confidenceOf("dependencies.lodash"), "range")
+    assert.equal(confidenceOf("dependencies.private-lib"), "fallback")
+  })
+
+  test("should keep the reason, rule and base of each resolution", async () => {
+    const content = `{
+  "name": "test-package",
+<<<<<<< HEAD
+  "version": "2.0.0",
+  "dependencies": {
+    "lodash": "^4.17.21"
+  }
+||||||| base
+  "version": "1.0.0",
+  "dependencies": {
+    "lodash": "^4.17.0"
+  }
+=======
+  "version": "2.1.0",
+  "dependencies": {
+    "lodash": "^4.17.20"
+  }
+>>>>>>> feature
+}`
+
+    const config = parseConfig({packages: {lodash: "lowest"}}, "test")
+    const result = await new PackageResolver(createTestOptions({config})).resolveConflicts(content)
+
+    assert.equal(result.resolved, true)
+    const [version, lodash] = result.conflicts
+    assert.equal(version!.reason, "their version 2.1.0 is higher than 2.0.0")
+    assert.equal(version!.baseValue, "1.0.0")
+    assert.equal(version!.rule, undefined)
+    assert.equal(lodash!.reason, "their version 4.17.20 is lower than 4.17.21")
+    assert.equal(lodash!.baseValue, "^4.17.0")
+    assert.equal(lodash!.rule, "lodash")
+  })
+
+  test("should record manifest issues, and leave the file unresolved with strict", async () => {
+    const content = `{
+  "name": "test-package",
+<<<<<<< HEAD
+  "scripts": {
+    "test": "vitest"
+  },
+  "peerDependencies": {
+    "react": "^18.0.0"
+  },
+  "devDependencies": {
+    "vitest": "^1.0.0"
+  }
+||||||| base
+  "scripts": {
+    "test": "jest"
+  },
+  "peerDependencies": {
+    "react": "^18.0.0",
+    "react-dom": "^18.0.0"
+  },
+  "devDependencies": {
+    "jest": "^29.0.0"
+  }
+=======
+  "scripts": {
+    "test": "jest"
+  },
+  "peerDependencies": {
+    "react": "^18.0.0",
+    "react-dom": "^18.0.0"
+  },
+  "peerDependenciesMeta": {
+    "react-dom": {"optional": true}
+  },
+  "devDependencies": {
+    "jest": "^29.0.0"
+  }
+>>>>>>> feature
+}`
+
+    const result = await new PackageResolver(createTestOptions()).resolveConflicts(content)
+    assert.equal(result.resolved, true)
+    assert.deepEqual(
+      result.manifestIssues?.map(issue => issue.field),
+      ["peerDependenciesMeta.react-dom"]
+    )
+
+    const strict = await new PackageResolver(createTestOptions({strict: true})).resolveConflicts(content)
+    assert.equal(strict.resolved, false)
+    assert.equal(strict.packageJson, undefined)
+    assert.deepEqual(strict.errors, [
+      "Invalid merged package.json: peerDependenciesMeta.react-dom: has no matching entry in peerDependencies",
+    ])
+  })
+
+  test("should align peer ranges with the merged dependency spec", async () => {
+    const content = `{
+  "name": "test-package",
+<<<<<<< HEAD
+  "peerDependencies": {
+    "react": "^18.0.0 || ^19.0.0"
+  },
+  "devDependencies": {
+    "react": "^19.0.0"
+  }
+||||||| base
+  "peerDependencies": {
+    "react": "^18.0.0 || ^19.0.0"
+  },
+  "devDependencies": {
+    "react": "^18.2.0"
+  }
+=======
+  "peerDependencies": {
+    "react": "^18.0.0"
+  },
+  "devDependencies": {
+    "react": "^18.2.0"
+  }
+>>>>>>> feature
+}`
+    const resolve = (strategy: CliOptions["strategy"]) =>
+      new PackageResolver(createTestOptions({strategy})).resolveConflicts(content)
+
+    const highest = await resolve("highest")
+    assert.equal(highest.resolved, true)
+    assert.equal(highest.packageJson?.peerDependencies?.react, "^19.0.0")
+    assert.equal(highest.packageJson?.devDependencies?.react, "^19.0.0")
+    const alignment = highest.conflicts.find(conflict => conflict.kind === "peer-alignment")
+    assert.equal(alignment?.field, "peerDependencies.react")
+    assert.equal(
+      alignment?.reason,
+      "devDependencies.react ^19.0.0 is outside the peer range ^18.0.0: both set to ^19.0.0"
+    )
+
+    const lowest = await resolve("lowest")
+    assert.equal(lowest.packageJson?.peerDependencies?.react, "^18.0.0")
+    assert.equal(lowest.packageJson?.devDependencies?.react, "^18.0.0")
+
+    // ours/theirs cannot pick a field: the mismatch is only reported
+    const theirs = await resolve("theirs")
+    assert.equal(theirs.packageJson?.peerDependencies?.react, "^18.0.0")
+    assert.equal(theirs.packageJson?.devDependencies?.react, "^19.0.0")
+    assert.deepEqual(
+      theirs.manifestIssues?.map(issue => issue.field),
+      ["peerDependencies.react"]
+    )
+
+    const intersect = await resolve("intersect")
+    assert.equal(intersect.resolved, false)
+    assert.match(intersect.errors[0]!, /Cannot resolve peerDependencies\.react: peer range \^18\.0\.0/)
+  })
+
+  test("should keep a peer mismatch both sides already had", async () => {
+    const content = `{
+  "name": "test-package",
+<<<<<<< HEAD
+  "description": "ours",
+=======
+  "description": "theirs",
+>>>>>>> feature
+  "peerDependencies": {
+    "react": "^17.0.0"
+  },
+  "devDependencies": {
+    "react": "^18.0.0"
+  }
+}`
+
+    for (const strategy of ["highest", "lowest"] as const) {
+      const result = await new PackageResolver(createTestOptions({strategy, strict: true})).resolveConflicts(content)
+      assert.equal(result.resolved, true, result.errors.join(", "))
+      assert.equal(result.packageJson?.peerDependencies?.react, "^17.0.0")
+      assert.equal(result.packageJson?.devDependencies?.react, "^18.0.0")
+      assert.deepEqual(
+        result.conflicts.map(conflict => conflict.field),
+        ["description"]
+      )
+      assert.equal(result.manifestIssues, undefined)
+    }
+  })
+
+  test("should leave the file unresolved with failOnUncertain when a resolution is a guess", async () => {
+    const content = `{
+  "name": "test-package",
+<<<<<<< HEAD
+  "version": "1.0.0",
+  "dependencies": {
+    "private-lib": "github:org/private-lib#main"
+  }
+=======
+  "version": "2.0.0",
+  "dependencies": {
+    "private-lib": "github:org/private-lib#next"
+  }
+>>>>>>> feature
+}`
+
+    const resolver = new PackageResolver(createTestOptions({failOnUncertain: true}))
+    const result = await resolver.resolveConflicts(content)
+
+    assert.equal(result.resolved, false)
+    assert.equal(result.packageJson, undefined)
+    assert.equal(result.errors.length, 1)
+    assert(result.errors[0]!.includes("dependencies.private-lib"))
+    assert(result.errors[0]!.includes("fallback"))
+  })
+
+  test("should still resolve with failOnUncertain when every resolution is certain", async () => {
+    const content = `{
+  "name": "test-package",
+<<<<<<< HEAD
+  "version": "1.0.0"
+=======
+  "version": "2.0.0"
+>>>>>>> feature
+}`
+
+    const resolver = new PackageResolver(createTestOptions({failOnUncertain: true}))
+    const result = await resolver.resolveConflicts(content)
+
+    assert.equal(result.resolved, true)
+    assert.equal(result.packageJson?.version, "2.0.0")
+  })
+
+  test("should record the marker labels on resolved conflicts", async () => {
+    const content = `{
+  "name": "test-package",
+<<<<<<< HEAD
+  "version": "1.0.0",
+||||||| base
+  "version": "0.9.0",
+=======
+  "version": "2.0.0",
+>>>>>>> feature/x
+  "private": true
+}`
+
+    const result = await new PackageResolver(createTestOptions()).resolveConflicts(content)
+    assert.equal(result.resolved, true)
+    assert.equal(result.conflicts.length, 1)
+    assert.equal(result.conflicts[0]!.oursLabel, "HEAD")
+    assert.equal(result.conflicts[0]!.baseLabel, "base")
+    assert.equal(result.conflicts[0]!.theirsLabel, "feature/x")
+  })
+
+  test("should flag dependencies only one side has as added-or-deleted without a base", async () => {
+    const content = `{
+  "name": "test-package",
+<<<<<<< HEAD
+  "dependencies": {
+    "react": "^18.2.0"
+  }
+=======
+  "dependencies": {
+    "lodash": "^4.17.21",
+    "react": "^18.2.0"
+  }
+>>>>>>> feature
+}`
+
+    const result = await new PackageResolver(createTestOptions()).resolveConflicts(content)
+    assert.equal(result.resolved, true)
+    assert.equal(result.packageJson?.dependencies?.lodash, "^4.17.21")
+    assert.equal(result.conflicts.length, 1)
+    assert.equal(result.conflicts[0]!.kind, "added-or-deleted")
+    assert.equal(result.conflicts[0]!.ourValue, "<deleted>")
+    assert.equal(result.conflicts[0]!.confidence, "fallback")
+    assert.match(result.conflicts[0]!.reason!, /only one side has it/)
+
+    const strict = await new PackageResolver(createTestOptions({failOnUncertain: true})).resolveConflicts(content)
+    assert.equal(strict.resolved, false)
+    assert(strict.errors[0]!.includes("dependencies.lodash (fallback)"))
+
+    // With the common ancestor the addition is certain
+    const base = JSON.stringify({name: "test-package", dependencies: {react: "^18.2.0"}})
+    const threeWay = await new PackageResolver(createTestOptions()).resolveConflicts(content, base)
+    assert.equal(threeWay.resolved, true)
+    assert.equal(threeWay.conflicts.length, 0)
+  })
+
+  test("should intersect dependency ranges and resolve the package version as highest", async () => {
+    const content = `{
+  "name": "test-package",
+<<<<<<< HEAD
+  "version": "1.0.0",
+  "dependencies": {
+    "lodash": "^4.17.0",
+    "react": "^18.2.0"
+  }
+=======
+  "version": "2.0.0",
+  "dependencies": {
+    "lodash": "~4.17.21",
+    "react": ">=18.0.0 <18.3.0"
+  }
+>>>>>>> feature
+}`
+
+    const resolver = new PackageResolver(createTestOptions({strategy: "intersect"}))
+    const result = await resolver.resolveConflicts(content)
+
+    assert.equal(result.resolved, true)
+    assert.equal(result.packageJson?.version, "2.0.0")
+    assert.equal(result.packageJson?.dependencies?.lodash, "~4.17.21")
+    assert.equal(result.packageJson?.dependencies?.react, ">=18.2.0 <18.3.0")
+  })
+
+  test("should report a hard conflict for disjoint ranges under intersect", async () => {
+    const content = `{
+  "name": "test-package",
+<<<<<<< HEAD
+  "dependencies": {
+    "react": "^17.0.0"
+  }
+=======
+  "dependencies": {
+    "react": "^18.0.0"
+  }
+>>>>>>> feature
+}`
+
+    const resolver = new PackageResolver(createTestOptions({strategy: "intersect"}))
+    const result = await resolver.resolveConflicts(content)
+
+    assert.equal(result.resolved, false)
+    assert.equal(result.packageJson, undefined)
+    assert(result.errors.some(error => error.includes("dependencies.react") && error.includes("do not intersect")))
+  })
 })
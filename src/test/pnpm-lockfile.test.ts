@@ -0,0 +1,299 @@
+/**
+ * Tests for the pnpm lockfile parser, serializer and merge
+ */
+
+import {strict as assert} from "assert"
+import {test, describe} from "node:test"
+import {
+  isPnpmLockfile,
+  parsePnpmLockfile,
+  pnpmDependencyKey,
+  reachablePnpmEntries,
+  stringifyPnpmLockfile,
+} from "../pnpm-lockfile.js"
+import {PackageResolver} from "../package-resolver.js"
+import {CliOptions, PackageJson} from "../types.js"
+
+const LOCKFILE_V9 = [
+  "lockfileVersion: '9.0'",
+  "",
+  "settings:",
+  "  autoInstallPeers: true",
+  "  excludeLinksFromLockfile: false",
+  "",
+  "importers:",
+  "",
+  "  .:",
+  "    dependencies:",
+  "      '@scope/pkg':",
+  "        specifier: ^1.0.0",
+  "        version: 1.2.0",
+  "      react-dom:",
+  "        specifier: ^18.2.0",
+  "        version: 18.2.0(react@18.2.0)",
+  "    devDependencies:",
+  "      typescript:",
+  "        specifier: '*'",
+  "        version: 5.4.5",
+  "",
+  "  packages/a:",
+  "    dependencies:",
+  "      shared:",
+  "        specifier: workspace:*",
+  "        version: link:../shared",
+  "",
+  "packages:",
+  "",
+  "  '@scope/pkg@1.2.0':",
+  "    resolution: {integrity: sha512-abc==}",
+  "    engines: {node: '>=18'}",
+  "",
+  "  fsevents@2.3.3:",
+  "    resolution: {integrity: sha512-def==}",
+  "    engines: {node: ^8.16.0 || ^10.6.0 || >=11.0.0}",
+  "    os: [darwin]",
+  "",
+  "  react-dom@18.2.0:",
+  "    resolution: {integrity: sha512-x==}",
+  "    peerDependencies:",
+  "      react: ^18.2.0",
+  "",
+  "  react@18.2.0:",
+  "    resolution: {integrity: sha512-y==}",
+  "",
+  "  typescript@5.4.5:",
+  "    resolution: {integrity: sha512-z==}",
+  "    engines: {node: '>=14.17'}",
+  "    hasBin: true",
+  "",
+  "snapshots:",
+  "",
+  "  '@scope/pkg@1.2.0': {}",
+  "",
+  "  fsevents@2.3.3:",
+  "    optional: true",
+  "",
+  "  react-dom@18.2.0(react@18.2.0):",
+  "    dependencies:",
+  "      react: 18.2.0",
+  "",
+  "  react@18.2.0: {}",
+  "",
+  "  typescript@5.4.5: {}",
+  "",
+].join("\n")
+
+const LOCKFILE_V6 = [
+  "lockfileVersion: '6.0'",
+  "",
+  "dependencies:",
+  "  react-dom:",
+  "    specifier: ^18.2.0",
+  "    version: 18.2.0(react@18.2.0)",
+  "",
+  "packages:",
+  "",
+  "  /loose-envify@1.4.0:",
+  "    resolution: {integrity: sha512-l==}",
+  "    hasBin: true",
+  "    dev: false",
+  "",
+  "  /react-dom@18.2.0(react@18.2.0):",
+  "    resolution: {integrity: sha512-x==}",
+  "    peerDependencies:",
+  "      react: ^18.2.0",
+  "    dependencies:",
+  "      react: 18.2.0",
+  "    dev: false",
+  "",
+  "  /react@18.2.0:",
+  "    resolution: {integrity: sha512-y==}",
+  "    engines: {node: '>=0.10.0'}",
+  "    dependencies:",
+  "      loose-envify: 1.4.0",
+  "    dev: false",
+  "",
+].join("\n")
+
+/** A lockfileVersion 9 lockfile of a single project with the given dependencies */
+const lockWith = (dependencies: Record<string, [specifier: string, version: string]>) => {
+  const names = Object.keys(dependencies).sort()
+  const keys = names.map(name => `${name}@${dependencies[name]![1]}`)
+  return [
+    "lockfileVersion: '9.0'",
+    "",
+    "importers:",
+    "",
+    "  .:",
+    "    dependencies:",
+    ...names.flatMap(name => [
+      `      ${name}:`,
+      `        specifier: ${dependencies[name]![0]}`,
+      `        version: ${dependencies[name]![1]}`,
+    ]),
+    "",
+    "packages:",
+    "",
+    keys.map(key => `  ${key}:\n    resolution: {integrity: sha512-${key}==}`).join("\n\n"),
+    "",
+    "snapshots:",
+    "",
+    keys.map(key => `  ${key}: {}`).join("\n\n"),
+    "",
+  ].join("\n")
+}
+
+function makeResolver(strategy: CliOptions["strategy"] = "highest", config?: CliOptions["config"]): PackageResolver {
+  return new PackageResolver({
+    strategy,
+    dryRun: true,
+    quiet: true,
+    json: false,
+    verbose: false,
+    regenerateLock: false,
+    config,
+  })
+}
+
+describe("pnpm lockfiles", () => {
+  test("detects the lockfile format", () => {
+    assert.equal(isPnpmLockfile(LOCKFILE_V9), true)
+    assert.equal(isPnpmLockfile('{\n  "lockfileVersion": 3\n}\n'), false)
+  })
+
+  test("round-trips lockfileVersion 9 and 6 byte for byte", () => {
+    assert.equal(stringifyPnpmLockfile(parsePnpmLockfile(LOCKFILE_V9)), LOCKFILE_V9)
+    assert.equal(stringifyPnpmLockfile(parsePnpmLockfile(LOCKFILE_V6)), LOCKFILE_V6)
+  })
+
+  test("quotes strings YAML would read as another type", () => {
+    const content = stringifyPnpmLockfile({
+      lockfileVersion: "9.0",
+      settings: {flag: "true", version: "1.2.3", range: ">=1 <2", comment: "a #b", empty: ""},
+    })
+    assert.equal(
+      content,
+      "lockfileVersion: '9.0'\n\nsettings:\n  flag: 'true'\n  version: 1.2.3\n  range: '>=1 <2'\n  comment: 'a #b'\n  empty: ''\n"
+    )
+    assert.deepEqual(parsePnpmLockfile(content).settings.flag, "true")
+  })
+
+  test("rejects documents without a lockfileVersion", () => {
+    assert.throws(() => parsePnpmLockfile("packages: {}\n"), /Missing lockfileVersion/)
+    assert.throws(() => parsePnpmLockfile("- a\n"), /Expected a YAML mapping/)
+  })
+
+  test("maps dependency references to package keys", () => {
+    assert.equal(pnpmDependencyKey(9, "react-dom", "18.2.0(react@18.2.0)"), "react-dom@18.2.0(react@18.2.0)")
+    assert.equal(pnpmDependencyKey(9, "alias", "lodash@4.17.21"), "lodash@4.17.21")
+    assert.equal(pnpmDependencyKey(9, "shared", "link:../shared"), undefined)
+    assert.equal(pnpmDependencyKey(6, "react", "18.2.0"), "/react@18.2.0")
+    assert.equal(pnpmDependencyKey(6, "alias", "/lodash@4.17.21"), "/lodash@4.17.21")
+  })
+
+  test("follows snapshots and peer suffixes to find reachable entries", () => {
+    const reachable = reachablePnpmEntries(parsePnpmLockfile(LOCKFILE_V9))
+    assert.deepEqual([...reachable].sort(), [
+      "@scope/pkg@1.2.0",
+      "react-dom@18.2.0",
+      "react-dom@18.2.0(react@18.2.0)",
+      "react@18.2.0",
+      "typescript@5.4.5",
+    ])
+    assert(reachablePnpmEntries(parsePnpmLockfile(LOCKFILE_V6)).has("/loose-envify@1.4.0"))
+  })
+})
+
+describe("PackageResolver pnpm-lock.yaml merge", () => {
+  test("keeps the importer entry, package and snapshot of the winning version", async () => {
+    const base = lockWith({lodash: ["^4.17.0", "4.17.0"]})
+    const ours = lockWith({lodash: ["^4.17.0", "4.17.20"]})
+    const theirs = lockWith({lodash: ["^4.17.0", "4.17.21"]})
+
+    const result = await makeResolver("highest").mergePnpmLockContents(base, ours, theirs)
+    assert.equal(result.resolved, true, result.errors.join(", "))
+    assert.equal(result.content, theirs)
+    assert.equal(result.conflicts.length, 1)
+    assert.equal(result.conflicts[0]!.field, "importers...dependencies.lodash")
+  })
+
+  test("keeps dependencies added on either side and drops the ones removed on one side", async () => {
+    const base = lockWith({a: ["^1.0.0", "1.0.0"], old: ["^1.0.0", "1.0.0"]})
+    const ours = lockWith({a: ["^1.0.0", "1.0.0"], b: ["^1.0.0", "1.0.0"]})
+    const theirs = lockWith({a: ["^1.0.0", "1.0.0"], c: ["^1.0.0", "1.0.0"], old: ["^1.0.0", "1.0.0"]})
+
+    const result = await makeResolver().mergePnpmLockContents(base, ours, theirs)
+    assert.equal(result.content, lockWith({a: ["^1.0.0", "1.0.0"], b: ["^1.0.0", "1.0.0"], c: ["^1.0.0", "1.0.0"]}))
+    assert.equal(result.conflicts.length, 0)
+  })
+
+  test("recomputes specifiers from the merged package.json", async () => {
+    const ours = lockWith({a: ["^1.0.0", "1.0.0"]})
+    const theirs = lockWith({a: ["^1.1.0", "1.1.0"], c: ["^1.0.0", "1.0.0"]})
+    const manifests: Record<string, PackageJson> = {".": {dependencies: {a: "^1.1.0"}}}
+
+    const result = await makeResolver("lowest").mergePnpmLockContents("", ours, theirs, async id => manifests[id])
+    assert.equal(result.resolved, true, result.errors.join(", "))
+    assert.equal(result.content, lockWith({a: ["^1.1.0", "1.1.0"]}))
+  })
+
+  test("keeps the locked version when no side matches the new specifier", async () => {
+    const lock = lockWith({a: ["^1.0.0", "1.0.0"]})
+    const manifests: Record<string, PackageJson> = {".": {dependencies: {a: "^1.0.1"}}}
+
+    const result = await makeResolver().mergePnpmLockContents(lock, lock, lock, async id => manifests[id])
+    assert.equal(result.content, lock.replace("specifier: ^1.0.0", "specifier: ^1.0.1"))
+  })
+
+  test("compares the locked version without its peer suffix to the new specifier", async t => {
+    const lock = lockWith({"react-dom": ["^18.2.0", "18.2.0(react@18.2.0)"]})
+    const manifests: Record<string, PackageJson> = {".": {dependencies: {"react-dom": "^18.0.0"}}}
+    const warn = t.mock.method(console, "warn", () => {})
+
+    const result = await makeResolver().mergePnpmLockContents(lock, lock, lock, async id => manifests[id])
+    assert.equal(result.content, lock.replace("specifier: ^18.2.0", "specifier: ^18.0.0"))
+    assert.equal(warn.mock.callCount(), 0)
+  })
+
+  test("resolves conflict markers in a lockfile", async () => {
+    const ours = lockWith({a: ["^1.0.0", "1.1.0"]})
+    const theirs = lockWith({a: ["^1.0.0", "1.2.0"]})
+    const content = ["<<<<<<< HEAD", ours.trimEnd(), "=======", theirs.trimEnd(), ">>>>>>> feature", ""].join("\n")
+
+    const result = await makeResolver("highest").resolvePnpmLockConflicts(content)
+    assert.equal(result.resolved, true, result.errors.join(", "))
+    assert.equal(result.content, theirs)
+  })
+
+  test("keeps CRLF line endings", async () => {
+    const ours = lockWith({a: ["^1.0.0", "1.1.0"]}).replace(/\n/g, "\r\n")
+    const theirs = lockWith({a: ["^1.0.0", "1.2.0"]}).replace(/\n/g, "\r\n")
+
+    const result = await makeResolver().mergePnpmLockContents("", ours, theirs)
+    assert.equal(result.content, theirs)
+  })
+
+  test("merges lockfileVersion 6 lockfiles", async () => {
+    const theirs = LOCKFILE_V6.replace(
+      "/loose-envify@1.4.0:\n    resolution: {integrity: sha512-l==}",
+      "/loose-envify@1.4.0:\n    resolution: {integrity: sha512-m==}"
+    )
+
+    const result = await makeResolver("theirs").mergePnpmLockContents(LOCKFILE_V6, LOCKFILE_V6, theirs)
+    assert.equal(result.resolved, true, result.errors.join(", "))
+    assert.equal(result.content, theirs)
+  })
+
+  test("refuses lockfiles with different lockfileVersions", async () => {
+    const result = await makeResolver().mergePnpmLockContents("", LOCKFILE_V9, LOCKFILE_V6)
+    assert.equal(result.resolved, false)
+    assert.match(result.errors[0]!, /Cannot merge pnpm lockfileVersion 9\.0 with lockfileVersion 6\.0/)
+  })
+
+  test("refuses unsupported lockfileVersions", async () => {
+    const lock = "lockfileVersion: 5.4\n\nspecifiers:\n  a: ^1.0.0\n"
+    const result = await makeResolver().mergePnpmLockContents("", lock, lock)
+    assert.equal(result.resolved, false)
+    assert.match(result.errors[0]!, /Unsupported pnpm lockfileVersion 5\.4/)
+  })
+})
@@ -0,0 +1,215 @@
+/**
+ * Tests for the --report formats
+ */
+
+import {strict as assert} from "assert"
+import {test, describe} from "node:test"
+import {PackageResolver} from "../package-resolver.js"
+import {createFileReport, formatMarkdownSummary, formatReport, toSarif} from "../report.js"
+import {ResolutionResult} from "../types.js"
+
+const RESULT: ResolutionResult = {
+  resolved: true,
+  errors: [],
+  conflicts: [
+    {
+      field: "dependencies.react",
+      path: ["dependencies", "react"],
+      ourValue: "^18.2.0",
+      theirValue: "^18.3.0",
+      resolvedValue: "^18.3.0",
+      strategy: "highest",
+      reason: "their range ^18.3.0 allows a higher minimum than ^18.2.0",
+      confidence: "range",
+    },
+    {
+      field: "dependencies.lodash",
+      path: ["dependencies", "lodash"],
+      ourValue: "<deleted>",
+      theirValue: "^4.17.21",
+      resolvedValue: "^4.17.21",
+      strategy: "highest",
+      reason: "only one side has it: added there, or deleted on the other",
+      confidence: "fallback",
+      kind: "added-or-deleted",
+    },
+  ],
+}
+
+const CONTENT = [
+  "{",
+  '  "name": "app",',
+  '  "dependencies": {',
+  '    "lodash": "^4.17.21",',
+  '    "react": "^18.3.0"',
+  "  }",
+  "}",
+  "",
+]
+
+describe("createFileReport", () => {
+  test("lists each conflict with the line of its value", () => {
+    const report = createFileReport("package.json", RESULT, CONTENT.join("\n"))
+    assert.equal(report.file, "package.json")
+    assert.deepEqual(
+      report.conflicts.map(conflict => [conflict.field, conflict.line]),
+      [
+        ["dependencies.react", 5],
+        ["dependencies.lodash", 4],
+      ]
+    )
+    assert.match(report.conflicts[1]!.reason!, /only one side has it/)
+  })
+
+  test("keeps the marker labels of diff3 conflicts", async () => {
+    const content = [
+      "{",
+      "<<<<<<< HEAD",
+      '  "version": "1.1.0"',
+      "||||||| merged common ancestors",
+      '  "version": "1.0.0"',
+      "=======",
+      '  "version": "1.2.0"',
+      ">>>>>>> feature",
+      "}",
+    ].join("\n")
+    const resolver = new PackageResolver({
+      strategy: "highest",
+      dryRun: true,
+      quiet: true,
+      json: false,
+      verbose: false,
+      regenerateLock: false,
+    })
+    const report = createFileReport("package.json", await resolver.resolveConflicts(content))
+
+    assert.deepEqual(
+      [report.conflicts[0]!.oursLabel, report.conflicts[0]!.baseLabel, report.conflicts[0]!.theirsLabel],
+      ["HEAD", "merged common ancestors", "feature"]
+    )
+    assert.equal(report.conflicts[0]!.base, "1.0.0")
+  })
+
+  test("omits lines without the file content", () => {
+    assert.equal(createFileReport("package.json", RESULT).conflicts[0]!.line, undefined)
+  })
+})
+
+describe("formatReport", () => {
+  const tool = {name: "package-conflicts-resolver", version: "1.0.0"}
+
+  test("keeps the entries of other files from a previous report", () => {
+    const first = formatReport({tool, files: [createFileReport("a/package.json", RESULT)]}, "json")
+    const second = formatReport({tool, files: [createFileReport("package.json", RESULT)]}, "json", first)
+    const again = formatReport({tool, files: [createFileReport("a/package.json", RESULT)]}, "json", second)
+
+    assert.deepEqual(
+      JSON.parse(again).files.map((file: any) => file.file),
+      ["package.json", "a/package.json"]
+    )
+  })
+
+  test("replaces a previous file that is not a report", () => {
+    const output = formatReport({tool, files: [createFileReport("package.json", RESULT)]}, "sarif", "not json")
+    assert.equal(JSON.parse(output).runs[0].results.length, 2)
+  })
+})
+
+describe("toSarif", () => {
+  test("maps guesses to warnings and errors to error results", () => {
+    const file = createFileReport("package.json", {...RESULT, resolved: false, errors: ["Uncertain resolution"]})
+    const sarif = toSarif({tool: {name: "package-conflicts-resolver", version: "1.0.0"}, files: [file]})
+
+    assert.deepEqual(
+      sarif.runs[0]!.results.map(result => [result.ruleId, result.level]),
+      [
+        ["resolved-conflict", "note"],
+        ["uncertain-resolution", "warning"],
+        ["unresolved-conflict", "error"],
+      ]
+    )
+    assert.match(sarif.runs[0]!.results[0]!.message.text, /dependencies\.react: resolved to \^18\.3\.0/)
+  })
+})
+
+describe("formatMarkdownSummary", () => {
+  const tool = {name: "package-conflicts-resolver", version: "1.0.0"}
+
+  test("groups conflicts by section and flags major-version jumps", () => {
+    const result: ResolutionResult = {
+      resolved: true,
+      errors: [],
+      conflicts: [
+        ...RESULT.conflicts,
+        {
+          field: "devDependencies.typescript",
+          path: ["devDependencies", "typescript"],
+          ourValue: "^4.9.5",
+          theirValue: "^5.4.0",
+          resolvedValue: "^5.4.0",
+          strategy: "highest",
+          reason: "their range ^5.4.0 allows a higher minimum than ^4.9.5",
+          confidence: "range",
+        },
+        {
+          field: "scripts.test",
+          path: ["scripts", "test"],
+          ourValue: "jest || true",
+          theirValue: "vitest",
+          resolvedValue: "vitest",
+          strategy: "theirs",
+          reason: "using their value (theirs strategy)",
+        },
+      ],
+    }
+    const summary = formatMarkdownSummary({tool, files: [createFileReport("package.json", result)]})
+
+    assert.match(summary, /Resolved 4 conflicts in 1 file\. ⚠️ 1 major-version jump\./)
+    const sections = summary.split("\n").filter(line => line.startsWith("**"))
+    assert.deepEqual(sections, ["**dependencies**", "**devDependencies**", "**scripts**"])
+    assert(
+      summary.includes(
+        "| ⚠️ typescript | `^4.9.5` | `^5.4.0` | **`^5.4.0`** | their range ^5.4.0 allows a higher minimum than ^4.9.5 |"
+      )
+    )
+    assert(
+      summary.includes(
+        "| react | `^18.2.0` | `^18.3.0` | `^18.3.0` | their range ^18.3.0 allows a higher minimum than ^18.2.0 |"
+      )
+    )
+    assert(
+      summary.includes("| test | `jest \\|\\| true` | `vitest` | `vitest` | using their value (theirs strategy) |")
+    )
+    assert.match(summary, /\| lodash \|.*\| only one side has it/)
+  })
+
+  test("puts lockfile conflicts in their own section and lists files left conflicted", () => {
+    const lockfile = createFileReport("yarn.lock", {
+      resolved: true,
+      errors: [],
+      conflicts: [
+        {
+          field: "lodash@^4.17.0",
+          ourValue: "4.17.20",
+          theirValue: "4.17.21",
+          resolvedValue: "4.17.21",
+          strategy: "highest",
+        },
+      ],
+    })
+    const failed = createFileReport("packages/a/package.json", {
+      resolved: false,
+      errors: ["Invalid JSON"],
+      conflicts: [],
+    })
+    const summary = formatMarkdownSummary({tool, files: [lockfile, failed]})
+
+    assert(summary.includes("**lockfile entries**"))
+    assert(summary.includes("| Field | Ours | Theirs | Resolved | Reason |"))
+    assert(summary.includes("### Left conflicted\n\n- `packages/a/package.json`: Invalid JSON"))
+  })
+
+  test("says so when nothing was resolved", () => {
+    assert.match(formatMarkdownSummary({tool, files: []}), /No conflicts were resolved\./)
+  })
+})
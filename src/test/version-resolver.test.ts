@@ -108,6 +108,157 @@ describe("VersionResolver", () => {
     })
   })
 
+  describe("protocol specs", () => {
+    test("compares npm aliases of the same package by their range", () => {
+      const result = VersionResolver.resolveVersion("npm:lodash@^4.17.0", "npm:lodash@^4.17.21", "highest")
+      assert.equal(result.resolved, "npm:lodash@^4.17.21")
+      assert.equal(result.confidence, "range")
+    })
+
+    test("compares workspace ranges and patched versions", () => {
+      assert.equal(
+        VersionResolver.resolveVersion("workspace:^1.0.0", "workspace:^1.2.0", "lowest").resolved,
+        "workspace:^1.0.0"
+      )
+      const patched = VersionResolver.resolveVersion(
+        "patch:lodash@npm%3A4.17.20#./lodash.patch",
+        "patch:lodash@npm%3A4.17.21#./lodash.patch",
+        "highest"
+      )
+      assert.equal(patched.resolved, "patch:lodash@npm%3A4.17.21#./lodash.patch")
+    })
+
+    test("compares tags of the same hosted repository", () => {
+      const result = VersionResolver.resolveVersion("github:owner/repo#v1.2.3", "github:owner/repo#v1.3.0", "highest")
+      assert.equal(result.resolved, "github:owner/repo#v1.3.0")
+      assert.equal(result.confidence, "semver")
+    })
+
+    test("compares git tags and #semver: ranges", () => {
+      const tagged = VersionResolver.resolveVersion(
+        "git+https://github.com/org/repo.git#v2.3.1",
+        "git+https://github.com/org/repo.git#v2.4.0",
+        "highest"
+      )
+      assert.equal(tagged.resolved, "git+https://github.com/org/repo.git#v2.4.0")
+
+      const ranged = VersionResolver.resolveVersion(
+        "github:org/repo#semver:^2.0.0",
+        "github:org/repo#semver:^2.1.0",
+        "lowest"
+      )
+      assert.equal(ranged.resolved, "github:org/repo#semver:^2.0.0")
+    })
+
+    test("compares tarball file name versions", () => {
+      const result = VersionResolver.resolveVersion(
+        "https://registry.example.com/pkg/-/pkg-1.4.0.tgz",
+        "https://registry.example.com/pkg/-/pkg-1.5.0.tgz",
+        "highest"
+      )
+      assert.equal(result.resolved, "https://registry.example.com/pkg/-/pkg-1.5.0.tgz")
+      assert.equal(result.confidence, "semver")
+    })
+
+    test("keeps commit refs as uncertain", () => {
+      const result = VersionResolver.resolveVersion("github:org/repo#4f2a9c1", "github:org/repo#v1.2.0", "highest")
+      assert.equal(result.resolved, "github:org/repo#4f2a9c1")
+      assert.equal(result.confidence, "fallback")
+      assert(result.reason.includes("commit refs"))
+    })
+
+    test("rebuilds the spec around an intersected range", () => {
+      const result = VersionResolver.resolveVersion("npm:lodash@^4.0.0", "npm:lodash@<4.5.0", "intersect")
+      assert.equal(result.resolved, "npm:lodash@>=4.0.0 <4.5.0")
+    })
+
+    test("falls back when the specs point at different targets", () => {
+      const result = VersionResolver.resolveVersion("npm:lodash@^4.0.0", "npm:underscore@^5.0.0", "highest")
+      assert.equal(result.resolved, "npm:lodash@^4.0.0")
+      assert.equal(result.confidence, "fallback")
+      assert(result.reason.includes("different targets"))
+    })
+
+    test("falls back for workspace shorthands", () => {
+      const result = VersionResolver.resolveVersion("workspace:^", "workspace:~", "highest")
+      assert.equal(result.resolved, "workspace:^")
+      assert.equal(result.confidence, "fallback")
+    })
+  })
+
+  describe("intersect strategy", () => {
+    test("keeps the narrower range when one contains the other", () => {
+      assert.equal(VersionResolver.resolveVersion("^1.2.0", "~1.4.0", "intersect").resolved, "~1.4.0")
+      assert.equal(VersionResolver.resolveVersion(">=2 <4", "^3.1.0", "intersect").resolved, "^3.1.0")
+      assert.equal(VersionResolver.resolveVersion("1.4.2", "^1.0.0", "intersect").resolved, "1.4.2")
+    })
+
+    test("combines the bounds of overlapping ranges", () => {
+      const result = VersionResolver.resolveVersion("^1.2.0", "<1.5.0", "intersect")
+      assert.equal(result.resolved, ">=1.2.0 <1.5.0")
+      assert.equal(result.confidence, "range")
+    })
+
+    test("intersects each alternative of a union", () => {
+      const result = VersionResolver.resolveVersion("^1.0.0 || ^3.0.0", ">=1.5.0 <3.5.0", "intersect")
+      assert.equal(result.resolved, ">=1.5.0 <2.0.0 || >=3.0.0 <3.5.0")
+    })
+
+    test("reports disjoint ranges", () => {
+      const result = VersionResolver.resolveVersion("^1.0.0", "^2.0.0", "intersect")
+      assert.equal(result.disjoint, true)
+      assert(result.reason.includes("do not intersect"))
+    })
+
+    test("keeps our version for specs that are not ranges", () => {
+      const result = VersionResolver.resolveVersion("github:user/repo", "^1.0.0", "intersect")
+      assert.equal(result.resolved, "github:user/repo")
+      assert.equal(result.confidence, "fallback")
+      assert.equal(result.disjoint, undefined)
+    })
+  })
+
+  describe("confidence", () => {
+    test("reports exact for identical versions and ours/theirs", () => {
+      assert.equal(VersionResolver.resolveVersion("1.0.0", "1.0.0", "highest").confidence, "exact")
+      assert.equal(VersionResolver.resolveVersion("1.0.0", "2.0.0", "theirs").confidence, "exact")
+    })
+
+    test("reports semver for clean version comparisons", () => {
+      assert.equal(VersionResolver.resolveVersion("1.0.0", "2.0.0", "highest").confidence, "semver")
+      assert.equal(VersionResolver.resolveVersion("1.0.0", "1.0.0-beta.1", "highest").confidence, "semver")
+    })
+
+    test("reports range for range comparisons", () => {
+      assert.equal(VersionResolver.resolveVersion("^1.0.0", "^2.0.0", "highest").confidence, "range")
+      assert.equal(VersionResolver.resolveVersion("^1.0.0", "~1.0.0", "highest").confidence, "range")
+    })
+
+    test("reports coerced for near-semver strings", () => {
+      const result = VersionResolver.resolveVersion("v1.2", "1.3-foo", "highest")
+      assert.equal(result.confidence, "coerced")
+      assert(VersionResolver.isUncertain(result.confidence))
+    })
+
+    test("reports fallback for non-comparable specs", () => {
+      const result = VersionResolver.resolveVersion("github:user/repo", "latest", "highest")
+      assert.equal(result.resolved, "github:user/repo")
+      assert.equal(result.confidence, "fallback")
+      assert(VersionResolver.isUncertain(result.confidence))
+    })
+
+    test("reports fallback for lexicographic string comparisons", () => {
+      assert.equal(VersionResolver.resolveNonVersion("apple", "banana", "highest").confidence, "fallback")
+      assert.equal(VersionResolver.resolveNonVersion(2, 3, "highest").confidence, "exact")
+    })
+
+    test("picks the least confident level", () => {
+      assert.equal(VersionResolver.leastConfident([]), "exact")
+      assert.equal(VersionResolver.leastConfident(["semver", "coerced", "range"]), "coerced")
+      assert.equal(VersionResolver.isUncertain("range"), false)
+    })
+  })
+
   describe("edge cases", () => {
     test("should handle empty strings", () => {
       const result = VersionResolver.resolveVersion("", "1.0.0", "highest")
@@ -0,0 +1,93 @@
+/**
+ * Tests for workspace discovery
+ */
+
+import {strict as assert} from "assert"
+import {test, describe} from "node:test"
+import {mkdir, mkdtemp, rm, writeFile} from "fs/promises"
+import {tmpdir} from "node:os"
+import {join} from "node:path"
+import {findWorkspacePackages, readWorkspacePatterns} from "../workspaces.js"
+
+async function withTempDir<T>(fn: (dir: string) => Promise<T>): Promise<T> {
+  const dir = await mkdtemp(join(tmpdir(), "pcr-ws-"))
+  try {
+    return await fn(dir)
+  } finally {
+    await rm(dir, {recursive: true, force: true})
+  }
+}
+
+/** Create package.json files in the given directories */
+async function createPackages(dir: string, directories: string[]): Promise<void> {
+  for (const directory of directories) {
+    await mkdir(join(dir, directory), {recursive: true})
+    await writeFile(join(dir, directory, "package.json"), `{"name": "${directory}"}\n`, "utf8")
+  }
+}
+
+describe("readWorkspacePatterns", () => {
+  test("reads npm workspaces and yarn classic workspaces.packages", async () => {
+    await withTempDir(async dir => {
+      await writeFile(join(dir, "package.json"), '{"workspaces": ["packages/*", "./tools/cli/"]}', "utf8")
+      assert.deepEqual(await readWorkspacePatterns(dir), ["packages/*", "tools/cli"])
+
+      await writeFile(join(dir, "package.json"), '{"workspaces": {"packages": ["apps/*"], "nohoist": ["**"]}}', "utf8")
+      assert.deepEqual(await readWorkspacePatterns(dir), ["apps/*"])
+    })
+  })
+
+  test("reads pnpm-workspace.yaml", async () => {
+    await withTempDir(async dir => {
+      await writeFile(join(dir, "package.json"), '{"name": "root"}', "utf8")
+      await writeFile(join(dir, "pnpm-workspace.yaml"), "packages:\n  - 'packages/*'\n  - '!packages/legacy'\n", "utf8")
+      assert.deepEqual(await readWorkspacePatterns(dir), ["packages/*", "!packages/legacy"])
+    })
+  })
+
+  test("combines the patterns of both sides of a conflicted package.json", async () => {
+    await withTempDir(async dir => {
+      const conflicted = [
+        "{",
+        "<<<<<<< HEAD",
+        '  "workspaces": ["packages/*"]',
+        "=======",
+        '  "workspaces": ["packages/*", "apps/*"]',
+        ">>>>>>> feature",
+        "}",
+      ].join("\n")
+      await writeFile(join(dir, "package.json"), conflicted, "utf8")
+      assert.deepEqual(await readWorkspacePatterns(dir), ["packages/*", "apps/*"])
+    })
+  })
+
+  test("returns no patterns outside a monorepo", async () => {
+    await withTempDir(async dir => {
+      await writeFile(join(dir, "package.json"), '{"name": "app"}', "utf8")
+      assert.deepEqual(await readWorkspacePatterns(dir), [])
+    })
+  })
+})
+
+describe("findWorkspacePackages", () => {
+  test("expands globs to directories with a package.json", async () => {
+    await withTempDir(async dir => {
+      await createPackages(dir, ["packages/a", "packages/b", "apps/web", "apps/web/node_modules/x"])
+      await mkdir(join(dir, "packages", "empty"), {recursive: true})
+
+      assert.deepEqual(await findWorkspacePackages(dir, ["packages/*", "apps/web"]), [
+        "apps/web",
+        "packages/a",
+        "packages/b",
+      ])
+    })
+  })
+
+  test("expands ** and applies negated patterns", async () => {
+    await withTempDir(async dir => {
+      await createPackages(dir, ["libs/a", "libs/group/b", "libs/legacy/c", "libs/a/node_modules/dep"])
+
+      assert.deepEqual(await findWorkspacePackages(dir, ["libs/**", "!libs/legacy/**"]), ["libs/a", "libs/group/b"])
+    })
+  })
+})
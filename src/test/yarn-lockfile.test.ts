@@ -0,0 +1,319 @@
+/**
+ * Tests for the yarn classic lockfile parser, serializer and merge
+ */
+
+import {strict as assert} from "assert"
+import {test, describe} from "node:test"
+import {
+  detectYarnLockfileFormat,
+  isYarnClassicLockfile,
+  parseYarnBerryLockfile,
+  parseYarnLockfile,
+  stringifyYarnBerryLockfile,
+  stringifyYarnLockfile,
+  yarnSpecPackageName,
+} from "../yarn-lockfile.js"
+import {PackageResolver} from "../package-resolver.js"
+import {CliOptions} from "../types.js"
+
+const HEADER = "# THIS IS AN AUTOGENERATED FILE. DO NOT EDIT THIS FILE DIRECTLY.\n# yarn lockfile v1\n\n\n"
+
+const entry = (name: string, version: string, dependencies?: Record<string, string>) =>
+  [
+    `  version "${version}"`,
+    `  resolved "https://registry.yarnpkg.com/${name}/-/${name}-${version}.tgz#${version}"`,
+    `  integrity sha512-${name}${version}==`,
+    ...(dependencies
+      ? ["  dependencies:", ...Object.entries(dependencies).map(([dep, range]) => `    ${dep} "${range}"`)]
+      : []),
+  ].join("\n")
+
+const LOCKFILE =
+  HEADER +
+  [
+    `"@scope/util@^1.0.0":\n${entry("util", "1.0.3")}`,
+    `lodash@^4.17.0, lodash@^4.17.21:\n${entry("lodash", "4.17.21")}`,
+    `react@^18.2.0:\n${entry("react", "18.2.0", {"loose-envify": "^1.1.0"})}\n  optionalDependencies:\n    fsevents "~2.3.2"`,
+  ].join("\n\n") +
+  "\n"
+
+const BERRY_HEADER =
+  '# This file is generated by running "yarn install" inside your project.\n# Manual changes might be lost - proceed with caution!\n\n'
+
+const berryMetadata = (version = "8", cacheKey = "10c0") =>
+  `__metadata:\n  version: ${version}\n  cacheKey: ${cacheKey}\n`
+
+const berryEntry = (key: string, name: string, version: string, extra: string[] = []) =>
+  [
+    `"${key}":`,
+    `  version: ${version}`,
+    `  resolution: "${name}@npm:${version}"`,
+    ...extra,
+    `  checksum: 10c0/${name}${version}`,
+    "  languageName: node",
+    "  linkType: hard",
+    "",
+  ].join("\n")
+
+const BERRY_LOCKFILE =
+  BERRY_HEADER +
+  [
+    berryMetadata(),
+    [
+      '"app@workspace:.":',
+      "  version: 0.0.0-use.local",
+      '  resolution: "app@workspace:."',
+      "  dependencies:",
+      '    lodash: "npm:^4.17.21"',
+      '    react: "npm:^18.2.0"',
+      "  languageName: unknown",
+      "  linkType: soft",
+      "",
+    ].join("\n"),
+    berryEntry("lodash@npm:^4.17.0, lodash@npm:^4.17.21", "lodash", "4.17.21"),
+    berryEntry("loose-envify@npm:^1.1.0", "loose-envify", "1.4.0", [
+      "  dependencies:",
+      '    js-tokens: "npm:^3.0.0 || ^4.0.0"',
+      "  dependenciesMeta:",
+      "    fsevents:",
+      "      optional: true",
+      "  bin:",
+      "    loose-envify: cli.js",
+    ]),
+  ].join("\n")
+
+function makeResolver(strategy: CliOptions["strategy"] = "highest", config?: CliOptions["config"]): PackageResolver {
+  return new PackageResolver({
+    strategy,
+    dryRun: true,
+    quiet: true,
+    json: false,
+    verbose: false,
+    regenerateLock: false,
+    config,
+  })
+}
+
+describe("parseYarnLockfile", () => {
+  test("expands combined keys into specs sharing one entry", () => {
+    const lockfile = parseYarnLockfile(LOCKFILE)
+    assert.deepEqual(Object.keys(lockfile.entries), [
+      "@scope/util@^1.0.0",
+      "lodash@^4.17.0",
+      "lodash@^4.17.21",
+      "react@^18.2.0",
+    ])
+    assert.equal(lockfile.entries["lodash@^4.17.0"], lockfile.entries["lodash@^4.17.21"])
+    assert.equal(lockfile.entries["lodash@^4.17.0"]!.integrity, "sha512-lodash4.17.21==")
+    assert.deepEqual(lockfile.entries["react@^18.2.0"]!.dependencies, {"loose-envify": "^1.1.0"})
+    assert.equal(lockfile.header, HEADER)
+  })
+
+  test("reads booleans and quoted values", () => {
+    const lockfile = parseYarnLockfile('a@^1.0.0:\n  version "1.0.0"\n  optional true\n  from "true"\n')
+    assert.deepEqual(lockfile.entries["a@^1.0.0"], {version: "1.0.0", optional: true, from: "true"})
+  })
+
+  test("rejects content that is not lockfile syntax", () => {
+    assert.throws(() => parseYarnLockfile('a@^1.0.0:\n   version "1.0.0"\n'), /line 2: unexpected indentation/)
+    assert.throws(() => parseYarnLockfile("<<<<<<< HEAD\n"), /line 1/)
+  })
+
+  test("recognizes yarn classic lockfiles", () => {
+    assert.equal(isYarnClassicLockfile(LOCKFILE), true)
+    assert.equal(isYarnClassicLockfile("__metadata:\n  version: 8\n"), false)
+  })
+
+  test("extracts the package name of a spec", () => {
+    assert.equal(yarnSpecPackageName("@scope/util@^1.0.0"), "@scope/util")
+    assert.equal(yarnSpecPackageName("lodash@npm:^4.17.0"), "lodash")
+    assert.equal(yarnSpecPackageName("lodash"), "lodash")
+  })
+})
+
+describe("yarn Berry lockfiles", () => {
+  test("detects the lockfile format", () => {
+    assert.equal(detectYarnLockfileFormat(BERRY_LOCKFILE), "berry")
+    assert.equal(detectYarnLockfileFormat(LOCKFILE), "classic")
+    assert.equal(detectYarnLockfileFormat("lockfileVersion: '9.0'\n"), undefined)
+  })
+
+  test("parses metadata and expands combined keys", () => {
+    const lockfile = parseYarnBerryLockfile(BERRY_LOCKFILE)
+    assert.deepEqual(lockfile.metadata, {version: "8", cacheKey: "10c0"})
+    assert.deepEqual(Object.keys(lockfile.entries), [
+      "app@workspace:.",
+      "lodash@npm:^4.17.0",
+      "lodash@npm:^4.17.21",
+      "loose-envify@npm:^1.1.0",
+    ])
+    assert.equal(lockfile.entries["lodash@npm:^4.17.0"], lockfile.entries["lodash@npm:^4.17.21"])
+    assert.deepEqual(lockfile.entries["loose-envify@npm:^1.1.0"]!.dependenciesMeta, {fsevents: {optional: "true"}})
+    assert.equal(lockfile.header, BERRY_HEADER)
+  })
+
+  test("round-trips a lockfile byte for byte", () => {
+    assert.equal(stringifyYarnBerryLockfile(parseYarnBerryLockfile(BERRY_LOCKFILE)), BERRY_LOCKFILE)
+  })
+
+  test("writes fields in Berry's order and drops empty ones", () => {
+    const output = stringifyYarnBerryLockfile({
+      header: "",
+      entries: {
+        "a@npm:^1.0.0": {linkType: "hard", checksum: "10c0/a", resolution: "a@npm:1.0.0", version: "1.0.0", bin: {}},
+      },
+    })
+    assert.equal(
+      output,
+      '"a@npm:^1.0.0":\n  version: 1.0.0\n  resolution: "a@npm:1.0.0"\n  checksum: 10c0/a\n  linkType: hard\n'
+    )
+  })
+
+  test("rejects content outside the Berry subset", () => {
+    assert.throws(() => parseYarnBerryLockfile("__metadata:\n   version: 8\n"), /line 2: unexpected indentation/)
+    assert.throws(() => parseYarnBerryLockfile("- a\n"), /line 1/)
+  })
+})
+
+describe("stringifyYarnLockfile", () => {
+  test("round-trips a lockfile byte for byte", () => {
+    assert.equal(stringifyYarnLockfile(parseYarnLockfile(LOCKFILE)), LOCKFILE)
+  })
+
+  test("combines specs with identical entries and sorts them", () => {
+    const same = {version: "1.2.0", resolved: "https://r/a-1.2.0.tgz"}
+    const output = stringifyYarnLockfile({
+      header: "",
+      entries: {"b@^2.0.0": {version: "2.0.0"}, "a@^1.2.0": same, "a@^1.0.0": {...same}},
+    })
+    assert.equal(
+      output,
+      'a@^1.0.0, a@^1.2.0:\n  version "1.2.0"\n  resolved "https://r/a-1.2.0.tgz"\n\nb@^2.0.0:\n  version "2.0.0"\n'
+    )
+  })
+})
+
+describe("PackageResolver yarn.lock merge", () => {
+  const lockWith = (...entries: string[]) => HEADER + entries.join("\n\n") + "\n"
+
+  test("keeps version, resolved and integrity of an entry together", async () => {
+    const ours = lockWith(`a@^1.0.0:\n${entry("a", "1.9.0")}`)
+    const theirs = lockWith(`a@^1.0.0:\n${entry("a", "1.10.0", {b: "^2.0.0"})}`)
+    const base = lockWith(`a@^1.0.0:\n${entry("a", "1.0.0")}`)
+
+    const result = await makeResolver("highest").mergeYarnLockContents(base, ours, theirs)
+    assert.equal(result.resolved, true)
+    assert.equal(result.content, theirs)
+    assert.equal(result.conflicts.length, 1)
+    assert.equal(result.conflicts[0]!.field, "a@^1.0.0")
+    assert.equal(result.conflicts[0]!.confidence, "semver")
+  })
+
+  test("merges multi-spec keys spec by spec and combines them again", async () => {
+    const ours = lockWith(`a@^1.0.0, a@^1.2.0:\n${entry("a", "1.2.0")}`)
+    const theirs = lockWith(`a@^1.0.0:\n${entry("a", "1.1.0")}`, `a@^1.2.0:\n${entry("a", "1.2.0")}`)
+
+    const result = await makeResolver("highest").mergeYarnLockContents("", ours, theirs)
+    assert.equal(result.content, ours)
+
+    const lowest = await makeResolver("lowest").mergeYarnLockContents("", ours, theirs)
+    assert.equal(lowest.content, theirs)
+  })
+
+  test("keeps specs added on either side and drops specs removed on one side", async () => {
+    const base = lockWith(`a@^1.0.0:\n${entry("a", "1.0.0")}`, `old@^1.0.0:\n${entry("old", "1.0.0")}`)
+    const ours = lockWith(`a@^1.0.0:\n${entry("a", "1.0.0")}`, `b@^1.0.0:\n${entry("b", "1.0.0")}`)
+    const theirs = lockWith(
+      `a@^1.0.0:\n${entry("a", "1.0.0")}`,
+      `c@^1.0.0:\n${entry("c", "1.0.0")}`,
+      `old@^1.0.0:\n${entry("old", "1.0.0")}`
+    )
+
+    const result = await makeResolver().mergeYarnLockContents(base, ours, theirs)
+    assert.deepEqual(Object.keys(parseYarnLockfile(result.content!).entries), ["a@^1.0.0", "b@^1.0.0", "c@^1.0.0"])
+    assert.equal(result.conflicts.length, 0)
+  })
+
+  test("applies package rules to specs", async () => {
+    const ours = lockWith(`react@^18.0.0:\n${entry("react", "18.3.0")}`)
+    const theirs = lockWith(`react@^18.0.0:\n${entry("react", "18.2.0")}`)
+    const config = {packages: [{pattern: "react", strategy: "lowest" as const}], fields: []}
+
+    const result = await makeResolver("highest", config).mergeYarnLockContents("", ours, theirs)
+    assert.equal(result.content, theirs)
+    assert.equal(result.conflicts[0]!.rule, "react")
+  })
+
+  test("resolves conflict markers in a lockfile", async () => {
+    const content = [
+      "# yarn lockfile v1",
+      "",
+      "<<<<<<< HEAD",
+      `a@^1.0.0:\n${entry("a", "1.1.0")}`,
+      "=======",
+      `a@^1.0.0:\n${entry("a", "1.2.0")}`,
+      ">>>>>>> feature",
+      "",
+      `z@^1.0.0:\n${entry("z", "1.0.0")}`,
+      "",
+    ].join("\n")
+
+    const result = await makeResolver("highest").resolveYarnLockConflicts(content)
+    assert.equal(result.resolved, true)
+    assert.equal(
+      result.content,
+      `# yarn lockfile v1\n\na@^1.0.0:\n${entry("a", "1.2.0")}\n\nz@^1.0.0:\n${entry("z", "1.0.0")}\n`
+    )
+  })
+
+  test("keeps CRLF line endings", async () => {
+    const ours = lockWith(`a@^1.0.0:\n${entry("a", "1.1.0")}`).replace(/\n/g, "\r\n")
+    const theirs = lockWith(`a@^1.0.0:\n${entry("a", "1.2.0")}`).replace(/\n/g, "\r\n")
+
+    const result = await makeResolver().mergeYarnLockContents("", ours, theirs)
+    assert.equal(result.content, theirs)
+  })
+
+  test("merges Berry lockfiles with resolution blocks kept whole", async () => {
+    const lock = (...entries: string[]) => BERRY_HEADER + [berryMetadata(), ...entries].join("\n")
+    const base = lock(berryEntry("a@npm:^1.0.0", "a", "1.0.0"))
+    const ours = lock(berryEntry("a@npm:^1.0.0", "a", "1.1.0"))
+    const theirs = lock(
+      berryEntry("a@npm:^1.0.0", "a", "1.2.0", ["  dependencies:", '    b: "npm:^2.0.0"']),
+      berryEntry("b@npm:^2.0.0", "b", "2.0.0")
+    )
+
+    const result = await makeResolver("lowest").mergeYarnLockContents(base, ours, theirs)
+    assert.equal(result.resolved, true)
+    assert.equal(
+      result.content,
+      lock(berryEntry("a@npm:^1.0.0", "a", "1.1.0"), berryEntry("b@npm:^2.0.0", "b", "2.0.0"))
+    )
+
+    const highest = await makeResolver("highest").mergeYarnLockContents(base, ours, theirs)
+    assert.equal(highest.content, theirs)
+  })
+
+  test("refuses Berry lockfiles with different metadata", async () => {
+    const entries = berryEntry("a@npm:^1.0.0", "a", "1.0.0")
+    const ours = BERRY_HEADER + berryMetadata("6", "8") + "\n" + entries
+    const theirs = BERRY_HEADER + berryMetadata("8", "10c0") + "\n" + entries
+
+    const result = await makeResolver().mergeYarnLockContents("", ours, theirs)
+    assert.equal(result.resolved, false)
+    assert.match(result.errors[0]!, /Cannot merge yarn.lock __metadata.version 6 with 8/)
+  })
+
+  test("refuses to mix classic and Berry lockfiles", async () => {
+    const result = await makeResolver().mergeYarnLockContents("", LOCKFILE, BERRY_LOCKFILE)
+    assert.equal(result.resolved, false)
+    assert.match(result.errors[0]!, /Cannot merge a yarn classic lockfile with a yarn berry lockfile/)
+  })
+
+  test("reports unparseable sides as errors", async () => {
+    const result = await makeResolver().mergeYarnLockContents("", "a@^1.0.0:\n   version 1\n", HEADER)
+    assert.equal(result.resolved, false)
+    assert.equal(result.content, undefined)
+    assert.match(result.errors[0]!, /unexpected indentation/)
+  })
+})
@@ -26,19 +26,88 @@ export interface ConflictMarker {
   /** Base content when the conflict uses diff3/zdiff3 style (`|||||||` section) */
   base?: string
   field?: string
+  /** Label after `<<<<<<<`, usually HEAD */
+  oursLabel?: string
+  /** Label after `|||||||` (diff3/zdiff3), usually the merge base commit */
+  baseLabel?: string
+  /** Label after `>>>>>>>`, usually the branch or commit being merged */
+  theirsLabel?: string
 }
 
 export interface ResolutionStrategy {
-  name: "highest" | "lowest" | "ours" | "theirs"
+  name: "highest" | "lowest" | "ours" | "theirs" | "intersect"
   description: string
 }
 
+/** Strategies a config rule can select: the global ones plus pinning to a fixed version */
+export type PackageRuleStrategy = ResolutionStrategy["name"] | "pin"
+
+export interface StrategyRule {
+  /** Glob matched against the package name ("@types/*") or the JSON path ("scripts.*") */
+  pattern: string
+  strategy: PackageRuleStrategy
+  /** Value written for every match when strategy is "pin" */
+  version?: string
+}
+
+export interface ResolverConfig {
+  /** Per-package strategy overrides, first match wins */
+  packages: StrategyRule[]
+  /** Per-field overrides keyed by JSON path globs ("scripts.*", "overrides.**"), first match wins */
+  fields: StrategyRule[]
+}
+
+/**
+ * How a resolution was decided, from most to least reliable: identical values
+ * or an explicit choice, a clean semver comparison, a range comparison, a
+ * comparison of coerced near-semver strings, or a deterministic fallback
+ */
+export type ResolutionConfidence = "exact" | "semver" | "range" | "coerced" | "fallback"
+
+/** Confidence levels ordered from most to least reliable */
+export const CONFIDENCE_LEVELS: readonly ResolutionConfidence[] = ["exact", "semver", "range", "coerced", "fallback"]
+
+/** Confidence levels that mean the resolver had to guess */
+export const UNCERTAIN_CONFIDENCE_LEVELS: readonly ResolutionConfidence[] = ["coerced", "fallback"]
+
+export interface VersionResolution {
+  resolved: string
+  reason: string
+  confidence: ResolutionConfidence
+  /** Set by the intersect strategy when the two ranges have no version in common */
+  disjoint?: boolean
+}
+
 export interface ResolvedConflict {
   field: string
+  /** JSON path of the conflicting value (semantic merges only; keys may contain dots) */
+  path?: string[]
   ourValue: string
   theirValue: string
   resolvedValue: string
+  /** Common ancestor value, when the merge had a base that contained the path */
+  baseValue?: string
   strategy: string
+  /** Pattern of the config rule that selected the strategy, if any */
+  rule?: string
+  /** Why the strategy picked the resolved value ("their version 2.1.0 is higher than 2.0.0") */
+  reason?: string
+  /** How reliable the resolution is */
+  confidence?: ResolutionConfidence
+  /** Why the sides cannot be reconciled; such a conflict leaves the merge unresolved */
+  hardConflict?: string
+  /**
+   * "added-or-deleted": a merge without a base kept a value only one side
+   * has, which is either an addition on that side or a deletion on the other.
+   * "peer-alignment": a peerDependencies range (`ourValue`) and the
+   * dependencies/devDependencies spec of the same package (`theirValue`)
+   * did not match after the merge and were both set to `resolvedValue`.
+   */
+  kind?: "added-or-deleted" | "peer-alignment"
+  /** Conflict marker labels of the sides, so reviewers can tell which branch each value came from */
+  oursLabel?: string
+  baseLabel?: string
+  theirsLabel?: string
   originalOurs?: string
   originalTheirs?: string
 }
@@ -47,7 +116,18 @@ export interface ResolutionResult {
   resolved: boolean
   conflicts: ResolvedConflict[]
   packageJson?: PackageJson
+  /** Serialized merged file, for lockfile formats that are not JSON (yarn.lock) */
+  content?: string
   errors: string[]
+  /** Problems found in a merged package.json; errors with `strict` */
+  manifestIssues?: ManifestIssue[]
+}
+
+/** A problem in a merged package.json */
+export interface ManifestIssue {
+  /** Dotted path of the offending field */
+  field: string
+  message: string
 }
 
 export interface LoggerOptions {
@@ -56,6 +136,11 @@ export interface LoggerOptions {
   verbose: boolean
 }
 
+/** Formats of the `--report` file */
+export type ReportFormat = "json" | "sarif"
+
+export const REPORT_FORMATS: readonly ReportFormat[] = ["json", "sarif"]
+
 export interface CliOptions {
   strategy: ResolutionStrategy["name"]
   dryRun: boolean
@@ -64,13 +149,50 @@ export interface CliOptions {
   verbose: boolean
   regenerateLock: boolean
   file?: string
+  /** Project configuration (per-package strategy overrides) */
+  config?: ResolverConfig
+  /** Prompt for every resolved conflict before writing */
+  interactive?: boolean
+  /** Leave the file conflicted instead of writing coerced/fallback resolutions */
+  failOnUncertain?: boolean
+  /** Validate merged npm lockfiles as a dependency graph and prune orphaned entries */
+  lockGraph?: boolean
+  /** Leave a merged package.json that fails validation conflicted instead of warning */
+  strict?: boolean
+  /** Update the npm lockfile root entry from package.json offline instead of running npm */
+  syncLock?: boolean
+  /** Resolve every workspace package.json, then the root lockfile once */
+  workspaces?: boolean
+  /** Resolve every package.json and lockfile Git reports as unmerged */
+  unmerged?: boolean
+  /** With `unmerged`, `git add` the files that were resolved cleanly */
+  stage?: boolean
+  /** Branch being merged: the file at `git merge-base HEAD <ref>` is the base for markers without one */
+  mergeBase?: string
+  /** Write a report of every resolved file to this path */
+  report?: string
+  reportFormat?: ReportFormat
+  /** Write a Markdown table of every resolved conflict to this path */
+  summaryMarkdown?: string
 }
 
 export const RESOLUTION_STRATEGIES: Record<ResolutionStrategy["name"], ResolutionStrategy> = {
   highest: {name: "highest", description: "Use the highest version (default)"},
   lowest: {name: "lowest", description: "Use the lowest version"},
-  ours: {name: "ours", description: "Use our version (current branch)"},
-  theirs: {name: "theirs", description: "Use their version (incoming branch)"},
+  ours: {name: "ours", description: "Use our version (HEAD; the upstream branch while rebasing)"},
+  theirs: {name: "theirs", description: "Use their version (the merged branch; your commit while rebasing)"},
+  intersect: {name: "intersect", description: "Use the tightest range satisfying both branches"},
+}
+
+/**
+ * Strategy names that pick a side by its role rather than by Git's
+ * ours/theirs, which swap meaning during a rebase
+ */
+export type StrategyAlias = "current" | "incoming"
+
+export const STRATEGY_ALIASES: Record<StrategyAlias, string> = {
+  current: "Use the version of the branch you are working on (your commit while rebasing)",
+  incoming: "Use the version being brought in (the merged branch or picked commit; the upstream while rebasing)",
 }
 
 export const STABLE_PACKAGE_JSON_FIELDS = [
@@ -3,50 +3,137 @@
  */
 
 import * as semver from "semver"
-import {ResolutionStrategy} from "./types.js"
+import {formatDependencySpec, isCommitRef, isSameTarget, parseDependencySpec} from "./dependency-spec.js"
+import {
+  CONFIDENCE_LEVELS,
+  ResolutionConfidence,
+  ResolutionStrategy,
+  UNCERTAIN_CONFIDENCE_LEVELS,
+  VersionResolution,
+} from "./types.js"
 
 export class VersionResolver {
   /**
    * Resolve version conflict using the specified strategy.
+   * Protocol specs (npm: aliases, workspace:, patch:, git tags and
+   * `#semver:` ranges, tarball file names, ...) compare by their embedded
+   * version when both sides point at the same target.
    * Never throws: falls back to keeping our version for non-comparable specs
-   * (git URLs, file:, link:, workspace:, npm: aliases, dist-tags, etc.).
+   * (commit refs, paths, dist-tags, specs pointing at different targets, etc.).
+   * The confidence tells callers how the decision was reached, so a coerced
+   * or fallback guess can be told apart from a clean semver comparison.
    */
   static resolveVersion(
     ourVersion: string,
     theirVersion: string,
     strategy: ResolutionStrategy["name"]
-  ): {resolved: string; reason: string} {
+  ): VersionResolution {
     try {
+      if (strategy === "ours") {
+        return {resolved: ourVersion, reason: "using our version (ours strategy)", confidence: "exact"}
+      }
+      if (strategy === "theirs") {
+        return {resolved: theirVersion, reason: "using their version (theirs strategy)", confidence: "exact"}
+      }
+
+      const protocolResolution = this.resolveProtocolSpecs(ourVersion, theirVersion, strategy)
+      if (protocolResolution) {
+        return protocolResolution
+      }
+
       switch (strategy) {
-        case "ours":
-          return {resolved: ourVersion, reason: "using our version (ours strategy)"}
-        case "theirs":
-          return {resolved: theirVersion, reason: "using their version (theirs strategy)"}
         case "lowest":
           return this.resolveLowest(ourVersion, theirVersion)
+        case "intersect":
+          return this.resolveIntersect(ourVersion, theirVersion)
         case "highest":
         default:
           return this.resolveHighest(ourVersion, theirVersion)
       }
     } catch {
-      return {resolved: ourVersion, reason: "version comparison failed, keeping our version"}
+      return {resolved: ourVersion, reason: "version comparison failed, keeping our version", confidence: "fallback"}
+    }
+  }
+
+  /**
+   * Resolve protocol specs (npm:, workspace:, patch:, github:, ...) by the
+   * version they embed when both sides use the same protocol and target.
+   * Returns null when neither side is a protocol spec.
+   */
+  private static resolveProtocolSpecs(
+    ourVersion: string,
+    theirVersion: string,
+    strategy: ResolutionStrategy["name"]
+  ): VersionResolution | null {
+    const ourSpec = parseDependencySpec(ourVersion)
+    const theirSpec = parseDependencySpec(theirVersion)
+    if (!ourSpec && !theirSpec) {
+      return null
+    }
+
+    if (ourVersion.trim() === theirVersion.trim()) {
+      return {resolved: ourVersion, reason: "versions are identical", confidence: "exact"}
+    }
+
+    if (!ourSpec || !theirSpec || !isSameTarget(ourSpec, theirSpec)) {
+      return {
+        resolved: ourVersion,
+        reason: `specs are not comparable ("${ourVersion}" vs "${theirVersion}" point at different targets), keeping our version`,
+        confidence: "fallback",
+      }
+    }
+
+    if (isCommitRef(ourSpec) || isCommitRef(theirSpec)) {
+      return {
+        resolved: ourVersion,
+        reason: `commit refs cannot be ordered ("${ourVersion}" vs "${theirVersion}"), keeping our version`,
+        confidence: "fallback",
+      }
     }
+
+    if (ourSpec.version === undefined || theirSpec.version === undefined) {
+      return {
+        resolved: ourVersion,
+        reason: `versions are not comparable ("${ourVersion}" vs "${theirVersion}"), keeping our version`,
+        confidence: "fallback",
+      }
+    }
+
+    const inner = this.resolveVersion(ourSpec.version, theirSpec.version, strategy)
+    const resolved =
+      inner.resolved === ourSpec.version
+        ? ourVersion
+        : inner.resolved === theirSpec.version
+          ? theirVersion
+          : formatDependencySpec(ourSpec, inner.resolved)
+    // git URLs and tarballs already read as locations, other targets get their protocol
+    const label =
+      ourSpec.protocol === "git" || ourSpec.protocol === "tarball"
+        ? ourSpec.target
+        : [ourSpec.protocol, ourSpec.target].filter(Boolean).join(":")
+    return {...inner, resolved, reason: `${inner.reason} (${label})`}
   }
 
   /**
    * Resolve to highest version
    */
-  private static resolveHighest(ourVersion: string, theirVersion: string): {resolved: string; reason: string} {
+  private static resolveHighest(ourVersion: string, theirVersion: string): VersionResolution {
     const ourClean = this.cleanVersion(ourVersion)
     const theirClean = this.cleanVersion(theirVersion)
 
     // If versions are identical, return either one
     if (ourClean === theirClean) {
-      return {resolved: ourVersion, reason: "versions are identical"}
+      return {
+        resolved: ourVersion,
+        reason: "versions are identical",
+        confidence: ourVersion === theirVersion ? "exact" : "range",
+      }
     }
 
     // 1. Direct semver comparison (preserves pre-release)
     if (semver.valid(ourClean) && semver.valid(theirClean)) {
+      // A caret/tilde prefix was stripped: the specs are ranges, not plain versions
+      const confidence = this.plainVersionConfidence(ourVersion, theirVersion)
       // Check if one is a pre-release and the other is stable
       const ourIsPrerelease = semver.prerelease(ourClean) !== null
       const theirIsPrerelease = semver.prerelease(theirClean) !== null
@@ -56,23 +143,37 @@ export class VersionResolver {
         return {
           resolved: theirVersion,
           reason: `their version ${theirClean} is stable, preferring over pre-release ${ourClean}`,
+          confidence,
         }
       }
       if (!ourIsPrerelease && theirIsPrerelease) {
         return {
           resolved: ourVersion,
           reason: `our version ${ourClean} is stable, preferring over pre-release ${theirClean}`,
+          confidence,
         }
       }
 
       // Both are either stable or pre-release, use normal semver comparison
       const comparison = semver.compare(ourClean, theirClean)
       if (comparison > 0) {
-        return {resolved: ourVersion, reason: `our version ${ourClean} is higher than ${theirClean}`}
+        return {
+          resolved: ourVersion,
+          reason: `our version ${ourClean} is higher than ${theirClean}`,
+          confidence,
+        }
       } else if (comparison < 0) {
-        return {resolved: theirVersion, reason: `their version ${theirClean} is higher than ${ourClean}`}
+        return {
+          resolved: theirVersion,
+          reason: `their version ${theirClean} is higher than ${ourClean}`,
+          confidence,
+        }
       } else {
-        return {resolved: ourVersion, reason: "versions are identical"}
+        return {
+          resolved: ourVersion,
+          reason: "versions are identical",
+          confidence: ourVersion === theirVersion ? "exact" : "range",
+        }
       }
     }
 
@@ -80,15 +181,20 @@ export class VersionResolver {
     const rangeComparison = this.compareAsRanges(ourVersion, theirVersion)
     if (rangeComparison !== null) {
       if (rangeComparison > 0) {
-        return {resolved: ourVersion, reason: `our range ${ourVersion} allows a higher minimum than ${theirVersion}`}
+        return {
+          resolved: ourVersion,
+          reason: `our range ${ourVersion} allows a higher minimum than ${theirVersion}`,
+          confidence: "range",
+        }
       } else if (rangeComparison < 0) {
         return {
           resolved: theirVersion,
           reason: `their range ${theirVersion} allows a higher minimum than ${ourVersion}`,
+          confidence: "range",
         }
       }
       // Ranges have equal minimums, prefer the one with more specific range
-      return this.preferMoreSpecific(ourVersion, theirVersion)
+      return this.preferMoreSpecific(ourVersion, theirVersion, "range")
     }
 
     // 3. Coerced comparison for near-semver strings ("v1.2", "1.2.3.4", ...)
@@ -98,12 +204,20 @@ export class VersionResolver {
     if (ourSemver && theirSemver) {
       const comparison = semver.compare(ourSemver, theirSemver)
       if (comparison > 0) {
-        return {resolved: ourVersion, reason: `our version ${ourClean} is higher than ${theirClean}`}
+        return {
+          resolved: ourVersion,
+          reason: `our version ${ourClean} is higher than ${theirClean}`,
+          confidence: "coerced",
+        }
       } else if (comparison < 0) {
-        return {resolved: theirVersion, reason: `their version ${theirClean} is higher than ${ourClean}`}
+        return {
+          resolved: theirVersion,
+          reason: `their version ${theirClean} is higher than ${ourClean}`,
+          confidence: "coerced",
+        }
       } else {
         // Semver versions are equal, prefer the one with more specific range
-        return this.preferMoreSpecific(ourVersion, theirVersion)
+        return this.preferMoreSpecific(ourVersion, theirVersion, "coerced")
       }
     }
 
@@ -112,30 +226,49 @@ export class VersionResolver {
     return {
       resolved: ourVersion,
       reason: `versions are not comparable ("${ourVersion}" vs "${theirVersion}"), keeping our version`,
+      confidence: "fallback",
     }
   }
 
   /**
    * Resolve to lowest version
    */
-  private static resolveLowest(ourVersion: string, theirVersion: string): {resolved: string; reason: string} {
+  private static resolveLowest(ourVersion: string, theirVersion: string): VersionResolution {
     const ourClean = this.cleanVersion(ourVersion)
     const theirClean = this.cleanVersion(theirVersion)
 
     // If versions are identical, return either one
     if (ourClean === theirClean) {
-      return {resolved: ourVersion, reason: "versions are identical"}
+      return {
+        resolved: ourVersion,
+        reason: "versions are identical",
+        confidence: ourVersion === theirVersion ? "exact" : "range",
+      }
     }
 
     // 1. Direct semver comparison (preserves pre-release)
     if (semver.valid(ourClean) && semver.valid(theirClean)) {
+      // A caret/tilde prefix was stripped: the specs are ranges, not plain versions
+      const confidence = this.plainVersionConfidence(ourVersion, theirVersion)
       const comparison = semver.compare(ourClean, theirClean)
       if (comparison < 0) {
-        return {resolved: ourVersion, reason: `our version ${ourClean} is lower than ${theirClean}`}
+        return {
+          resolved: ourVersion,
+          reason: `our version ${ourClean} is lower than ${theirClean}`,
+          confidence,
+        }
       } else if (comparison > 0) {
-        return {resolved: theirVersion, reason: `their version ${theirClean} is lower than ${ourClean}`}
+        return {
+          resolved: theirVersion,
+          reason: `their version ${theirClean} is lower than ${ourClean}`,
+          confidence,
+        }
       } else {
-        return {resolved: ourVersion, reason: "versions are identical"}
+        return {
+          resolved: ourVersion,
+          reason: "versions are identical",
+          confidence: ourVersion === theirVersion ? "exact" : "range",
+        }
       }
     }
 
@@ -143,12 +276,20 @@ export class VersionResolver {
     const rangeComparison = this.compareAsRanges(ourVersion, theirVersion)
     if (rangeComparison !== null) {
       if (rangeComparison < 0) {
-        return {resolved: ourVersion, reason: `our range ${ourVersion} allows a lower minimum than ${theirVersion}`}
+        return {
+          resolved: ourVersion,
+          reason: `our range ${ourVersion} allows a lower minimum than ${theirVersion}`,
+          confidence: "range",
+        }
       } else if (rangeComparison > 0) {
-        return {resolved: theirVersion, reason: `their range ${theirVersion} allows a lower minimum than ${ourVersion}`}
+        return {
+          resolved: theirVersion,
+          reason: `their range ${theirVersion} allows a lower minimum than ${ourVersion}`,
+          confidence: "range",
+        }
       }
       // Ranges have equal minimums, prefer the one with more restrictive range
-      return this.preferMoreRestrictive(ourVersion, theirVersion)
+      return this.preferMoreRestrictive(ourVersion, theirVersion, "range")
     }
 
     // 3. Coerced comparison for near-semver strings
@@ -158,12 +299,20 @@ export class VersionResolver {
     if (ourSemver && theirSemver) {
       const comparison = semver.compare(ourSemver, theirSemver)
       if (comparison < 0) {
-        return {resolved: ourVersion, reason: `our version ${ourClean} is lower than ${theirClean}`}
+        return {
+          resolved: ourVersion,
+          reason: `our version ${ourClean} is lower than ${theirClean}`,
+          confidence: "coerced",
+        }
       } else if (comparison > 0) {
-        return {resolved: theirVersion, reason: `their version ${theirClean} is lower than ${ourClean}`}
+        return {
+          resolved: theirVersion,
+          reason: `their version ${theirClean} is lower than ${ourClean}`,
+          confidence: "coerced",
+        }
       } else {
         // Semver versions are equal, prefer the one with more restrictive range
-        return this.preferMoreRestrictive(ourVersion, theirVersion)
+        return this.preferMoreRestrictive(ourVersion, theirVersion, "coerced")
       }
     }
 
@@ -171,6 +320,137 @@ export class VersionResolver {
     return {
       resolved: ourVersion,
       reason: `versions are not comparable ("${ourVersion}" vs "${theirVersion}"), keeping our version`,
+      confidence: "fallback",
+    }
+  }
+
+  /**
+   * Resolve to the tightest range satisfying both sides: the narrower range
+   * when one contains the other, otherwise the conjunction of their bounds.
+   * Disjoint ranges are reported, never silently narrowed to one side.
+   */
+  private static resolveIntersect(ourVersion: string, theirVersion: string): VersionResolution {
+    if (ourVersion.trim() === theirVersion.trim()) {
+      return {resolved: ourVersion, reason: "versions are identical", confidence: "exact"}
+    }
+
+    const ourRange = this.toRange(ourVersion)
+    const theirRange = this.toRange(theirVersion)
+    if (!ourRange || !theirRange) {
+      return {
+        resolved: ourVersion,
+        reason: `versions are not ranges ("${ourVersion}" vs "${theirVersion}"), keeping our version`,
+        confidence: "fallback",
+      }
+    }
+
+    if (!ourRange.intersects(theirRange)) {
+      return {
+        resolved: ourVersion,
+        reason: `ranges ${ourVersion} and ${theirVersion} do not intersect`,
+        confidence: "range",
+        disjoint: true,
+      }
+    }
+
+    if (semver.subset(ourRange, theirRange)) {
+      return {resolved: ourVersion, reason: `our range ${ourVersion} is within ${theirVersion}`, confidence: "range"}
+    }
+    if (semver.subset(theirRange, ourRange)) {
+      return {
+        resolved: theirVersion,
+        reason: `their range ${theirVersion} is within ${ourVersion}`,
+        confidence: "range",
+      }
+    }
+
+    // Overlapping ranges: intersect every pair of comparator sets (one per "||" alternative)
+    const alternatives: string[] = []
+    for (const ourSet of ourRange.set) {
+      for (const theirSet of theirRange.set) {
+        const intersection = this.intersectComparators([...ourSet, ...theirSet])
+        if (intersection !== null && !alternatives.includes(intersection)) {
+          alternatives.push(intersection)
+        }
+      }
+    }
+
+    if (alternatives.length === 0) {
+      return {
+        resolved: ourVersion,
+        reason: `ranges ${ourVersion} and ${theirVersion} do not intersect`,
+        confidence: "range",
+        disjoint: true,
+      }
+    }
+
+    return {
+      resolved: alternatives.join(" || "),
+      reason: `intersection of ${ourVersion} and ${theirVersion}`,
+      confidence: "range",
+    }
+  }
+
+  /**
+   * Collapse a conjunction of comparators into its tightest lower and upper
+   * bound, e.g. ">=1.2.0 <2.0.0-0 <1.5.0" → ">=1.2.0 <1.5.0".
+   * Returns null when no version satisfies all of them.
+   */
+  private static intersectComparators(comparators: readonly semver.Comparator[]): string | null {
+    let lower: {version: semver.SemVer; inclusive: boolean} | undefined
+    let upper: {version: semver.SemVer; inclusive: boolean} | undefined
+
+    for (const comparator of comparators) {
+      // "*" matches everything and adds no bound
+      if (comparator.value === "") continue
+
+      const {operator, semver: version} = comparator
+      if (operator === "" || operator === "=" || operator === ">=" || operator === ">") {
+        const inclusive = operator !== ">"
+        const comparison = lower ? semver.compare(version, lower.version) : 1
+        if (comparison > 0 || (comparison === 0 && !inclusive)) {
+          lower = {version, inclusive}
+        }
+      }
+      if (operator === "" || operator === "=" || operator === "<=" || operator === "<") {
+        const inclusive = operator !== "<"
+        const comparison = upper ? semver.compare(version, upper.version) : -1
+        if (comparison < 0 || (comparison === 0 && !inclusive)) {
+          upper = {version, inclusive}
+        }
+      }
+    }
+
+    if (lower && upper) {
+      const comparison = semver.compare(lower.version, upper.version)
+      if (comparison > 0 || (comparison === 0 && !(lower.inclusive && upper.inclusive))) {
+        return null
+      }
+      if (comparison === 0) {
+        return lower.version.version
+      }
+    }
+
+    const bounds: string[] = []
+    if (lower) {
+      bounds.push(`${lower.inclusive ? ">=" : ">"}${lower.version.version}`)
+    }
+    if (upper) {
+      // "<2.0.0-0" is how semver excludes 2.0.0 pre-releases; write it the way people do
+      const version = upper.version.version.replace(/-0$/, "")
+      bounds.push(`${upper.inclusive ? "<=" : "<"}${version}`)
+    }
+    return bounds.length > 0 ? bounds.join(" ") : "*"
+  }
+
+  /**
+   * Parse a spec as a semver range, or undefined when it is not one
+   */
+  private static toRange(version: string): semver.Range | undefined {
+    try {
+      return new semver.Range(version.trim(), {loose: true})
+    } catch {
+      return undefined
     }
   }
 
@@ -211,32 +491,40 @@ export class VersionResolver {
   /**
    * Prefer more specific version range
    */
-  private static preferMoreSpecific(ourVersion: string, theirVersion: string): {resolved: string; reason: string} {
+  private static preferMoreSpecific(
+    ourVersion: string,
+    theirVersion: string,
+    confidence: ResolutionConfidence
+  ): VersionResolution {
     const ourSpecificity = this.getVersionSpecificity(ourVersion)
     const theirSpecificity = this.getVersionSpecificity(theirVersion)
 
     if (ourSpecificity > theirSpecificity) {
-      return {resolved: ourVersion, reason: "our version is more specific"}
+      return {resolved: ourVersion, reason: "our version is more specific", confidence}
     } else if (theirSpecificity > ourSpecificity) {
-      return {resolved: theirVersion, reason: "their version is more specific"}
+      return {resolved: theirVersion, reason: "their version is more specific", confidence}
     } else {
-      return {resolved: ourVersion, reason: "versions have equal specificity, keeping ours"}
+      return {resolved: ourVersion, reason: "versions have equal specificity, keeping ours", confidence}
     }
   }
 
   /**
    * Prefer more restrictive version range
    */
-  private static preferMoreRestrictive(ourVersion: string, theirVersion: string): {resolved: string; reason: string} {
+  private static preferMoreRestrictive(
+    ourVersion: string,
+    theirVersion: string,
+    confidence: ResolutionConfidence
+  ): VersionResolution {
     const ourRestrictiveness = this.getVersionRestrictiveness(ourVersion)
     const theirRestrictiveness = this.getVersionRestrictiveness(theirVersion)
 
     if (ourRestrictiveness > theirRestrictiveness) {
-      return {resolved: ourVersion, reason: "our version is more restrictive"}
+      return {resolved: ourVersion, reason: "our version is more restrictive", confidence}
     } else if (theirRestrictiveness > ourRestrictiveness) {
-      return {resolved: theirVersion, reason: "their version is more restrictive"}
+      return {resolved: theirVersion, reason: "their version is more restrictive", confidence}
     } else {
-      return {resolved: ourVersion, reason: "versions have equal restrictiveness, keeping ours"}
+      return {resolved: ourVersion, reason: "versions have equal restrictiveness, keeping ours", confidence}
     }
   }
 
@@ -284,36 +572,68 @@ export class VersionResolver {
     ourValue: any,
     theirValue: any,
     strategy: ResolutionStrategy["name"]
-  ): {resolved: any; reason: string} {
+  ): {resolved: any; reason: string; confidence: ResolutionConfidence} {
     switch (strategy) {
       case "ours":
-        return {resolved: ourValue, reason: "using our value (ours strategy)"}
+        return {resolved: ourValue, reason: "using our value (ours strategy)", confidence: "exact"}
       case "theirs":
-        return {resolved: theirValue, reason: "using their value (theirs strategy)"}
+        return {resolved: theirValue, reason: "using their value (theirs strategy)", confidence: "exact"}
       case "highest":
-      case "lowest": {
+      case "lowest":
+      case "intersect": {
+        // Values other than ranges have nothing to intersect: intersect resolves them as highest
+        const direction = strategy === "lowest" ? "lowest" : "highest"
+
         // Numeric values (e.g. lockfileVersion) compare numerically
         if (typeof ourValue === "number" && typeof theirValue === "number") {
-          const preferOurs = strategy === "highest" ? ourValue >= theirValue : ourValue <= theirValue
+          const preferOurs = direction === "highest" ? ourValue >= theirValue : ourValue <= theirValue
           return preferOurs
-            ? {resolved: ourValue, reason: `our value is numerically ${strategy}`}
-            : {resolved: theirValue, reason: `their value is numerically ${strategy}`}
+            ? {resolved: ourValue, reason: `our value is numerically ${direction}`, confidence: "exact"}
+            : {resolved: theirValue, reason: `their value is numerically ${direction}`, confidence: "exact"}
         }
 
         // For strings, fall back to lexicographic comparison
         if (typeof ourValue === "string" && typeof theirValue === "string") {
           const comparison = ourValue.localeCompare(theirValue)
-          const preferOurs = strategy === "highest" ? comparison > 0 : comparison < 0
+          const preferOurs = direction === "highest" ? comparison > 0 : comparison < 0
           return preferOurs
-            ? {resolved: ourValue, reason: `our value is lexicographically ${strategy}`}
-            : {resolved: theirValue, reason: `their value is lexicographically ${strategy}`}
+            ? {resolved: ourValue, reason: `our value is lexicographically ${direction}`, confidence: "fallback"}
+            : {resolved: theirValue, reason: `their value is lexicographically ${direction}`, confidence: "fallback"}
         }
 
         // For objects and mixed types, prefer ours as default
-        return {resolved: ourValue, reason: "non-version conflict, keeping our value"}
+        return {resolved: ourValue, reason: "non-version conflict, keeping our value", confidence: "fallback"}
       }
       default:
-        return {resolved: ourValue, reason: "unknown strategy, keeping our value"}
+        return {resolved: ourValue, reason: "unknown strategy, keeping our value", confidence: "fallback"}
+    }
+  }
+
+  /**
+   * Confidence of a comparison between cleaned versions: semver when both
+   * specs are plain versions, range when either carried a range operator
+   */
+  private static plainVersionConfidence(ourVersion: string, theirVersion: string): ResolutionConfidence {
+    return semver.valid(ourVersion) && semver.valid(theirVersion) ? "semver" : "range"
+  }
+
+  /**
+   * The least reliable of several confidence levels (exact when empty)
+   */
+  static leastConfident(levels: Iterable<ResolutionConfidence>): ResolutionConfidence {
+    let least: ResolutionConfidence = "exact"
+    for (const level of levels) {
+      if (CONFIDENCE_LEVELS.indexOf(level) > CONFIDENCE_LEVELS.indexOf(least)) {
+        least = level
+      }
     }
+    return least
+  }
+
+  /**
+   * Whether a resolution was a guess (coerced comparison or fallback)
+   */
+  static isUncertain(confidence: ResolutionConfidence | undefined): boolean {
+    return confidence !== undefined && UNCERTAIN_CONFIDENCE_LEVELS.includes(confidence)
   }
 }
@@ -0,0 +1,177 @@
+/**
+ * Workspace discovery for monorepos.
+ *
+ * Workspace packages are declared with directory globs: the `workspaces`
+ * field of the root package.json (npm and yarn; an array, or
+ * `{"packages": [...]}` in yarn classic) or the `packages` list of
+ * pnpm-workspace.yaml. Patterns starting with "!" exclude directories.
+ */
+
+import {readdir, readFile, stat} from "fs/promises"
+import {join} from "node:path"
+import {parse} from "yaml"
+import {ConflictParser} from "./conflict-parser.js"
+import {matchesGlob, matchesPathGlob} from "./config.js"
+
+export const PNPM_WORKSPACE_FILE = "pnpm-workspace.yaml"
+
+/** Directories never searched for workspace packages */
+const SKIPPED_DIRECTORIES = new Set(["node_modules", ".git"])
+
+/**
+ * Read the workspace patterns of a repository root. A conflicted root
+ * package.json or pnpm-workspace.yaml contributes the patterns of both sides.
+ */
+export async function readWorkspacePatterns(rootDir: string): Promise<string[]> {
+  const patterns: string[] = []
+
+  const packageJsonContent = await readOptionalFile(join(rootDir, "package.json"))
+  for (const side of conflictSides(packageJsonContent)) {
+    patterns.push(...packageJsonWorkspaces(side))
+  }
+
+  const pnpmWorkspaceContent = await readOptionalFile(join(rootDir, PNPM_WORKSPACE_FILE))
+  for (const side of conflictSides(pnpmWorkspaceContent)) {
+    patterns.push(...stringList(parse(side)?.packages))
+  }
+
+  return [...new Set(patterns.map(normalizePattern))]
+}
+
+/**
+ * Directories (relative to the root, "/"-separated, sorted) matched by the
+ * workspace patterns that contain a package.json. The root itself is not
+ * included.
+ */
+export async function findWorkspacePackages(rootDir: string, patterns: string[]): Promise<string[]> {
+  const includes = patterns.filter(pattern => !pattern.startsWith("!"))
+  const excludes = patterns
+    .filter(pattern => pattern.startsWith("!"))
+    .map(pattern => normalizePattern(pattern.slice(1)))
+
+  const directories = new Set<string>()
+  for (const pattern of includes) {
+    for (const directory of await expandPattern(rootDir, normalizePattern(pattern))) {
+      if (directory !== "" && (await isFile(join(rootDir, directory, "package.json")))) {
+        directories.add(directory)
+      }
+    }
+  }
+
+  return [...directories]
+    .filter(directory => !excludes.some(pattern => matchesPathGlob(pattern, directory.split("/"), "/")))
+    .sort()
+}
+
+function packageJsonWorkspaces(content: string): string[] {
+  let workspaces: unknown
+  try {
+    workspaces = JSON.parse(content.replace(/^\uFEFF/, "")).workspaces
+  } catch {
+    return [] // One side of a conflict may not be valid JSON on its own
+  }
+
+  // yarn classic: {"packages": [...], "nohoist": [...]}
+  return stringList(Array.isArray(workspaces) ? workspaces : (workspaces as any)?.packages)
+}
+
+/** Both sides of conflicted content, or the content itself */
+function conflictSides(content: string | undefined): string[] {
+  if (content === undefined) {
+    return []
+  }
+  if (!ConflictParser.hasConflicts(content)) {
+    return [content]
+  }
+  return [ConflictParser.extractConflictSide(content, "ours"), ConflictParser.extractConflictSide(content, "theirs")]
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === "string") : []
+}
+
+/** Strip leading "./" and trailing slashes, use "/" as the separator */
+function normalizePattern(pattern: string): string {
+  const negated = pattern.startsWith("!")
+  const body = (negated ? pattern.slice(1) : pattern)
+    .replace(/\\/g, "/")
+    .replace(/^(\.\/)+/, "")
+    .replace(/\/+$/, "")
+  return negated ? `!${body}` : body
+}
+
+/**
+ * Expand a directory glob segment by segment: `*` matches one directory
+ * name, `**` any number of nested directories.
+ */
+async function expandPattern(rootDir: string, pattern: string): Promise<string[]> {
+  let current = [""]
+
+  for (const segment of pattern.split("/").filter(part => part !== "" && part !== ".")) {
+    const next = new Set<string>()
+    for (const directory of current) {
+      if (segment === "**") {
+        next.add(directory)
+        for (const nested of await listDirectories(rootDir, directory, true)) next.add(nested)
+      } else if (!/[*?]/.test(segment)) {
+        const candidate = directory ? `${directory}/${segment}` : segment
+        if (await isDirectory(join(rootDir, candidate))) next.add(candidate)
+      } else {
+        for (const child of await listDirectories(rootDir, directory, false)) {
+          if (matchesGlob(segment, child.slice(child.lastIndexOf("/") + 1))) next.add(child)
+        }
+      }
+    }
+    current = [...next]
+  }
+
+  return current
+}
+
+/**
+ * Subdirectories of a directory (relative paths), skipping dot directories
+ * and node_modules
+ */
+async function listDirectories(rootDir: string, directory: string, recursive: boolean): Promise<string[]> {
+  let entries
+  try {
+    entries = await readdir(join(rootDir, directory), {withFileTypes: true})
+  } catch {
+    return []
+  }
+
+  const found: string[] = []
+  for (const entry of entries) {
+    if (!entry.isDirectory() || entry.name.startsWith(".") || SKIPPED_DIRECTORIES.has(entry.name)) continue
+    const child = directory ? `${directory}/${entry.name}` : entry.name
+    found.push(child)
+    if (recursive) {
+      found.push(...(await listDirectories(rootDir, child, true)))
+    }
+  }
+  return found
+}
+
+async function readOptionalFile(filePath: string): Promise<string | undefined> {
+  try {
+    return await readFile(filePath, "utf8")
+  } catch {
+    return undefined
+  }
+}
+
+async function isFile(filePath: string): Promise<boolean> {
+  try {
+    return (await stat(filePath)).isFile()
+  } catch {
+    return false
+  }
+}
+
+async function isDirectory(filePath: string): Promise<boolean> {
+  try {
+    return (await stat(filePath)).isDirectory()
+  } catch {
+    return false
+  }
+}
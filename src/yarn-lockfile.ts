@@ -0,0 +1,396 @@
+/**
+ * Parsers and serializers for yarn.lock: the classic (v1) format and the
+ * YAML-based Berry (v2+) format.
+ *
+ * A yarn.lock maps dependency specs ("lodash@^4.17.0") to the resolved
+ * package. Specs resolving to the same package share one entry, written under
+ * a combined key ("lodash@^4.17.0, lodash@^4.17.21"). Parsed lockfiles keep
+ * one key per spec, so two lockfiles can be merged spec by spec; the
+ * serializers combine specs with identical entries again.
+ */
+
+import {isDeepStrictEqual} from "node:util"
+
+export type YarnLockfileFormat = "classic" | "berry"
+
+export interface YarnLockfile {
+  /** Comment and blank lines before the first entry, kept verbatim */
+  header: string
+  /** Berry only: the `__metadata` block (lockfile version and cache key) */
+  metadata?: Record<string, any>
+  /** Entries keyed by single spec; specs sharing a resolution share the object */
+  entries: Record<string, Record<string, any>>
+}
+
+/** Keys yarn writes first, in this order; the rest are sorted alphabetically */
+const KEY_PRIORITY: Record<string, number> = {
+  name: 1,
+  version: 2,
+  uid: 3,
+  resolved: 4,
+  integrity: 5,
+  registry: 6,
+  dependencies: 7,
+}
+
+/** Keys Berry writes first, in this order; the rest are sorted alphabetically */
+const BERRY_KEY_ORDER = [
+  "__metadata",
+  "version",
+  "resolution",
+  "dependencies",
+  "peerDependencies",
+  "dependenciesMeta",
+  "peerDependenciesMeta",
+  "binaries",
+]
+
+/** Berry scalars that can be written without quotes */
+const BERRY_PLAIN_SCALAR = /^(?![-?:,\][{}#&*!|>'"%@` \t\r\n]).([ \t]*(?![,\][{}:# \t\r\n]).)*$/
+
+const INDENT = "  "
+
+/**
+ * Whether the content is a yarn classic lockfile
+ */
+export function isYarnClassicLockfile(content: string): boolean {
+  return /^# yarn lockfile v1\s*$/m.test(content)
+}
+
+/**
+ * Whether the content is a yarn Berry lockfile
+ */
+export function isYarnBerryLockfile(content: string): boolean {
+  return /^__metadata:\s*$/m.test(content)
+}
+
+/**
+ * Format of a yarn.lock, or undefined when it is neither
+ */
+export function detectYarnLockfileFormat(content: string): YarnLockfileFormat | undefined {
+  if (isYarnBerryLockfile(content)) return "berry"
+  if (isYarnClassicLockfile(content)) return "classic"
+  return undefined
+}
+
+/**
+ * Parse a yarn classic lockfile. Throws on content that is not valid
+ * lockfile syntax (e.g. leftover conflict markers).
+ */
+export function parseYarnLockfile(content: string): YarnLockfile {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/)
+
+  let headerEnd = 0
+  while (headerEnd < lines.length && /^\s*(?:#.*)?$/.test(lines[headerEnd]!)) {
+    headerEnd++
+  }
+
+  const entries: Record<string, Record<string, any>> = {}
+  // Objects currently open, indexed by nesting depth
+  const stack: Record<string, any>[] = [entries]
+
+  for (let i = headerEnd; i < lines.length; i++) {
+    const line = lines[i]!
+    if (/^\s*(?:#.*)?$/.test(line)) continue
+
+    const lineNumber = i + 1
+    const indent = line.match(/^ */)![0].length
+    if (indent % INDENT.length !== 0 || indent / INDENT.length >= stack.length) {
+      throw new Error(`Invalid yarn.lock at line ${lineNumber}: unexpected indentation`)
+    }
+    stack.length = indent / INDENT.length + 1
+    const parent = stack[stack.length - 1]!
+
+    const text = line.slice(indent).trimEnd()
+    if (text.endsWith(":")) {
+      const keys = readKeyList(text.slice(0, -1), lineNumber)
+      const value: Record<string, any> = {}
+      for (const key of keys) {
+        parent[key] = value
+      }
+      stack.push(value)
+      continue
+    }
+
+    const [key, rest] = readToken(text, lineNumber)
+    if (!/^\s+\S/.test(rest)) {
+      throw new Error(`Invalid yarn.lock at line ${lineNumber}: expected a value for "${key}"`)
+    }
+    const [raw, after] = readToken(rest.trimStart(), lineNumber)
+    if (after.trim() !== "") {
+      throw new Error(`Invalid yarn.lock at line ${lineNumber}: unexpected "${after.trim()}"`)
+    }
+    parent[key] = parseScalar(raw, rest.trimStart())
+  }
+
+  return {header: lines.slice(0, headerEnd).join("\n") + (headerEnd > 0 ? "\n" : ""), entries}
+}
+
+/**
+ * Serialize a lockfile the way yarn writes it: entries sorted by spec, specs
+ * with identical entries combined under one key, one blank line between entries.
+ */
+export function stringifyYarnLockfile(lockfile: YarnLockfile): string {
+  const body = stringifyObject(lockfile.entries, "", true)
+  return lockfile.header + (body === "" ? "" : `${body}\n`)
+}
+
+/**
+ * Parse a yarn Berry lockfile. Values are kept as strings, the way Berry
+ * reads them. Throws on content outside the subset Berry writes.
+ */
+export function parseYarnBerryLockfile(content: string): YarnLockfile {
+  const lines = content.replace(/^\uFEFF/, "").split(/\r?\n/)
+
+  let headerEnd = 0
+  while (headerEnd < lines.length && /^\s*(?:#.*)?$/.test(lines[headerEnd]!)) {
+    headerEnd++
+  }
+
+  const document: Record<string, any> = {}
+  const stack: Record<string, any>[] = [document]
+
+  for (let i = headerEnd; i < lines.length; i++) {
+    const line = lines[i]!
+    if (/^\s*(?:#.*)?$/.test(line)) continue
+
+    const lineNumber = i + 1
+    const indent = line.match(/^ */)![0].length
+    if (indent % INDENT.length !== 0 || indent / INDENT.length >= stack.length) {
+      throw new Error(`Invalid yarn.lock at line ${lineNumber}: unexpected indentation`)
+    }
+    stack.length = indent / INDENT.length + 1
+    const parent = stack[stack.length - 1]!
+
+    const [key, rest] = readBerryKey(line.slice(indent).trimEnd(), lineNumber)
+    if (rest === "") {
+      const value: Record<string, any> = {}
+      // Only top-level keys combine several specs
+      for (const spec of stack.length === 1 ? key.split(", ") : [key]) {
+        parent[spec] = value
+      }
+      stack.push(value)
+    } else {
+      parent[key] = readBerryScalar(rest, lineNumber)
+    }
+  }
+
+  const {__metadata: metadata, ...entries} = document
+  return {
+    header: lines.slice(0, headerEnd).join("\n") + (headerEnd > 0 ? "\n" : ""),
+    ...(metadata !== undefined ? {metadata} : {}),
+    entries,
+  }
+}
+
+/**
+ * Serialize a Berry lockfile byte for byte the way Berry writes it:
+ * `__metadata` first, entries sorted by key with specs sharing a resolution
+ * combined, known fields first in each entry, one blank line between entries.
+ */
+export function stringifyYarnBerryLockfile(lockfile: YarnLockfile): string {
+  const keys = new Map<string, Record<string, any>>()
+  const written = new Set<string>()
+  for (const spec of Object.keys(lockfile.entries)) {
+    if (written.has(spec)) continue
+    const value = lockfile.entries[spec]!
+    const specs = Object.keys(lockfile.entries).filter(
+      other => !written.has(other) && isDeepStrictEqual(lockfile.entries[other], value)
+    )
+    specs.forEach(other => written.add(other))
+    keys.set(specs.sort(compareAlpha).join(", "), value)
+  }
+
+  const document: Record<string, any> = {
+    ...(lockfile.metadata !== undefined ? {__metadata: lockfile.metadata} : {}),
+    ...Object.fromEntries(keys),
+  }
+  return lockfile.header + stringifyBerryObject(document, 0)
+}
+
+/**
+ * Package name of a lockfile spec: "@scope/pkg@^1.0.0" → "@scope/pkg"
+ */
+export function yarnSpecPackageName(spec: string): string {
+  const at = spec.indexOf("@", 1)
+  return at === -1 ? spec : spec.slice(0, at)
+}
+
+function stringifyBerryObject(object: Record<string, any>, depth: number): string {
+  const indent = INDENT.repeat(depth)
+  const fields = Object.keys(object)
+    .filter(key => !isEmptyBerryValue(object[key]))
+    .sort(compareBerryKeys)
+    .map(key => {
+      const value = object[key]
+      const keyPart = `${indent}${formatBerryScalar(key)}:`
+      return typeof value === "object"
+        ? `${keyPart}\n${stringifyBerryObject(value, depth + 1)}`
+        : `${keyPart} ${formatBerryScalar(String(value))}\n`
+    })
+  // Top-level entries are separated by a blank line
+  return fields.join(depth === 0 ? "\n" : "")
+}
+
+/**
+ * Berry drops fields without a value, including objects that only hold such fields
+ */
+function isEmptyBerryValue(value: any): boolean {
+  if (value === undefined || value === null) return true
+  return typeof value === "object" && Object.values(value).every(isEmptyBerryValue)
+}
+
+function compareBerryKeys(a: string, b: string): number {
+  const indexA = BERRY_KEY_ORDER.indexOf(a)
+  const indexB = BERRY_KEY_ORDER.indexOf(b)
+  if (indexA === -1 && indexB === -1) return compareAlpha(a, b)
+  if (indexA === -1 || indexB === -1) return indexA === -1 ? 1 : -1
+  return indexA - indexB
+}
+
+function formatBerryScalar(value: string): string {
+  return BERRY_PLAIN_SCALAR.test(value) ? value : JSON.stringify(value)
+}
+
+/**
+ * Read the key of a Berry line: a JSON-quoted string or plain text up to
+ * the `:` separator. Returns the key and the value text ("" for a block).
+ */
+function readBerryKey(text: string, lineNumber: number): [string, string] {
+  let key: string
+  let rest: string
+  if (text.startsWith('"')) {
+    const match = text.match(/^"(?:[^"\\]|\\.)*"/)
+    if (!match) {
+      throw new Error(`Invalid yarn.lock at line ${lineNumber}: unterminated string`)
+    }
+    key = JSON.parse(match[0])
+    rest = text.slice(match[0].length)
+  } else {
+    const match = text.match(/^([^\s"?:#-][^:]*?):(?=\s|$)/)
+    if (!match) {
+      throw new Error(`Invalid yarn.lock at line ${lineNumber}: unexpected "${text}"`)
+    }
+    key = match[1]!
+    rest = text.slice(match[1]!.length)
+  }
+
+  if (!rest.startsWith(":")) {
+    throw new Error(`Invalid yarn.lock at line ${lineNumber}: expected ":" after "${key}"`)
+  }
+  return [key, rest.slice(1).trim()]
+}
+
+function readBerryScalar(text: string, lineNumber: number): string {
+  if (!text.startsWith('"')) {
+    return text
+  }
+  const match = text.match(/^"(?:[^"\\]|\\.)*"$/)
+  if (!match) {
+    throw new Error(`Invalid yarn.lock at line ${lineNumber}: unterminated string`)
+  }
+  return JSON.parse(match[0])
+}
+
+function stringifyObject(object: Record<string, any>, indent: string, topLevel: boolean): string {
+  const keys = Object.keys(object).sort(compareKeys)
+  const written = new Set<string>()
+  const lines: string[] = []
+
+  for (const key of keys) {
+    const value = object[key]
+    if (value === undefined || value === null || written.has(key)) continue
+
+    // Specs resolving to the same entry share one combined key
+    const sameValueKeys =
+      typeof value === "object"
+        ? keys.filter(other => !written.has(other) && isDeepStrictEqual(object[other], value))
+        : [key]
+    sameValueKeys.forEach(other => written.add(other))
+    const keyLine = sameValueKeys.sort(compareAlpha).map(maybeQuote).join(", ")
+
+    if (typeof value === "object") {
+      const nested = stringifyObject(value, indent + INDENT, false)
+      lines.push(`${indent}${keyLine}:${nested === "" ? "" : `\n${nested}`}${topLevel ? "\n" : ""}`)
+    } else {
+      lines.push(`${indent}${keyLine} ${maybeQuote(value)}`)
+    }
+  }
+
+  return topLevel ? lines.join("\n").replace(/\n$/, "") : lines.join("\n")
+}
+
+function compareKeys(a: string, b: string): number {
+  const priorityA = KEY_PRIORITY[a] ?? 100
+  const priorityB = KEY_PRIORITY[b] ?? 100
+  return priorityA !== priorityB ? priorityA - priorityB : compareAlpha(a, b)
+}
+
+function compareAlpha(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0
+}
+
+/**
+ * Quote keys and values the way yarn does: anything that could be misread
+ * as another token (booleans, numbers, separators, whitespace)
+ */
+function maybeQuote(value: string | number | boolean): string {
+  if (typeof value !== "string") {
+    return JSON.stringify(value)
+  }
+  const needsQuotes =
+    value.startsWith("true") || value.startsWith("false") || /[:\s\\",[\]]/.test(value) || !/^[a-zA-Z]/.test(value)
+  return needsQuotes ? JSON.stringify(value) : value
+}
+
+/**
+ * Read one key or value token: a JSON-quoted string or a bare word (starting
+ * with a letter, digit, slash, dot or dash) ending at whitespace, a comma or a
+ * colon. Returns the token and the remaining text.
+ */
+function readToken(text: string, lineNumber: number): [string, string] {
+  if (text.startsWith('"')) {
+    const match = text.match(/^"(?:[^"\\]|\\.)*"/)
+    if (!match) {
+      throw new Error(`Invalid yarn.lock at line ${lineNumber}: unterminated string`)
+    }
+    return [JSON.parse(match[0]), text.slice(match[0].length)]
+  }
+
+  const match = text.match(/^[\w/.-][^\s,:"]*/)
+  if (!match) {
+    throw new Error(`Invalid yarn.lock at line ${lineNumber}: unexpected "${text}"`)
+  }
+  return [match[0], text.slice(match[0].length)]
+}
+
+/**
+ * Read the comma-separated specs of an entry key line
+ */
+function readKeyList(text: string, lineNumber: number): string[] {
+  const keys: string[] = []
+  let rest = text
+  while (true) {
+    const [key, after] = readToken(rest.trimStart(), lineNumber)
+    keys.push(key)
+    rest = after.trimStart()
+    if (rest === "") return keys
+    if (!rest.startsWith(",")) {
+      throw new Error(`Invalid yarn.lock at line ${lineNumber}: unexpected "${rest}"`)
+    }
+    rest = rest.slice(1)
+  }
+}
+
+/**
+ * Bare `true`/`false` and numbers are typed; quoted text always stays a string
+ */
+function parseScalar(token: string, source: string): string | number | boolean {
+  if (source.startsWith('"')) {
+    return token
+  }
+  if (token === "true" || token === "false") {
+    return token === "true"
+  }
+  return /^\d+$/.test(token) ? Number(token) : token
+}